@@ -7,13 +7,25 @@ describe('AnthropicClient', () => {
   let client: AnthropicClient;
   let mockAnthropicInstance: any;
   let mockCreate: jest.Mock;
+  let mockToolsCreate: jest.Mock;
+  let mockPost: jest.Mock;
 
   beforeEach(() => {
     mockCreate = jest.fn();
+    mockToolsCreate = jest.fn();
+    mockPost = jest.fn();
     mockAnthropicInstance = {
+      post: mockPost,
       messages: {
         create: mockCreate,
       },
+      beta: {
+        tools: {
+          messages: {
+            create: mockToolsCreate,
+          },
+        },
+      },
     };
 
     (Anthropic as jest.MockedClass<typeof Anthropic>).mockImplementation(() => mockAnthropicInstance);
@@ -196,6 +208,88 @@ describe('AnthropicClient', () => {
     });
   });
 
+  describe('createToolCall', () => {
+    const tool = {
+      name: 'report_issues',
+      description: 'Reports issues',
+      inputSchema: { type: 'object' as const, properties: { issues: { type: 'array' } } },
+    };
+
+    it('should force the tool and return its input', async () => {
+      // Arrange
+      mockToolsCreate.mockResolvedValue({
+        content: [
+          { type: 'text', text: 'Reporting now' },
+          { type: 'tool_use', id: 'tu_1', name: 'report_issues', input: { issues: [] } },
+        ],
+      });
+
+      // Act
+      const input = await client.createToolCall('Review this', tool, { maxTokens: 2048 });
+
+      // Assert
+      expect(input).toEqual({ issues: [] });
+      expect(mockToolsCreate).toHaveBeenCalledWith({
+        model: 'claude-3-opus-20240229',
+        max_tokens: 2048,
+        temperature: 0.3,
+        messages: [{ role: 'user', content: 'Review this' }],
+        stop_sequences: undefined,
+        tools: [{ name: 'report_issues', description: 'Reports issues', input_schema: tool.inputSchema }],
+        tool_choice: { type: 'tool', name: 'report_issues' },
+      });
+    });
+
+    it('should throw when the model does not call the tool', async () => {
+      // Arrange
+      mockToolsCreate.mockResolvedValue({ content: [{ type: 'text', text: 'No tool call' }] });
+
+      // Act & Assert
+      await expect(client.createToolCall('Review this', tool)).rejects.toThrow(
+        'Model did not call the report_issues tool'
+      );
+    });
+
+    it('should handle Anthropic API errors', async () => {
+      // Arrange
+      const apiError = new Error('Overloaded');
+      Object.setPrototypeOf(apiError, Anthropic.APIError.prototype);
+      mockToolsCreate.mockRejectedValue(apiError);
+
+      // Act & Assert
+      await expect(client.createToolCall('Review this', tool)).rejects.toThrow('Anthropic API error: Overloaded');
+    });
+  });
+
+  describe('countTokens', () => {
+    it('should return the input token count from the counting endpoint', async () => {
+      // Arrange
+      mockPost.mockResolvedValue({ input_tokens: 42 });
+
+      // Act
+      const tokens = await client.countTokens('Review this');
+
+      // Assert
+      expect(tokens).toBe(42);
+      expect(mockPost).toHaveBeenCalledWith('/v1/messages/count_tokens', {
+        body: {
+          model: 'claude-3-opus-20240229',
+          messages: [{ role: 'user', content: 'Review this' }],
+        },
+      });
+    });
+
+    it('should handle Anthropic API errors', async () => {
+      // Arrange
+      const apiError = new Error('Not found');
+      Object.setPrototypeOf(apiError, Anthropic.APIError.prototype);
+      mockPost.mockRejectedValue(apiError);
+
+      // Act & Assert
+      await expect(client.countTokens('Review this')).rejects.toThrow('Anthropic API error: Not found');
+    });
+  });
+
   describe('validateApiKey', () => {
     it('should return true for valid API key', async () => {
       // Arrange
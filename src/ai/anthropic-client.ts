@@ -1,4 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { MessageCreateParamsNonStreaming } from '@anthropic-ai/sdk/resources/beta/tools/messages';
 
 export interface AnthropicConfig {
   apiKey: string;
@@ -18,6 +19,16 @@ export interface AIResponse {
   thinking: string;
 }
 
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
 export class AnthropicClient {
   private client: Anthropic;
   private model: string;
@@ -75,6 +86,84 @@ export class AnthropicClient {
     }
   }
 
+  /**
+   * Makes Claude answer by calling a tool, so the answer arrives as structured input
+   * @param prompt - The prompt to send
+   * @param tool - Tool the model is forced to call
+   * @param options - Message options
+   * @returns The input the model passed to the tool
+   */
+  async createToolCall(prompt: string, tool: ToolDefinition, options: MessageOptions = {}): Promise<unknown> {
+    // tool_choice is accepted by the tools beta but not yet part of this SDK version's types
+    const params: MessageCreateParamsNonStreaming & { tool_choice: { type: 'tool'; name: string } } = {
+      model: this.model,
+      max_tokens: options.maxTokens || 4096,
+      temperature: options.temperature || 0.3,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      stop_sequences: options.stopSequences,
+      tools: [
+        {
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema,
+        },
+      ],
+      tool_choice: { type: 'tool', name: tool.name },
+    };
+
+    try {
+      const response = await this.client.beta.tools.messages.create(params);
+
+      const toolUse = response.content.find(
+        block => block.type === 'tool_use' && block.name === tool.name
+      );
+      if (!toolUse || toolUse.type !== 'tool_use') {
+        throw new Error(`Model did not call the ${tool.name} tool`);
+      }
+
+      return toolUse.input;
+    } catch (error) {
+      if (error instanceof Anthropic.APIError) {
+        throw new Error(`Anthropic API error: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Counts the input tokens of a prompt with Anthropic's token counting endpoint
+   * @param prompt - The prompt to count
+   * @returns Input token count
+   */
+  async countTokens(prompt: string): Promise<number> {
+    try {
+      // The endpoint is not yet part of this SDK version, so it is called directly
+      const response = await this.client.post<unknown, { input_tokens: number }>('/v1/messages/count_tokens', {
+        body: {
+          model: this.model,
+          messages: [
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+        },
+      });
+
+      return response.input_tokens;
+    } catch (error) {
+      if (error instanceof Anthropic.APIError) {
+        throw new Error(`Anthropic API error: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Validates the API key by making a test request
    * @returns true if the API key is valid
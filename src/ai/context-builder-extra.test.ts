@@ -1,10 +1,11 @@
 import { ContextBuilder } from './context-builder';
+import { ImportResolver } from './import-resolver';
 
 describe('ContextBuilder - Extra Coverage', () => {
   let contextBuilder: ContextBuilder;
 
   beforeEach(() => {
-    contextBuilder = new ContextBuilder();
+    contextBuilder = new ContextBuilder(new ImportResolver(), { countTokens: text => Math.ceil(text.length / 4) }, 150000);
   });
 
   describe('optimizeForTokenLimit branch coverage', () => {
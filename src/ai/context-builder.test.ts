@@ -1,10 +1,16 @@
-import { ContextBuilder } from './context-builder';
+import { ContextBuilder, BatchableFile, FileContext } from './context-builder';
+import { ImportResolver } from './import-resolver';
+import { Tokenizer } from './tokenizer';
+
+// Budget tests size their content in characters, so they count four characters per token
+const charTokenizer: Tokenizer = { countTokens: text => Math.ceil(text.length / 4) };
+const MAX_TOKENS = 150000;
 
 describe('ContextBuilder', () => {
   let contextBuilder: ContextBuilder;
 
   beforeEach(() => {
-    contextBuilder = new ContextBuilder();
+    contextBuilder = new ContextBuilder(new ImportResolver(), charTokenizer, MAX_TOKENS);
   });
 
   describe('buildFileContext', () => {
@@ -169,6 +175,30 @@ export var deprecated = 1;
       expect(related.exports).toContain('deprecated');
     });
 
+    it('should extract interface, type, enum and re-exported names', async () => {
+      // Arrange
+      const file = {
+        path: 'src/types.ts',
+        content: `
+// import fake from 'commented-out';
+export interface User { id: string }
+export type Id = string;
+export enum Role { Admin }
+export async function load() {}
+const local = 1;
+export { local as renamed };
+export * from './more';
+`,
+      };
+
+      // Act
+      const related = await contextBuilder.includeRelatedFiles(file);
+
+      // Assert
+      expect(related.exports).toEqual(['User', 'Id', 'Role', 'load', 'renamed']);
+      expect(related.imports).toEqual(['./more']);
+    });
+
     it('should find test files', async () => {
       // Arrange
       const file = { path: 'src/utils.js' };
@@ -181,8 +211,22 @@ export var deprecated = 1;
       expect(related.tests).toContain('src/utils.test.ts');
       expect(related.tests).toContain('src/utils.spec.js');
       expect(related.tests).toContain('src/utils.spec.ts');
-      expect(related.tests).toContain('__tests__/src/utils.js');
-      expect(related.tests).toContain('__tests__/src/utils.ts');
+      expect(related.tests).toContain('src/__tests__/utils.test.ts');
+      expect(related.tests).toContain('src/__tests__/utils.js');
+      expect(related.tests).toContain('src/__tests__/utils.ts');
+      expect(related.tests).not.toContain('__tests__/src/utils.js');
+    });
+
+    it('should only return test files that exist when the file tree is known', async () => {
+      // Arrange
+      const files = new Set(['src/utils.js', 'src/__tests__/utils.test.ts']);
+      const builder = new ContextBuilder(new ImportResolver({ files, paths: [], workspacePackages: [] }));
+
+      // Act
+      const related = await builder.includeRelatedFiles({ path: 'src/utils.js' });
+
+      // Assert
+      expect(related.tests).toEqual(['src/__tests__/utils.test.ts']);
     });
 
     it('should handle empty content', async () => {
@@ -281,7 +325,7 @@ const React = require('react'); // also duplicate
 
       // Assert
       expect(optimized.truncated).toBe(true);
-      expect(optimized.tokenCount).toBe(150000);
+      expect(optimized.tokenCount).toBe(MAX_TOKENS);
       expect(optimized.files[0].content).toBe(''); // Content removed
       expect(optimized.files[0].diff).toContain('... (truncated)');
     });
@@ -319,4 +363,294 @@ const React = require('react'); // also duplicate
       expect(optimized.files[0].diff).toContain('x'); // Diff kept but may be truncated
     });
   });
-});
\ No newline at end of file
+
+  describe('resolveImportPaths', () => {
+    it('should resolve imports through the import resolver', () => {
+      // Arrange
+      const resolver = new ImportResolver();
+      const resolve = jest.spyOn(resolver, 'resolve').mockReturnValue(['src/models/user.ts']);
+      const builder = new ContextBuilder(resolver);
+
+      // Act
+      const paths = builder.resolveImportPaths('src/app.ts', '@app/models/user');
+
+      // Assert
+      expect(resolve).toHaveBeenCalledWith('src/app.ts', '@app/models/user');
+      expect(paths).toEqual(['src/models/user.ts']);
+    });
+
+    it('should resolve relative imports by default', () => {
+      // Act
+      const paths = contextBuilder.resolveImportPaths('src/handlers/events/command.ts', '../../ai/engine.js');
+
+      // Assert
+      expect(paths[0]).toBe('src/ai/engine.ts');
+    });
+  });
+
+  describe('analyzeExportChanges', () => {
+    it('should report changed exports with the files importing them', () => {
+      // Arrange
+      const content = 'export function sum(values: number[]): number {\n  return 0;\n}\n';
+      const diff = [
+        '@@ -1,3 +1,3 @@',
+        '-export function sum(a: number, b: number): number {',
+        '+export function sum(values: number[]): number {',
+        '   return 0;',
+        ' }',
+      ].join('\n');
+      const files = [
+        { path: 'src/math.ts', content, diff },
+        { path: 'src/cart.ts', content: "import { sum } from './math';\n", diff: '' },
+      ];
+      const relatedFiles = [
+        { path: 'src/report.ts', content: "import * as math from './math';\n" },
+        { path: 'src/other.ts', content: "import { max } from './math';\n" },
+      ];
+
+      // Act
+      const impacts = contextBuilder.analyzeExportChanges(files, relatedFiles);
+
+      // Assert
+      expect(impacts).toEqual([
+        {
+          path: 'src/math.ts',
+          line: 1,
+          name: 'sum',
+          kind: 'function',
+          change: 'signature',
+          before: 'function sum(a: number, b: number): number',
+          after: 'function sum(values: number[]): number',
+          usedBy: ['src/cart.ts', 'src/report.ts'],
+        },
+      ]);
+    });
+
+    it('should skip files whose patch does not match their content', () => {
+      // Arrange
+      const files = [{ path: 'src/a.ts', content: 'export const a = 1;', diff: '@@ -1 +1 @@\n-x\n+y' }];
+
+      // Act & Assert
+      expect(contextBuilder.analyzeExportChanges(files)).toEqual([]);
+    });
+  });
+
+  describe('optimizeForTokenLimit with related files', () => {
+    const pr = {
+      title: 'Test',
+      description: 'Test',
+      author: 'user',
+      targetBranch: 'main',
+      sourceBranch: 'feature',
+    };
+    const fileContext = (path: string, content: string, diff: string): FileContext => ({
+      path,
+      content,
+      diff,
+      language: 'javascript',
+    });
+
+    it('should keep related files when everything fits', () => {
+      // Arrange
+      const related = [fileContext('src/util.js', 'export const util = 1;', '')];
+
+      // Act
+      const optimized = contextBuilder.optimizeForTokenLimit({
+        files: [fileContext('src/a.js', 'const a = 1;', 'diff')],
+        pr,
+        relatedFiles: new Map(),
+        relatedContents: related,
+        totalTokens: 0,
+      });
+
+      // Assert
+      expect(optimized.truncated).toBe(false);
+      expect(optimized.relatedContents).toEqual(related);
+    });
+
+    it('should drop related files before file contents', () => {
+      // Arrange
+      const file = fileContext('src/a.js', 'x'.repeat(400000), 'diff'); // ~100k tokens
+      const related = [fileContext('src/util.js', 'x'.repeat(300000), '')]; // ~75k tokens
+
+      // Act
+      const optimized = contextBuilder.optimizeForTokenLimit({
+        files: [file],
+        pr,
+        relatedFiles: new Map(),
+        relatedContents: related,
+        totalTokens: 0,
+      });
+
+      // Assert
+      expect(optimized.truncated).toBe(true);
+      expect(optimized.files).toEqual([file]);
+      expect(optimized.relatedContents).toEqual([]);
+    });
+
+    it('should drop file contents before diffs', () => {
+      // Arrange
+      const first = fileContext('src/a.js', 'x'.repeat(400000), 'a'.repeat(100000));
+      const second = fileContext('src/b.js', 'x'.repeat(40000), 'b'.repeat(100000));
+
+      // Act
+      const optimized = contextBuilder.optimizeForTokenLimit({
+        files: [first, second],
+        pr,
+        relatedFiles: new Map(),
+        totalTokens: 0,
+      });
+
+      // Assert
+      expect(optimized.files).toEqual([{ ...first, content: '' }, second]);
+      expect(optimized.tokenCount).toBeLessThanOrEqual(MAX_TOKENS);
+    });
+  });
+
+  describe('batchFiles', () => {
+    const file = (path: string, content: string, size = 0): BatchableFile => ({
+      path,
+      content: content + 'x'.repeat(size),
+      diff: '',
+    });
+
+    it('should keep a small pull request in one batch', () => {
+      // Arrange
+      const files = [file('src/a.ts', ''), file('src/b.ts', '')];
+
+      // Act
+      const batches = contextBuilder.batchFiles(files);
+
+      // Assert
+      expect(batches).toEqual([files]);
+    });
+
+    it('should split files across batches that fit the token budget', () => {
+      // Arrange
+      const files = [
+        file('src/a.ts', '', 320000), // ~80k tokens each
+        file('src/b.ts', '', 320000),
+        file('src/c.ts', '', 100),
+      ];
+
+      // Act
+      const batches = contextBuilder.batchFiles(files);
+
+      // Assert
+      expect(batches.map(batch => batch.map(f => f.path))).toEqual([
+        ['src/a.ts', 'src/c.ts'],
+        ['src/b.ts'],
+      ]);
+    });
+
+    it('should keep files that import each other in the same batch', () => {
+      // Arrange
+      const files = [
+        file('src/a.ts', '', 320000),
+        file('src/b.ts', '', 320000),
+        file('src/util/index.ts', '', 100),
+        file('src/c.ts', "import { a } from './a';\nimport { util } from './util';\n", 100),
+      ];
+
+      // Act
+      const batches = contextBuilder.batchFiles(files);
+
+      // Assert
+      expect(batches.map(batch => batch.map(f => f.path))).toEqual([
+        ['src/a.ts', 'src/util/index.ts', 'src/c.ts'],
+        ['src/b.ts'],
+      ]);
+    });
+
+    it('should group files connected through path aliases', () => {
+      // Arrange
+      const resolver = new ImportResolver({
+        paths: [{ pattern: '@lib/*', targets: ['src/lib/*'] }],
+        workspacePackages: [],
+      });
+      const files = [
+        file('src/a.ts', '', 320000),
+        file('src/b.ts', '', 320000),
+        file('src/lib/c.ts', "import { b } from '@lib/../b';\n", 100),
+        file('src/d.ts', "import { c } from '@lib/c';\n", 100),
+      ];
+
+      // Act
+      const batches = new ContextBuilder(resolver, charTokenizer, MAX_TOKENS).batchFiles(files);
+
+      // Assert
+      expect(batches.map(batch => batch.map(f => f.path))).toEqual([
+        ['src/a.ts'],
+        ['src/b.ts', 'src/lib/c.ts', 'src/d.ts'],
+      ]);
+    });
+
+    it('should follow imports found in the diff when content is missing', () => {
+      // Arrange
+      const files = [
+        file('src/a.ts', '', 320000),
+        file('src/b.ts', '', 320000),
+        { path: 'src/lib/c.js', content: '', diff: "@@ -1 +1 @@\n+const b = require('../b.js');" },
+      ];
+
+      // Act
+      const batches = contextBuilder.batchFiles(files);
+
+      // Assert
+      expect(batches.map(batch => batch.map(f => f.path))).toEqual([
+        ['src/a.ts'],
+        ['src/b.ts', 'src/lib/c.js'],
+      ]);
+    });
+
+    it('should truncate a file that does not fit in a batch on its own', () => {
+      // Arrange
+      const files = [{ path: 'huge.js', content: 'x'.repeat(400000), diff: 'x'.repeat(800000) }];
+
+      // Act
+      const batches = contextBuilder.batchFiles(files, 1000);
+
+      // Assert
+      expect(batches).toHaveLength(1);
+      expect(batches[0][0].content).toBe('');
+      expect(batches[0][0].diff).toContain('... (truncated)');
+    });
+  });
+
+  describe('hunk-aware truncation', () => {
+    const hunks = {
+      whitespace: '@@ -1,2 +1,2 @@\n-const a = 1;\n+const a  =  1;',
+      additions: '@@ -10,1 +10,3 @@\n ready();\n+first();\n+second();',
+      deletion: '@@ -20,2 +21,0 @@\n-gone1();\n-gone2();',
+      risky: '@@ -30,1 +30,1 @@\n-run(input);\n+eval(input);',
+      large: '@@ -40,0 +40,4 @@\n' + Array(4).fill('+' + 'x'.repeat(60)).join('\n'),
+    };
+
+    it('should keep whole hunks, preferring risky and added code over deletions and whitespace', () => {
+      // Arrange
+      const builder = new ContextBuilder(new ImportResolver(), charTokenizer, 62);
+      const diff = Object.values(hunks).join('\n');
+
+      // Act
+      const [[truncated]] = builder.batchFiles([{ path: 'src/a.ts', content: '', diff }]);
+
+      // Assert
+      expect(truncated.diff).toBe([
+        hunks.additions,
+        hunks.risky,
+        '... (3 of 5 hunks omitted to fit the token limit; they were not reviewed)',
+      ].join('\n'));
+    });
+
+    it('should cut a hunk at whole lines when no hunk fits', () => {
+      // Arrange
+      const builder = new ContextBuilder(new ImportResolver(), charTokenizer, 60);
+
+      // Act
+      const [[truncated]] = builder.batchFiles([{ path: 'src/a.ts', content: '', diff: hunks.large }]);
+
+      // Assert
+      expect(truncated.diff).toBe(`@@ -40,0 +40,4 @@\n+${'x'.repeat(60)}\n... (truncated)`);
+    });
+  });
+});
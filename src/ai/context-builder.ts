@@ -1,3 +1,8 @@
+import { ImportResolver } from './import-resolver';
+import { ApproximateTokenizer, DEFAULT_MODEL, getPromptTokenBudget, Tokenizer } from './tokenizer';
+import { compareExports, ExportChange, extractSymbols, SymbolSummary } from './symbol-extractor';
+import { parsePatch, revertPatch } from '../github/diff-parser';
+
 export interface FileContext {
   path: string;
   content: string;
@@ -23,19 +28,60 @@ export interface FullContext {
   files: FileContext[];
   pr: PRContext;
   relatedFiles: Map<string, RelatedFiles>;
+  relatedContents?: FileContext[];
   totalTokens: number;
 }
 
+export interface ExportImpact extends ExportChange {
+  path: string;
+  /** Line of the export in the new version, unless it was removed */
+  line?: number;
+  /** Other files in the review context that import the symbol */
+  usedBy: string[];
+}
+
+export type BatchableFile = Pick<FileContext, 'path' | 'content' | 'diff'>;
+
 export interface OptimizedContext {
   files: FileContext[];
   pr: PRContext;
+  relatedContents: FileContext[];
   truncated: boolean;
   tokenCount: number;
 }
 
+// Tokens taken by the labels and fences around PR details and each file in the prompt
+const PR_METADATA_TOKENS = 25;
+const FILE_METADATA_TOKENS = 12;
+
+// Hunks touching these are kept before larger hunks when a diff is truncated
+const RISKY_CONSTRUCT = /\b(eval|exec|execSync|spawn|innerHTML|dangerouslySetInnerHTML|password|secret|token|crypto|query|sql|process\.env|Function)\b/i;
+const RISKY_HUNK_WEIGHT = 50;
+
+const TRUNCATED_NOTE = '... (truncated)';
+
+/** Matches the note added to diffs that had hunks omitted */
+export const OMITTED_HUNKS_NOTE = /^\.\.\. \(\d+ of \d+ hunks omitted/m;
+
+interface RankedHunk {
+  index: number;
+  text: string;
+  /** Pure deletions and whitespace-only changes are dropped first */
+  lowValue: boolean;
+  score: number;
+}
+
 export class ContextBuilder {
-  private readonly MAX_TOKENS = 150000; // Claude's context window
-  private readonly AVG_CHARS_PER_TOKEN = 4;
+  /**
+   * @param importResolver - Resolves import specifiers to repository files
+   * @param tokenizer - Counts prompt tokens
+   * @param maxTokens - Prompt token budget, derived from the model's context window by default
+   */
+  constructor(
+    private readonly importResolver: ImportResolver = new ImportResolver(),
+    private readonly tokenizer: Tokenizer = new ApproximateTokenizer(),
+    private readonly maxTokens: number = getPromptTokenBudget(DEFAULT_MODEL)
+  ) {}
 
   /**
    * Builds file context from a file and its diff
@@ -75,10 +121,11 @@ export class ContextBuilder {
    * @returns Related files information
    */
   async includeRelatedFiles(file: { path: string; content?: string }): Promise<RelatedFiles> {
-    const content = file.content || '';
-    const imports = this.extractImports(content);
-    const exports = this.extractExports(content);
-    const tests = this.findTestFiles(file.path);
+    const symbols = this.summarizeSymbols({ path: file.path, content: file.content || '' });
+    const imports = [...new Set(symbols.imports.map(binding => binding.source))];
+    const exports = symbols.exports.map(symbol => symbol.name).filter(name => name !== '*');
+    // Guessed test paths mostly do not exist, so they are checked against the file tree when it is known
+    const tests = this.importResolver.filterExisting(this.findTestFiles(file.path));
 
     return {
       imports,
@@ -87,48 +134,239 @@ export class ContextBuilder {
     };
   }
 
+  /**
+   * Parses a file into its imports, exports with their signatures, and top-level declarations
+   * @param file - File to analyze
+   * @returns Symbol summary of the file
+   */
+  summarizeSymbols(file: { path: string; content: string }): SymbolSummary {
+    return extractSymbols(file.path, file.content);
+  }
+
+  /**
+   * Finds exported symbols whose signature changed or that were removed, and the files using them
+   * @param files - Reviewed files with their new content and patch
+   * @param relatedFiles - Unchanged files in the review context
+   * @returns Changed exports with the files in the review context that import them
+   */
+  analyzeExportChanges(
+    files: BatchableFile[],
+    relatedFiles: Array<{ path: string; content: string }> = []
+  ): ExportImpact[] {
+    const summaries = new Map<string, SymbolSummary>();
+    const summaryOf = (file: { path: string; content: string }): SymbolSummary => {
+      let summary = summaries.get(file.path);
+      if (!summary) {
+        summary = this.summarizeSymbols(file);
+        summaries.set(file.path, summary);
+      }
+      return summary;
+    };
+
+    const contextFiles = [...files, ...relatedFiles].filter(file => file.content);
+    const impacts: ExportImpact[] = [];
+
+    for (const file of files) {
+      // The old version is rebuilt from the patch, so no extra request is needed for it
+      const oldContent = file.content && file.diff ? revertPatch(file.content, file.diff) : undefined;
+      if (oldContent === undefined) {
+        continue;
+      }
+
+      const changes = compareExports(this.summarizeSymbols({ path: file.path, content: oldContent }), summaryOf(file));
+      for (const change of changes) {
+        const usedBy = contextFiles
+          .filter(other => other.path !== file.path)
+          .filter(other => summaryOf(other).imports.some(binding =>
+            binding.names.some(name => name.imported === change.name || name.imported === '*') &&
+            this.resolveImportPaths(other.path, binding.source).includes(file.path)
+          ))
+          .map(other => other.path);
+
+        const line = summaryOf(file).declarations.find(declaration => declaration.name === change.name)?.line;
+        impacts.push({ path: file.path, ...(line ? { line } : {}), ...change, usedBy });
+      }
+    }
+
+    return impacts;
+  }
+
+  /**
+   * Resolves an import to the repository paths it may refer to
+   * @param fromPath - Path of the importing file
+   * @param specifier - Import specifier
+   * @returns Repository paths, most likely first, or none for imports outside the repository
+   */
+  resolveImportPaths(fromPath: string, specifier: string): string[] {
+    return this.importResolver.resolve(fromPath, specifier);
+  }
+
   /**
    * Optimizes context to fit within token limits
+   * Diffs are kept first, then the surrounding file contents, then related files
    * @param context - Full context
    * @returns Optimized context
    */
   optimizeForTokenLimit(context: FullContext): OptimizedContext {
-    const estimatedTokens = this.estimateTokens(context);
+    const relatedContents = context.relatedContents || [];
+    const estimatedTokens =
+      this.estimateTokens(context) +
+      relatedContents.reduce((sum, file) => sum + this.estimateFileTokens(file), 0);
 
-    if (estimatedTokens <= this.MAX_TOKENS) {
+    if (estimatedTokens <= this.maxTokens) {
       return {
         files: context.files,
         pr: context.pr,
+        relatedContents,
         truncated: false,
         tokenCount: estimatedTokens,
       };
     }
 
-    // Truncate files if needed
-    const optimizedFiles: FileContext[] = [];
+    // Diffs first; the file that overflows is truncated and files after it no longer fit
+    const diffFiles: FileContext[] = [];
     let currentTokens = this.estimateTokens({ ...context, files: [] });
 
     for (const file of context.files) {
-      const fileTokens = this.estimateFileTokens(file);
-      
-      if (currentTokens + fileTokens <= this.MAX_TOKENS) {
-        optimizedFiles.push(file);
+      const fileTokens = this.estimateFileTokens({ ...file, content: '' });
+
+      if (currentTokens + fileTokens <= this.maxTokens) {
+        diffFiles.push({ ...file, content: '' });
         currentTokens += fileTokens;
       } else {
-        // Truncate this file to fit
-        const remainingTokens = this.MAX_TOKENS - currentTokens;
-        const truncatedFile = this.truncateFile(file, remainingTokens);
-        optimizedFiles.push(truncatedFile);
+        diffFiles.push(this.truncateFile(file, this.maxTokens - currentTokens));
+        currentTokens = this.maxTokens;
         break;
       }
     }
 
+    // Then whole file contents, in order, while they fit
+    const optimizedFiles = diffFiles.map((file, index) => {
+      const contentTokens = this.estimateTextTokens(context.files[index].content);
+
+      if (currentTokens < this.maxTokens && currentTokens + contentTokens <= this.maxTokens) {
+        currentTokens += contentTokens;
+        return context.files[index];
+      }
+
+      return file;
+    });
+
+    // Related files only fill the space that is left
+    const optimizedRelated: FileContext[] = [];
+    for (const file of relatedContents) {
+      const fileTokens = this.estimateFileTokens(file);
+
+      if (currentTokens + fileTokens <= this.maxTokens) {
+        optimizedRelated.push(file);
+        currentTokens += fileTokens;
+      }
+    }
+
     return {
       files: optimizedFiles,
       pr: context.pr,
+      relatedContents: optimizedRelated,
       truncated: true,
-      tokenCount: this.MAX_TOKENS,
+      tokenCount: currentTokens,
+    };
+  }
+
+  /**
+   * Splits files into batches that each fit in one review prompt, keeping files that import each other together
+   * @param files - Files to review
+   * @param reservedTokens - Tokens taken by the rest of the prompt in every batch
+   * @returns Batches of files, in the order the files were given
+   */
+  batchFiles<T extends BatchableFile>(files: T[], reservedTokens = 0): T[][] {
+    const budget = Math.max(this.maxTokens - reservedTokens, 0);
+    const batches: Array<{ files: T[]; tokens: number }> = [];
+
+    for (const group of this.groupRelatedFiles(files)) {
+      // Groups too large for one prompt are split, and single files too large are truncated
+      const groupTokens = group.reduce((sum, file) => sum + this.estimateFileTokens(file), 0);
+      const units = groupTokens <= budget ? [group] : group.map(file => [file]);
+
+      for (const unit of units) {
+        let unitFiles = unit;
+        let unitTokens = unit.reduce((sum, file) => sum + this.estimateFileTokens(file), 0);
+        if (unitTokens > budget) {
+          unitFiles = [this.truncateFile(unit[0], budget)];
+          unitTokens = budget;
+        }
+
+        const batch = batches.find(candidate => candidate.tokens + unitTokens <= budget);
+        if (batch) {
+          batch.files.push(...unitFiles);
+          batch.tokens += unitTokens;
+        } else {
+          batches.push({ files: [...unitFiles], tokens: unitTokens });
+        }
+      }
+    }
+
+    return batches.map(batch => batch.files);
+  }
+
+  /**
+   * Estimates the number of tokens a piece of prompt text takes
+   * @param text - Prompt text
+   * @returns Estimated token count
+   */
+  estimateTextTokens(text: string): number {
+    return this.tokenizer.countTokens(text);
+  }
+
+  /**
+   * Calibrates the tokenizer to the content of a review, when it supports calibration
+   * @param sample - Representative prompt text
+   */
+  async calibrateTokenizer(sample: string): Promise<void> {
+    await this.tokenizer.calibrate?.(sample);
+  }
+
+  /**
+   * Groups files connected through relative imports between them
+   * @param files - Files to group
+   * @returns Groups ordered by their first file
+   */
+  private groupRelatedFiles<T extends BatchableFile>(files: T[]): T[][] {
+    const byPath = new Map(files.map((file, index) => [file.path, index]));
+
+    // Union-find over file indexes
+    const parent = files.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
     };
+
+    files.forEach((file, index) => {
+      // Patches without full content still show the import lines that were touched
+      for (const specifier of this.extractImports(file.path, file.content || this.diffToSource(file.diff))) {
+        const target = this.resolveImportPaths(file.path, specifier)
+          .map(path => byPath.get(path))
+          .find(candidate => candidate !== undefined);
+        if (target !== undefined) {
+          parent[find(target)] = find(index);
+        }
+      }
+    });
+
+    const groups = new Map<number, T[]>();
+    files.forEach((file, index) => {
+      const root = find(index);
+      const group = groups.get(root);
+      if (group) {
+        group.push(file);
+      } else {
+        groups.set(root, [file]);
+      }
+    });
+
+    return [...groups.values()];
   }
 
   private detectLanguage(path: string): string {
@@ -140,100 +378,71 @@ export class ContextBuilder {
       'tsx': 'typescript',
       'mjs': 'javascript',
       'cjs': 'javascript',
+      'vue': 'vue',
     };
 
     return languageMap[ext] || 'unknown';
   }
 
-  private extractImports(content: string): string[] {
-    const imports: string[] = [];
-    
-    // ES6 imports with 'from'
-    const es6Imports = content.match(/import\s+.*?\s+from\s+['"](.+?)['"]/g) || [];
-    imports.push(...es6Imports.map(imp => {
-      const match = imp.match(/from\s+['"](.+?)['"]/);
-      return match ? match[1] : '';
-    }).filter(Boolean));
-
-    // ES6 imports without 'from' (e.g., import './styles.css')
-    const es6DirectImports = content.match(/import\s+['"](.+?)['"]/g) || [];
-    imports.push(...es6DirectImports.map(imp => {
-      const match = imp.match(/import\s+['"](.+?)['"]/);
-      return match ? match[1] : '';
-    }).filter(Boolean));
-
-    // CommonJS requires
-    const cjsRequires = content.match(/require\s*\(['"](.+?)['"]\)/g) || [];
-    imports.push(...cjsRequires.map(req => {
-      const match = req.match(/require\s*\(['"](.+?)['"]\)/);
-      return match ? match[1] : '';
-    }).filter(Boolean));
-
-    return [...new Set(imports)];
-  }
-
-  private extractExports(content: string): string[] {
-    const exports: string[] = [];
-
-    // Named exports
-    const namedExports = content.match(/export\s+(?:const|let|var|function|class)\s+(\w+)/g) || [];
-    exports.push(...namedExports.map(exp => {
-      const match = exp.match(/export\s+(?:const|let|var|function|class)\s+(\w+)/);
-      return match ? match[1] : '';
-    }).filter(Boolean));
-
-    // Default export
-    if (content.includes('export default')) {
-      exports.push('default');
-    }
+  private extractImports(path: string, content: string): string[] {
+    return [...new Set(extractSymbols(path, content).imports.map(binding => binding.source))];
+  }
 
-    return exports;
+  /**
+   * Keeps the new side of a patch, so imports touched by the diff can still be parsed
+   */
+  private diffToSource(diff: string): string {
+    return parsePatch(diff)
+      .flatMap(hunk => hunk.lines.filter(line => line.type !== 'removed').map(line => line.content))
+      .join('\n');
   }
 
   private findTestFiles(filePath: string): string[] {
-    const baseName = filePath.replace(/\.(js|jsx|ts|tsx)$/, '');
+    const baseName = filePath.replace(/\.(js|jsx|ts|tsx|mjs|cjs|vue)$/, '');
+    const slash = baseName.lastIndexOf('/');
+    // Jest's __tests__ directories sit next to the file they test
+    const testsDir = `${baseName.slice(0, slash + 1)}__tests__/${baseName.slice(slash + 1)}`;
     
     return [
       `${baseName}.test.js`,
       `${baseName}.test.ts`,
       `${baseName}.spec.js`,
       `${baseName}.spec.ts`,
-      `__tests__/${baseName}.js`,
-      `__tests__/${baseName}.ts`,
+      `${testsDir}.test.js`,
+      `${testsDir}.test.ts`,
+      `${testsDir}.js`,
+      `${testsDir}.ts`,
     ];
   }
 
   private estimateTokens(context: { files: FileContext[]; pr: PRContext }): number {
-    let totalChars = 0;
-
     // PR context
-    totalChars += context.pr.title.length;
-    totalChars += context.pr.description.length;
-    totalChars += 100; // Other PR metadata
+    let totalTokens = this.tokenizer.countTokens(context.pr.title);
+    totalTokens += this.tokenizer.countTokens(context.pr.description);
+    totalTokens += PR_METADATA_TOKENS;
 
     // Files
     for (const file of context.files) {
-      totalChars += this.estimateFileChars(file);
+      totalTokens += this.estimateFileTokens(file);
     }
 
-    return Math.ceil(totalChars / this.AVG_CHARS_PER_TOKEN);
+    return totalTokens;
   }
 
-  private estimateFileTokens(file: FileContext): number {
-    return Math.ceil(this.estimateFileChars(file) / this.AVG_CHARS_PER_TOKEN);
+  private estimateFileTokens(file: BatchableFile): number {
+    return (
+      this.tokenizer.countTokens(file.path) +
+      this.tokenizer.countTokens(file.content) +
+      this.tokenizer.countTokens(file.diff) +
+      FILE_METADATA_TOKENS
+    );
   }
 
-  private estimateFileChars(file: FileContext): number {
-    return file.path.length + file.content.length + file.diff.length + 50; // metadata
-  }
-
-  private truncateFile(file: FileContext, maxTokens: number): FileContext {
-    const maxChars = maxTokens * this.AVG_CHARS_PER_TOKEN;
-    const pathAndMetadata = file.path.length + 50;
-    const availableChars = maxChars - pathAndMetadata;
+  private truncateFile<T extends BatchableFile>(file: T, maxTokens: number): T {
+    const availableTokens = maxTokens - this.tokenizer.countTokens(file.path) - FILE_METADATA_TOKENS;
 
     // Prioritize diff over full content
-    if (file.diff.length <= availableChars) {
+    if (this.tokenizer.countTokens(file.diff) <= availableTokens) {
       return {
         ...file,
         content: '', // Remove content to save space
@@ -244,7 +453,122 @@ export class ContextBuilder {
     return {
       ...file,
       content: '',
-      diff: file.diff.substring(0, availableChars) + '\n... (truncated)',
+      diff: this.truncateDiff(file.diff, availableTokens),
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Cuts a diff to whole hunks that fit, keeping the most valuable hunks in their original order
+   * Diffs without hunk headers are cut by lines instead
+   * @param diff - Unified diff of one file
+   * @param maxTokens - Tokens the diff may take
+   * @returns Shortened diff, noting how many hunks were omitted
+   */
+  private truncateDiff(diff: string, maxTokens: number): string {
+    const { preamble, hunks } = splitHunks(diff);
+    if (hunks.length === 0) {
+      return this.truncateText(diff, maxTokens) + '\n' + TRUNCATED_NOTE;
+    }
+
+    // The note is at most this long, whatever the number of omitted hunks
+    const note = (omitted: number): string =>
+      `... (${omitted} of ${hunks.length} hunks omitted to fit the token limit; they were not reviewed)`;
+    let availableTokens = maxTokens - this.tokenizer.countTokens(note(hunks.length)) - 1;
+    if (preamble) {
+      availableTokens -= this.tokenizer.countTokens(preamble + '\n');
+    }
+
+    const ranked = hunks.map(rankHunk).sort(
+      (a, b) => Number(a.lowValue) - Number(b.lowValue) || b.score - a.score || a.index - b.index
+    );
+
+    const kept: RankedHunk[] = [];
+    let usedTokens = 0;
+    for (const hunk of ranked) {
+      const hunkTokens = this.tokenizer.countTokens(hunk.text + '\n');
+      if (usedTokens + hunkTokens <= availableTokens) {
+        kept.push(hunk);
+        usedTokens += hunkTokens;
+      }
+    }
+
+    if (kept.length === 0) {
+      // When not even one hunk fits, the most valuable one is cut by lines, keeping its header
+      const cut = this.truncateText(ranked[0].text, availableTokens - this.tokenizer.countTokens(TRUNCATED_NOTE));
+      return [preamble, cut, TRUNCATED_NOTE, hunks.length > 1 ? note(hunks.length - 1) : '']
+        .filter(Boolean)
+        .join('\n');
+    }
+
+    const omitted = hunks.length - kept.length;
+    const parts = kept.sort((a, b) => a.index - b.index).map(hunk => hunk.text);
+
+    return [preamble, ...parts, omitted > 0 ? note(omitted) : ''].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Cuts text to the longest run of whole lines that fits, cutting inside a line only when the first does not fit
+   * @param text - Text to cut
+   * @param maxTokens - Tokens the text may take
+   * @returns Leading part of the text
+   */
+  private truncateText(text: string, maxTokens: number): string {
+    const kept: string[] = [];
+    let usedTokens = 0;
+
+    for (const line of text.split('\n')) {
+      const lineTokens = this.tokenizer.countTokens(line + '\n');
+
+      if (usedTokens + lineTokens > maxTokens) {
+        if (kept.length === 0 && lineTokens > 0) {
+          // Token density is roughly even within a line, so cut it proportionally
+          const remaining = Math.max(maxTokens - usedTokens, 0);
+          kept.push(line.substring(0, Math.floor((line.length * remaining) / lineTokens)));
+        }
+        break;
+      }
+
+      kept.push(line);
+      usedTokens += lineTokens;
+    }
+
+    return kept.join('\n');
+  }
+}
+
+/**
+ * Splits a unified diff into the text before the first hunk and the text of each hunk
+ * @param diff - Unified diff of one file
+ * @returns Preamble and hunk texts, each starting with its header
+ */
+function splitHunks(diff: string): { preamble: string; hunks: string[] } {
+  const preamble: string[] = [];
+  const hunks: string[][] = [];
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('@@ ')) {
+      hunks.push([line]);
+    } else if (hunks.length > 0) {
+      hunks[hunks.length - 1].push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  return {
+    preamble: preamble.join('\n'),
+    hunks: hunks.map(lines => lines.join('\n').replace(/\n+$/, '')),
+  };
+}
+
+function rankHunk(text: string, index: number): RankedHunk {
+  const lines = parsePatch(text)[0]?.lines || [];
+  const added = lines.filter(line => line.type === 'added').map(line => line.content);
+  const removed = lines.filter(line => line.type === 'removed').map(line => line.content);
+  const withoutWhitespace = (contents: string[]): string => contents.join('').replace(/\s+/g, '');
+
+  const lowValue = added.length === 0 || withoutWhitespace(added) === withoutWhitespace(removed);
+  const risky = [...added, ...removed].some(content => RISKY_CONSTRUCT.test(content));
+
+  return { index, text, lowValue, score: added.length + (risky ? RISKY_HUNK_WEIGHT : 0) };
+}
@@ -17,6 +17,21 @@ describe('AIReviewEngine - Branch Coverage', () => {
     mockAnthropicClient = new AnthropicClient({ apiKey: 'test' }) as jest.Mocked<AnthropicClient>;
     mockPromptManager = new PromptManager() as jest.Mocked<PromptManager>;
     mockContextBuilder = new ContextBuilder() as jest.Mocked<ContextBuilder>;
+    mockContextBuilder.batchFiles.mockImplementation(files => [files]);
+    mockPromptManager.getTemplatesForFile.mockReturnValue([]);
+    mockContextBuilder.buildFileContext.mockImplementation((file, diff) => ({
+      path: file.path,
+      content: file.content || '',
+      diff,
+      language: 'javascript',
+    }));
+    mockContextBuilder.optimizeForTokenLimit.mockImplementation(context => ({
+      files: context.files,
+      pr: context.pr,
+      relatedContents: context.relatedContents || [],
+      truncated: false,
+      tokenCount: 0,
+    }));
 
     engine = new AIReviewEngine(
       mockAnthropicClient,
@@ -26,18 +41,15 @@ describe('AIReviewEngine - Branch Coverage', () => {
   });
 
   describe('validateAnalysis edge cases', () => {
+    const context = {
+      files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
+      prDescription: 'Test',
+      repository: 'test/repo',
+    };
+
     it('should throw error when analysis is null', async () => {
       // Arrange
-      const context = {
-        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
-        prDescription: 'Test',
-        repository: 'test/repo',
-      };
-
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: 'null',
-        thinking: '',
-      });
+      mockAnthropicClient.createToolCall.mockResolvedValue(null);
 
       // Act & Assert
       await expect(engine.analyzeCode(context)).rejects.toThrow('Analysis must be an object');
@@ -45,16 +57,7 @@ describe('AIReviewEngine - Branch Coverage', () => {
 
     it('should throw error when analysis is not an object', async () => {
       // Arrange
-      const context = {
-        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
-        prDescription: 'Test',
-        repository: 'test/repo',
-      };
-
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: '"string value"',
-        thinking: '',
-      });
+      mockAnthropicClient.createToolCall.mockResolvedValue('string value');
 
       // Act & Assert
       await expect(engine.analyzeCode(context)).rejects.toThrow('Analysis must be an object');
@@ -62,160 +65,91 @@ describe('AIReviewEngine - Branch Coverage', () => {
 
     it('should throw error when issues is not an array', async () => {
       // Arrange
-      const context = {
-        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
-        prDescription: 'Test',
-        repository: 'test/repo',
-      };
-
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: JSON.stringify({
-          issues: 'not an array',
-          summary: 'test',
-          stats: {},
-        }),
-        thinking: '',
+      mockAnthropicClient.createToolCall.mockResolvedValue({
+        issues: 'not an array',
+        summary: 'test',
       });
 
       // Act & Assert
       await expect(engine.analyzeCode(context)).rejects.toThrow('Analysis must contain an issues array');
     });
 
-    it('should throw error when summary is missing', async () => {
+    it('should default to an empty summary when summary is missing', async () => {
       // Arrange
-      const context = {
-        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
-        prDescription: 'Test',
-        repository: 'test/repo',
-      };
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [] });
 
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: JSON.stringify({
-          issues: [],
-          stats: {},
-        }),
-        thinking: '',
-      });
+      // Act
+      const result = await engine.analyzeCode(context);
 
-      // Act & Assert
-      await expect(engine.analyzeCode(context)).rejects.toThrow('Analysis must contain a summary string');
+      // Assert
+      expect(result.summary).toBe('');
     });
 
-    it('should throw error when summary is not a string', async () => {
+    it('should default to an empty summary when summary is not a string', async () => {
       // Arrange
-      const context = {
-        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
-        prDescription: 'Test',
-        repository: 'test/repo',
-      };
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: 123 });
 
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: JSON.stringify({
-          issues: [],
-          summary: 123,
-          stats: {},
-        }),
-        thinking: '',
-      });
+      // Act
+      const result = await engine.analyzeCode(context);
 
-      // Act & Assert
-      await expect(engine.analyzeCode(context)).rejects.toThrow('Analysis must contain a summary string');
+      // Assert
+      expect(result.summary).toBe('');
     });
 
-    it('should throw error when stats is missing', async () => {
+    it('should compute stats instead of trusting the model', async () => {
       // Arrange
-      const context = {
-        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
-        prDescription: 'Test',
-        repository: 'test/repo',
-      };
-
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: JSON.stringify({
-          issues: [],
-          summary: 'test',
-        }),
-        thinking: '',
+      mockAnthropicClient.createToolCall.mockResolvedValue({
+        issues: [{ file: 'test.js', line: 1, severity: 'warning', message: 'test', category: 'bug' }],
+        summary: 'test',
+        stats: 'not an object',
       });
 
-      // Act & Assert
-      await expect(engine.analyzeCode(context)).rejects.toThrow('Analysis must contain stats object');
-    });
-
-    it('should throw error when stats is not an object', async () => {
-      // Arrange
-      const context = {
-        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
-        prDescription: 'Test',
-        repository: 'test/repo',
-      };
-
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: JSON.stringify({
-          issues: [],
-          summary: 'test',
-          stats: 'not an object',
-        }),
-        thinking: '',
-      });
+      // Act
+      const result = await engine.analyzeCode(context);
 
-      // Act & Assert
-      await expect(engine.analyzeCode(context)).rejects.toThrow('Analysis must contain stats object');
+      // Assert
+      expect(result.stats).toEqual({ total: 1, byCategory: { bug: 1 }, bySeverity: { warning: 1 } });
     });
 
-    it('should throw error when issue is missing required fields', async () => {
+    it('should drop issues missing required fields', async () => {
       // Arrange
-      const context = {
-        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
-        prDescription: 'Test',
-        repository: 'test/repo',
-      };
-
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: JSON.stringify({
-          issues: [
-            {
-              file: 'test.js',
-              // missing line, severity, message, category
-            },
-          ],
-          summary: 'test',
-          stats: {},
-        }),
-        thinking: '',
+      mockAnthropicClient.createToolCall.mockResolvedValue({
+        issues: [
+          {
+            file: 'test.js',
+            // missing line, severity, message, category
+          },
+        ],
+        summary: 'test',
       });
 
-      // Act & Assert
-      await expect(engine.analyzeCode(context)).rejects.toThrow('Each issue must have file, line, severity, message, and category');
+      // Act
+      const result = await engine.analyzeCode(context);
+
+      // Assert
+      expect(result.issues).toEqual([]);
     });
 
-    it('should throw error when issue has invalid severity', async () => {
+    it('should drop issues with an invalid severity', async () => {
       // Arrange
-      const context = {
-        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
-        prDescription: 'Test',
-        repository: 'test/repo',
-      };
-
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: JSON.stringify({
-          issues: [
-            {
-              file: 'test.js',
-              line: 1,
-              severity: 'critical', // invalid
-              message: 'test',
-              category: 'bug',
-            },
-          ],
-          summary: 'test',
-          stats: {},
-        }),
-        thinking: '',
+      mockAnthropicClient.createToolCall.mockResolvedValue({
+        issues: [
+          {
+            file: 'test.js',
+            line: 1,
+            severity: 'critical', // invalid
+            message: 'test',
+            category: 'bug',
+          },
+        ],
+        summary: 'test',
       });
 
-      // Act & Assert
-      await expect(engine.analyzeCode(context)).rejects.toThrow('Issue severity must be error, warning, or info');
+      // Act
+      const result = await engine.analyzeCode(context);
+
+      // Assert
+      expect(result.issues).toEqual([]);
     });
   });
 
@@ -303,7 +237,7 @@ describe('AIReviewEngine - Branch Coverage', () => {
   });
 
   describe('error handling', () => {
-    it('should wrap non-Error exceptions in Error object', async () => {
+    it('should propagate failures to obtain a tool call', async () => {
       // Arrange
       const context = {
         files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
@@ -311,13 +245,10 @@ describe('AIReviewEngine - Branch Coverage', () => {
         repository: 'test/repo',
       };
 
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: '{ invalid json',
-        thinking: '',
-      });
+      mockAnthropicClient.createToolCall.mockRejectedValue(new Error('Model did not call the report_issues tool'));
 
       // Act & Assert
-      await expect(engine.analyzeCode(context)).rejects.toThrow('Invalid AI response format');
+      await expect(engine.analyzeCode(context)).rejects.toThrow('Model did not call the report_issues tool');
     });
   });
 });
\ No newline at end of file
@@ -2,10 +2,12 @@ import { AIReviewEngine } from './engine';
 import { AnthropicClient } from './anthropic-client';
 import { PromptManager } from './prompt-manager';
 import { ContextBuilder } from './context-builder';
+import { logger } from '../utils/logger';
 
 jest.mock('./anthropic-client');
 jest.mock('./prompt-manager');
 jest.mock('./context-builder');
+jest.mock('../utils/logger');
 
 describe('AIReviewEngine - Extra Coverage', () => {
   let engine: AIReviewEngine;
@@ -17,6 +19,21 @@ describe('AIReviewEngine - Extra Coverage', () => {
     mockAnthropicClient = new AnthropicClient({ apiKey: 'test' }) as jest.Mocked<AnthropicClient>;
     mockPromptManager = new PromptManager() as jest.Mocked<PromptManager>;
     mockContextBuilder = new ContextBuilder() as jest.Mocked<ContextBuilder>;
+    mockContextBuilder.batchFiles.mockImplementation(files => [files]);
+    mockPromptManager.getTemplatesForFile.mockReturnValue([]);
+    mockContextBuilder.buildFileContext.mockImplementation((file, diff) => ({
+      path: file.path,
+      content: file.content || '',
+      diff,
+      language: 'javascript',
+    }));
+    mockContextBuilder.optimizeForTokenLimit.mockImplementation(context => ({
+      files: context.files,
+      pr: context.pr,
+      relatedContents: context.relatedContents || [],
+      truncated: false,
+      tokenCount: 0,
+    }));
 
     engine = new AIReviewEngine(
       mockAnthropicClient,
@@ -25,8 +42,8 @@ describe('AIReviewEngine - Extra Coverage', () => {
     );
   });
 
-  describe('parseResponse non-Error exception handling', () => {
-    it('should handle non-Error exceptions in JSON parsing', async () => {
+  describe('dropped issue reporting', () => {
+    it('should log how many issues were dropped from the response', async () => {
       // Arrange
       const context = {
         files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
@@ -34,28 +51,149 @@ describe('AIReviewEngine - Extra Coverage', () => {
         repository: 'test/repo',
       };
 
-      // Mock the JSON.parse to throw a non-Error object
-      const originalParse = JSON.parse;
-      JSON.parse = jest.fn().mockImplementation(() => {
-        throw 'String error'; // Throw a string instead of Error
+      mockAnthropicClient.createToolCall.mockResolvedValue({
+        issues: [
+          { file: 'test.js', line: 1, severity: 'info', message: 'Valid', category: 'bug' },
+          { file: 'test.js', line: -1, severity: 'info', message: 'Bad line', category: 'bug' },
+        ],
+        summary: 'Test',
       });
 
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: '{"invalid": "json"', // Invalid JSON
-        thinking: '',
+      // Act
+      await engine.analyzeCode(context);
+
+      // Assert
+      expect(jest.mocked(logger).warn.mock.calls).toContainEqual(['Dropped invalid issues from AI response', {
+        dropped: 1,
+        kept: 1,
+      }]);
+    });
+  });
+
+  describe('batched review', () => {
+    it('should review batches separately and merge the results', async () => {
+      // Arrange
+      const context = {
+        files: [
+          { path: 'a.js', content: '', diff: 'diff a' },
+          { path: 'b.js', content: '', diff: 'diff b' },
+        ],
+        prDescription: 'Large PR',
+        repository: 'test/repo',
+      };
+      mockContextBuilder.batchFiles.mockReturnValue([[context.files[0]], [context.files[1]]]);
+      mockAnthropicClient.createToolCall
+        .mockResolvedValueOnce({
+          issues: [{ file: 'a.js', line: 1, severity: 'error', message: 'Bug in a', category: 'bug' }],
+          summary: 'Batch A summary',
+        })
+        .mockResolvedValueOnce({
+          issues: [{ file: 'b.js', line: 2, severity: 'info', message: 'Style in b', category: 'code-quality' }],
+          summary: 'Batch B summary',
+        });
+
+      // Act
+      const result = await engine.analyzeCode(context);
+
+      // Assert
+      expect(mockAnthropicClient.createToolCall.mock.calls).toHaveLength(2);
+      expect(mockAnthropicClient.createToolCall.mock.calls[0][0]).toContain('a.js');
+      expect(mockAnthropicClient.createToolCall.mock.calls[0][0]).not.toContain('b.js');
+      expect(result.issues.map(issue => issue.message)).toEqual(['Bug in a', 'Style in b']);
+      expect(result.stats).toEqual({
+        total: 2,
+        byCategory: { bug: 1, 'code-quality': 1 },
+        bySeverity: { error: 1, info: 1 },
       });
+      expect(result.summary).toBe('Reviewed in 2 batches of related files.\n\nBatch A summary\n\nBatch B summary');
+    });
+
+    it('should leave related files out of the tokens reserved in every batch', async () => {
+      // Arrange
+      const context = {
+        files: [{ path: 'a.js', content: '', diff: 'diff a' }],
+        prDescription: 'Large PR',
+        repository: 'test/repo',
+        relatedFiles: [{ path: 'related.js', content: 'const relatedContent = 1;' }],
+      };
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: '' });
+
+      // Act
+      await engine.analyzeCode(context);
+
+      // Assert
+      const reservedPrompt = mockContextBuilder.estimateTextTokens.mock.calls[0][0];
+      expect(reservedPrompt).toContain('Large PR');
+      expect(reservedPrompt).not.toContain('relatedContent');
+      expect(mockAnthropicClient.createToolCall.mock.calls[0][0]).toContain('relatedContent');
+    });
+
+    it('should keep the findings of the batches that succeeded when one fails', async () => {
+      // Arrange
+      const context = {
+        files: [
+          { path: 'a.js', content: '', diff: 'diff a' },
+          { path: 'b.js', content: '', diff: 'diff b' },
+        ],
+        prDescription: 'Large PR',
+        repository: 'test/repo',
+      };
+      mockContextBuilder.batchFiles.mockReturnValue([[context.files[0]], [context.files[1]]]);
+      mockAnthropicClient.createToolCall
+        .mockResolvedValueOnce({
+          issues: [{ file: 'a.js', line: 1, severity: 'error', message: 'Bug in a', category: 'bug' }],
+          summary: 'Batch A summary',
+        })
+        .mockRejectedValueOnce(new Error('Request timed out'));
+
+      // Act
+      const result = await engine.analyzeCode(context);
+
+      // Assert
+      expect(result.issues.map(issue => issue.message)).toEqual(['Bug in a']);
+      expect(result.summary).toContain('1 file could not be reviewed because the review request failed: `b.js`');
+      expect(jest.mocked(logger).warn.mock.calls).toContainEqual(['Review batch failed', {
+        batch: 2,
+        files: ['b.js'],
+        error: 'Request timed out',
+      }]);
+    });
+
+    it('should fail when every batch fails', async () => {
+      // Arrange
+      const files = [
+        { path: 'a.js', content: '', diff: '' },
+        { path: 'b.js', content: '', diff: '' },
+      ];
+      mockContextBuilder.batchFiles.mockReturnValue(files.map(file => [file]));
+      mockAnthropicClient.createToolCall.mockRejectedValue(new Error('API down'));
 
       // Act & Assert
-      try {
-        await engine.analyzeCode(context);
-        fail('Should have thrown an error');
-      } catch (error) {
-        expect(error).toBeInstanceOf(Error);
-        expect((error as Error).message).toBe('Invalid AI response format: Unknown error');
-      } finally {
-        // Always restore JSON.parse
-        JSON.parse = originalParse;
-      }
+      await expect(engine.analyzeCode({ files, prDescription: '', repository: 'test/repo' }))
+        .rejects.toThrow('API down');
+    });
+
+    it('should limit how many batches are reviewed at once', async () => {
+      // Arrange
+      const files = Array.from({ length: 6 }, (_, i) => ({ path: `f${i}.js`, content: '', diff: '' }));
+      mockContextBuilder.batchFiles.mockReturnValue(files.map(file => [file]));
+      let running = 0;
+      let maxRunning = 0;
+      mockAnthropicClient.createToolCall.mockImplementation(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setImmediate(resolve));
+        running--;
+        return { issues: [], summary: '' };
+      });
+
+      // Act
+      const result = await engine.analyzeCode({ files, prDescription: '', repository: 'test/repo' });
+
+      // Assert
+      expect(mockAnthropicClient.createToolCall.mock.calls).toHaveLength(6);
+      expect(maxRunning).toBe(3);
+      expect(result.summary).toBe('Reviewed in 6 batches of related files.');
     });
   });
-});
\ No newline at end of file
+});
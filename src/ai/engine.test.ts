@@ -1,7 +1,10 @@
-import { AIReviewEngine } from './engine';
+import { AIReviewEngine, Issue, ReviewAnalysis } from './engine';
 import { AnthropicClient } from './anthropic-client';
-import { PromptManager } from './prompt-manager';
+import { PromptManager, PromptTemplate } from './prompt-manager';
 import { ContextBuilder } from './context-builder';
+import { InstructionProcessor } from './instruction-processor';
+import { GitHubClient } from '../github/client';
+import { defaultConfig } from '../config/default';
 
 jest.mock('./anthropic-client');
 jest.mock('./prompt-manager');
@@ -12,11 +15,27 @@ describe('AIReviewEngine', () => {
   let mockAnthropicClient: jest.Mocked<AnthropicClient>;
   let mockPromptManager: jest.Mocked<PromptManager>;
   let mockContextBuilder: jest.Mocked<ContextBuilder>;
+  const reviewConfig = new InstructionProcessor({} as GitHubClient).getDefaultConfig();
 
   beforeEach(() => {
     mockAnthropicClient = new AnthropicClient({ apiKey: 'test' }) as jest.Mocked<AnthropicClient>;
     mockPromptManager = new PromptManager() as jest.Mocked<PromptManager>;
     mockContextBuilder = new ContextBuilder() as jest.Mocked<ContextBuilder>;
+    mockContextBuilder.batchFiles.mockImplementation(files => [files]);
+    mockPromptManager.getTemplatesForFile.mockReturnValue([]);
+    mockContextBuilder.buildFileContext.mockImplementation((file, diff) => ({
+      path: file.path,
+      content: file.content || '',
+      diff,
+      language: 'javascript',
+    }));
+    mockContextBuilder.optimizeForTokenLimit.mockImplementation(context => ({
+      files: context.files,
+      pr: context.pr,
+      relatedContents: context.relatedContents || [],
+      truncated: false,
+      tokenCount: 0,
+    }));
 
     engine = new AIReviewEngine(
       mockAnthropicClient,
@@ -58,9 +77,9 @@ describe('AIReviewEngine', () => {
         },
       };
 
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: JSON.stringify(expectedAnalysis),
-        thinking: 'The code shows proper use of const...',
+      mockAnthropicClient.createToolCall.mockResolvedValue({
+        issues: expectedAnalysis.issues,
+        summary: expectedAnalysis.summary,
       });
 
       // Act
@@ -68,16 +87,38 @@ describe('AIReviewEngine', () => {
 
       // Assert
       expect(result).toEqual(expectedAnalysis);
-      expect(mockAnthropicClient.createMessage).toHaveBeenCalledWith(
+      expect(mockContextBuilder.calibrateTokenizer.mock.calls).toContainEqual([expect.stringContaining('+const x = 1;')]);
+      expect(mockAnthropicClient.createToolCall.mock.calls).toContainEqual([
         expect.stringContaining('review the following code'),
+        expect.objectContaining({ name: 'report_issues' }),
         expect.objectContaining({
           maxTokens: expect.any(Number),
           temperature: expect.any(Number),
         })
-      );
+      ]);
     });
 
-    it('should handle AI response with thinking process', async () => {
+    it('should leave the configured number of output tokens for the response', async () => {
+      // Arrange
+      engine = new AIReviewEngine(mockAnthropicClient, mockPromptManager, mockContextBuilder, 2048);
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: 'Clean' });
+
+      // Act
+      await engine.analyzeCode({
+        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
+        prDescription: 'Test PR',
+        repository: 'test/repo',
+      });
+
+      // Assert
+      expect(mockAnthropicClient.createToolCall.mock.calls).toContainEqual([
+        expect.any(String),
+        expect.any(Object),
+        expect.objectContaining({ maxTokens: 2048 })
+      ]);
+    });
+
+    it('should handle a report without issues', async () => {
       // Arrange
       const context = {
         files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
@@ -85,35 +126,365 @@ describe('AIReviewEngine', () => {
         repository: 'test/repo',
       };
 
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: JSON.stringify({
-          issues: [],
-          summary: 'No issues found',
-          stats: { total: 0, byCategory: {}, bySeverity: {} },
-        }),
-        thinking: 'Let me analyze this code step by step...',
+      mockAnthropicClient.createToolCall.mockResolvedValue({
+        issues: [],
+        summary: 'No issues found',
       });
 
       // Act
       const result = await engine.analyzeCode(context);
 
       // Assert
-      expect(result.issues).toHaveLength(0);
+      expect(result).toEqual({
+        issues: [],
+        summary: 'No issues found',
+        stats: { total: 0, byCategory: {}, bySeverity: {} },
+      });
     });
 
-    it('should handle malformed AI response gracefully', async () => {
+    it('should drop invalid issues and keep the valid ones', async () => {
       // Arrange
       const context = {
         files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
         prDescription: 'Test PR',
         repository: 'test/repo',
       };
+      const validIssue = {
+        file: 'test.js',
+        line: 3,
+        severity: 'error',
+        message: 'Null dereference',
+        category: 'bug',
+        suggestion: 'if (x) x.run();',
+      };
 
-      mockAnthropicClient.createMessage.mockResolvedValue({
-        content: 'This is not valid JSON',
-        thinking: '',
+      mockAnthropicClient.createToolCall.mockResolvedValue({
+        issues: [
+          { ...validIssue, extra: 'ignored' },
+          { ...validIssue, line: 0 },
+          { ...validIssue, severity: 'critical' },
+          { ...validIssue, message: '' },
+          { ...validIssue, suggestionStartLine: 'three' },
+          'not an issue',
+        ],
+        summary: 'One real problem',
       });
 
+      // Act
+      const result = await engine.analyzeCode(context);
+
+      // Assert
+      expect(result.issues).toEqual([validIssue]);
+      expect(result.stats).toEqual({ total: 1, byCategory: { bug: 1 }, bySeverity: { error: 1 } });
+    });
+
+    it('should include file contents and related files in the prompt', async () => {
+      // Arrange
+      const context = {
+        files: [{ path: 'src/a.js', content: 'const total = sum(items);', diff: '+const total = sum(items);' }],
+        prDescription: 'Use sum helper',
+        repository: 'test/repo',
+        relatedFiles: [{ path: 'src/sum.js', content: 'export const sum = xs => xs.reduce((a, b) => a + b, 0);' }],
+      };
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: 'Fine' });
+
+      // Act
+      await engine.analyzeCode(context);
+
+      // Assert
+      const prompt = mockAnthropicClient.createToolCall.mock.calls[0][0];
+      expect(prompt).toContain('Content:\n```\nconst total = sum(items);\n```');
+      expect(prompt).toContain('Related files (unchanged context for the files above; do not report issues in them)');
+      expect(prompt).toContain('File: src/sum.js');
+      expect(mockContextBuilder.optimizeForTokenLimit.mock.calls).toContainEqual([expect.objectContaining({
+        relatedContents: [expect.objectContaining({ path: 'src/sum.js', diff: '' })],
+      })]);
+    });
+
+    it('should tell the model which exported symbols changed and where they are used', async () => {
+      // Arrange
+      const context = {
+        files: [{ path: 'src/math.ts', content: 'export function sum(values: number[]) {}', diff: 'diff' }],
+        prDescription: 'Change sum',
+        repository: 'test/repo',
+        exportChanges: [
+          {
+            path: 'src/math.ts',
+            line: 1,
+            name: 'sum',
+            kind: 'function' as const,
+            change: 'signature' as const,
+            before: 'function sum(a: number, b: number)',
+            after: 'function sum(values: number[])',
+            usedBy: ['src/cart.ts', 'src/report.ts'],
+          },
+          {
+            path: 'src/math.ts',
+            name: 'PI',
+            kind: 'variable' as const,
+            change: 'removed' as const,
+            before: 'const PI',
+            usedBy: [],
+          },
+        ],
+        callSites: [
+          { path: 'src/legacy.ts', exportPath: 'src/math.ts', symbol: 'sum', line: 12, snippet: '12: sum(1, 2);' },
+        ],
+      };
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: 'Fine' });
+
+      // Act
+      await engine.analyzeCode(context);
+
+      // Assert
+      const prompt = mockAnthropicClient.createToolCall.mock.calls[0][0];
+      expect(prompt).toContain(
+        '- src/math.ts:1 changes the signature of exported function `sum`, used by 2 files in this review: src/cart.ts, src/report.ts\n' +
+        '  Before: function sum(a: number, b: number)\n' +
+        '  After: function sum(values: number[])\n' +
+        '  Called from src/legacy.ts:12 (not changed in this pull request):\n```\n12: sum(1, 2);\n```'
+      );
+      expect(prompt).toContain('- src/math.ts removes exported variable `PI`, not imported by other files in this review');
+      expect(prompt).toContain('report an error on the line of the changed export and name the incompatible caller');
+    });
+
+    it('should add the templates of the frameworks the files use', async () => {
+      // Arrange
+      const context = {
+        files: [
+          { path: 'src/App.tsx', content: 'const [open, setOpen] = useState(false);', diff: '+setOpen(true);' },
+          { path: 'src/server.js', content: 'const app = express();', diff: '+app.listen(3000);' },
+          { path: 'src/util.js', content: 'export const id = x => x;', diff: '+id(1);' },
+        ],
+        prDescription: 'Add toggle',
+        repository: 'test/repo',
+      };
+      mockPromptManager.renderTemplate.mockImplementation(id => ({
+        template: `${id} checks`,
+        thinkingInstructions: `${id} thinking`,
+      }));
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: 'Fine' });
+
+      // Act
+      await engine.analyzeCode(context);
+
+      // Assert
+      const prompt = mockAnthropicClient.createToolCall.mock.calls[0][0];
+      expect(mockPromptManager.renderTemplate.mock.calls).toContainEqual(['react-review', defaultConfig.reactSettings]);
+      expect(mockPromptManager.renderTemplate.mock.calls).toContainEqual(['express-review', defaultConfig.expressSettings]);
+      expect(prompt).toContain('react-review thinking\n\nexpress-review thinking\n</thinking>');
+      expect(prompt).toContain(
+        'Additional checks for specific files:\n\nReact (src/App.tsx):\nreact-review checks\n\nExpress (src/server.js):\nexpress-review checks\n'
+      );
+    });
+
+    it('should add the repository templates whose globs match the files', async () => {
+      // Arrange
+      const context = {
+        files: [
+          { path: 'src/payments/charge.ts', content: 'export const charge = 1;', diff: '+charge;' },
+          { path: 'src/payments/refund.ts', content: 'export const refund = 1;', diff: '+refund;' },
+        ],
+        prDescription: 'Add refunds',
+        repository: 'test/repo',
+      };
+      const template = { id: 'payments', files: ['src/payments/**'] } as PromptTemplate;
+      mockPromptManager.getTemplatesForFile.mockReturnValue([template]);
+      mockPromptManager.renderTemplate.mockReturnValue({ template: 'Check idempotency keys.', thinkingInstructions: '' });
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: 'Fine' });
+
+      // Act
+      await engine.analyzeCode(context);
+
+      // Assert
+      expect(mockPromptManager.renderTemplate.mock.calls).toContainEqual(['payments', {}]);
+      expect(mockPromptManager.renderTemplate.mock.calls.every(([id]) => id === 'payments')).toBe(true);
+      expect(mockAnthropicClient.createToolCall.mock.calls[0][0]).toContain(
+        'payments (src/payments/charge.ts, src/payments/refund.ts):\nCheck idempotency keys.\n'
+      );
+    });
+
+    it('should leave out the templates of disabled frameworks', async () => {
+      // Arrange
+      const context = {
+        files: [{ path: 'src/math.test.ts', content: "it('adds', () => {});", diff: '+it();' }],
+        prDescription: 'Add test',
+        repository: 'test/repo',
+      };
+      mockPromptManager.renderTemplate.mockReturnValue({ template: 'checks', thinkingInstructions: 'thinking' });
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: 'Fine' });
+      defaultConfig.testSettings.enabled = false;
+
+      try {
+        // Act
+        await engine.analyzeCode(context);
+      } finally {
+        defaultConfig.testSettings.enabled = true;
+      }
+
+      // Assert
+      expect(mockPromptManager.renderTemplate.mock.calls).toHaveLength(0);
+      expect(mockAnthropicClient.createToolCall.mock.calls[0][0]).not.toContain('Additional checks for specific files');
+    });
+
+    it('should use the framework settings of the repository', async () => {
+      // Arrange
+      const reactSettings = { ...defaultConfig.reactSettings, checkAccessibility: false };
+      const context = {
+        files: [
+          { path: 'src/App.tsx', content: 'const [open, setOpen] = useState(false);', diff: '+setOpen(true);' },
+          { path: 'src/math.test.ts', content: "it('adds', () => {});", diff: '+it();' },
+        ],
+        prDescription: 'Add toggle',
+        repository: 'test/repo',
+        settings: { ...reviewConfig, reactSettings, testSettings: { ...defaultConfig.testSettings, enabled: false } },
+      };
+      mockPromptManager.renderTemplate.mockReturnValue({ template: 'checks', thinkingInstructions: '' });
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: 'Fine' });
+
+      // Act
+      await engine.analyzeCode(context);
+
+      // Assert
+      expect(mockPromptManager.renderTemplate.mock.calls).toContainEqual(['react-review', reactSettings]);
+      expect(mockPromptManager.renderTemplate.mock.calls).not.toContainEqual(['test-review', expect.anything()]);
+    });
+
+    it('should review files with different path overrides in separate prompts', async () => {
+      // Arrange
+      const context = {
+        files: [
+          { path: 'src/app.js', content: 'run();', diff: '+run();' },
+          { path: 'packages/legacy/old.js', content: 'old();', diff: '+old();' },
+          { path: 'infra/deploy.js', content: 'deploy();', diff: '+deploy();' },
+        ],
+        prDescription: 'Update',
+        repository: 'test/repo',
+        settings: {
+          ...reviewConfig,
+          overrides: [
+            { files: ['packages/legacy/**'], minimumSeverity: 'error' as const },
+            { files: ['infra/**'], focusAreas: ['Secrets in deploy scripts'], templates: ['express-review'] },
+          ],
+        },
+      };
+      const issue = (file: string, severity: 'error' | 'warning'): Issue => ({ file, line: 1, severity, message: 'Problem', category: 'bug' });
+      mockAnthropicClient.createToolCall.mockImplementation(prompt => {
+        const file = context.files.find(candidate => prompt.includes(`File: ${candidate.path}`))?.path as string;
+        return Promise.resolve({ issues: [issue(file, 'error'), issue(file, 'warning')], summary: `Reviewed ${file}` });
+      });
+      mockPromptManager.renderTemplate.mockReturnValue({ template: 'express checks', thinkingInstructions: '' });
+
+      // Act
+      const result = await engine.analyzeCode(context);
+
+      // Assert
+      const prompts = mockAnthropicClient.createToolCall.mock.calls.map(call => call[0]);
+      expect(prompts).toHaveLength(3);
+      expect(prompts.filter(prompt => prompt.includes('- Secrets in deploy scripts'))).toEqual([
+        expect.stringContaining('File: infra/deploy.js'),
+      ]);
+      expect(mockPromptManager.renderTemplate.mock.calls).toContainEqual(['express-review', defaultConfig.expressSettings]);
+      expect(result.issues.map(found => `${found.file}:${found.severity}`)).toEqual([
+        'src/app.js:error',
+        'src/app.js:warning',
+        'packages/legacy/old.js:error',
+        'infra/deploy.js:error',
+        'infra/deploy.js:warning',
+      ]);
+    });
+
+    it('should comment on issues a path override lets through below the repository minimum severity', async () => {
+      // Arrange
+      const context = {
+        files: [
+          { path: 'src/app.js', content: 'run();', diff: '+run();' },
+          { path: 'packages/docs/guide.js', content: 'guide();', diff: '+guide();' },
+        ],
+        prDescription: 'Update',
+        repository: 'test/repo',
+        settings: {
+          ...reviewConfig,
+          minimumSeverity: 'warning' as const,
+          overrides: [{ files: ['packages/docs/**'], minimumSeverity: 'info' as const }],
+        },
+      };
+      mockAnthropicClient.createToolCall.mockImplementation(prompt => {
+        const file = context.files.find(candidate => prompt.includes(`File: ${candidate.path}`))?.path as string;
+        return Promise.resolve({
+          issues: [{ file, line: 1, severity: 'info', message: 'Unclear name', category: 'code-quality' }],
+          summary: `Reviewed ${file}`,
+        });
+      });
+      mockPromptManager.formatComment.mockImplementation(found => found.message);
+
+      // Act
+      const analysis = await engine.analyzeCode(context);
+      const comments = await engine.generateComments(analysis, context.files);
+
+      // Assert
+      expect(engine.generateAnnotations(analysis).map(annotation => annotation.path)).toEqual(['packages/docs/guide.js']);
+      expect(comments.map(comment => comment.path)).toEqual(['packages/docs/guide.js']);
+    });
+
+    it('should drop issues outside the enabled categories', async () => {
+      // Arrange
+      const context = {
+        files: [{ path: 'src/app.js', content: 'run();', diff: '+run();' }],
+        prDescription: 'Update',
+        repository: 'test/repo',
+        settings: { ...reviewConfig, enabledCategories: ['security'] },
+      };
+      mockAnthropicClient.createToolCall.mockResolvedValue({
+        issues: [
+          { file: 'src/app.js', line: 1, severity: 'warning', message: 'Injection', category: 'security' },
+          { file: 'src/app.js', line: 1, severity: 'info', message: 'Missing docs', category: 'documentation' },
+        ],
+        summary: 'Two problems',
+      });
+
+      // Act
+      const result = await engine.analyzeCode(context);
+
+      // Assert
+      expect(mockAnthropicClient.createToolCall.mock.calls[0][0]).toContain(
+        'Only report issues in these categories: security.'
+      );
+      expect(result.issues.map(found => found.message)).toEqual(['Injection']);
+      expect(result.stats.total).toBe(1);
+    });
+
+    it('should tell the model when diff hunks were omitted', async () => {
+      // Arrange
+      const context = {
+        files: [{
+          path: 'src/a.ts',
+          content: '',
+          diff: '@@ -1 +1 @@\n+run();\n... (2 of 3 hunks omitted to fit the token limit; they were not reviewed)',
+        }],
+        prDescription: 'Large change',
+        repository: 'test/repo',
+      };
+      mockAnthropicClient.createToolCall.mockResolvedValue({ issues: [], summary: 'Fine' });
+
+      // Act
+      await engine.analyzeCode(context);
+
+      // Assert
+      const prompt = mockAnthropicClient.createToolCall.mock.calls[0][0];
+      expect(prompt).toContain('Some diffs above had hunks omitted to fit the token limit');
+    });
+
+    it('should handle malformed AI response gracefully', async () => {
+      // Arrange
+      const context = {
+        files: [{ path: 'test.js', content: 'test', diff: 'diff' }],
+        prDescription: 'Test PR',
+        repository: 'test/repo',
+      };
+
+      mockAnthropicClient.createToolCall.mockResolvedValue('This is not valid JSON');
+
       // Act & Assert
       await expect(engine.analyzeCode(context)).rejects.toThrow('Invalid AI response format');
     });
@@ -154,11 +525,13 @@ describe('AIReviewEngine', () => {
           path: 'src/index.js',
           line: 10,
           body: '⚠️ **Code Quality**: Consider using const instead of let\n\n**Suggestion:**\n```javascript\nconst userName = getUserName();\n```',
+          issue: analysis.issues[0],
         },
         {
           path: 'src/utils.js',
           line: 5,
           body: '❌ **Bug**: Potential null reference error\n\n**Suggestion:**\n```javascript\nAdd null check: if (data) { ... }\n```',
+          issue: analysis.issues[1],
         },
       ];
 
@@ -181,7 +554,7 @@ describe('AIReviewEngine', () => {
 
       // Assert
       expect(result).toEqual(expectedComments);
-      expect(mockPromptManager.formatComment).toHaveBeenCalledTimes(2);
+      expect(mockPromptManager.formatComment.mock.calls).toHaveLength(2);
     });
 
     it('should filter out low severity issues based on configuration', async () => {
@@ -221,6 +594,86 @@ describe('AIReviewEngine', () => {
       expect(result).toHaveLength(1);
       expect(result[0].line).toBe(10);
     });
+
+    describe('suggested changes', () => {
+      const files = [{
+        path: 'src/index.js',
+        content: '',
+        diff: '@@ -1,3 +1,4 @@\n const a = 1;\n+var b = 2;\n+var c = 3;\n const d = 4;',
+      }];
+      const issue = (overrides: Partial<Issue>): Issue => ({
+        file: 'src/index.js',
+        line: 2,
+        severity: 'warning' as const,
+        message: 'Use const',
+        category: 'code-quality',
+        suggestion: 'const b = 2;\nconst c = 3;',
+        ...overrides,
+      });
+      const analysisOf = (issues: Issue[]): ReviewAnalysis => ({
+        issues,
+        summary: 'Found issues',
+        stats: { total: issues.length, byCategory: {}, bySeverity: {} },
+      });
+
+      beforeEach(() => {
+        mockPromptManager.formatComment.mockReturnValue('formatted comment');
+      });
+
+      it('should span the replaced lines when the range lies inside the diff', async () => {
+        // Arrange
+        const rangedIssue = issue({ suggestionStartLine: 2, suggestionEndLine: 3 });
+
+        // Act
+        const result = await engine.generateComments(analysisOf([rangedIssue]), files);
+
+        // Assert
+        expect(result[0]).toEqual({
+          path: 'src/index.js',
+          line: 3,
+          start_line: 2,
+          body: 'formatted comment',
+          issue: rangedIssue,
+        });
+        expect(mockPromptManager.formatComment.mock.calls).toContainEqual([rangedIssue, true]);
+      });
+
+      it('should comment on a single line without start_line', async () => {
+        // Act
+        const result = await engine.generateComments(
+          analysisOf([issue({ suggestion: 'const b = 2;', suggestionStartLine: 2, suggestionEndLine: 2 })]),
+          files
+        );
+
+        // Assert
+        expect(result[0].line).toBe(2);
+        expect(result[0]).not.toHaveProperty('start_line');
+      });
+
+      it('should fall back to a plain suggestion when the range leaves the diff', async () => {
+        // Arrange
+        const outsideIssue = issue({ suggestionStartLine: 3, suggestionEndLine: 6 });
+
+        // Act
+        const result = await engine.generateComments(analysisOf([outsideIssue]), files);
+
+        // Assert
+        expect(result[0].line).toBe(2);
+        expect(result[0]).not.toHaveProperty('start_line');
+        expect(mockPromptManager.formatComment.mock.calls).toContainEqual([outsideIssue]);
+      });
+
+      it('should fall back to a plain suggestion without a line range', async () => {
+        // Arrange
+        const plainIssue = issue({});
+
+        // Act
+        await engine.generateComments(analysisOf([plainIssue]), files);
+
+        // Assert
+        expect(mockPromptManager.formatComment.mock.calls).toContainEqual([plainIssue]);
+      });
+    });
   });
 
   describe('explainReasoning', () => {
@@ -252,10 +705,119 @@ To fix this, return a cleanup function from useEffect that removes the event lis
 
       // Assert
       expect(result).toBe(expectedExplanation);
-      expect(mockAnthropicClient.createMessage).toHaveBeenCalledWith(
+      expect(mockAnthropicClient.createMessage.mock.calls).toContainEqual([
         expect.stringContaining('explain why this is an issue'),
         expect.any(Object)
-      );
+      ]);
+    });
+  });
+
+  describe('respondToThread', () => {
+    const issue = {
+      file: 'src/index.js',
+      line: 10,
+      severity: 'warning' as const,
+      message: 'Use const instead of var',
+      category: 'code-quality',
+    };
+    const conversation = [
+      { author: 'octocat', fromBot: false, body: 'This is intentional, the variable is reassigned below' },
+    ];
+
+    it('should return the resolution and message from the AI', async () => {
+      // Arrange
+      mockAnthropicClient.createToolCall.mockResolvedValue({ resolution: 'concede', message: ' Makes sense, thanks! ' });
+
+      // Act
+      const result = await engine.respondToThread(issue, '@@ -1 +1 @@\n+var a = 1;', conversation);
+
+      // Assert
+      expect(result).toEqual({ resolution: 'concede', message: 'Makes sense, thanks!' });
+      expect(mockAnthropicClient.createToolCall.mock.calls).toContainEqual([
+        expect.stringContaining('@octocat: This is intentional, the variable is reassigned below'),
+        expect.objectContaining({ name: 'reply_to_thread' }),
+        expect.any(Object)
+      ]);
+    });
+
+    it('should reject replies without a valid resolution', async () => {
+      // Arrange
+      mockAnthropicClient.createToolCall.mockResolvedValue({ resolution: 'maybe', message: 'Hmm' });
+
+      // Act & Assert
+      await expect(engine.respondToThread(issue, '', conversation)).rejects.toThrow('Invalid AI response format');
+    });
+  });
+
+  describe('generateAnnotations', () => {
+    it('should map issues to check run annotations by severity', () => {
+      // Arrange
+      const analysis = {
+        issues: [
+          { file: 'a.js', line: 3, severity: 'error' as const, message: 'Broken', category: 'bug' },
+          {
+            file: 'b.ts',
+            line: 7,
+            severity: 'info' as const,
+            message: 'Nit',
+            category: 'code-quality',
+            suggestion: 'const x = 1;',
+          },
+        ],
+        summary: 'Summary',
+        stats: { total: 2, byCategory: {}, bySeverity: {} },
+      };
+
+      // Act
+      const annotations = engine.generateAnnotations(analysis);
+
+      // Assert
+      expect(annotations).toEqual([
+        {
+          path: 'a.js',
+          start_line: 3,
+          end_line: 3,
+          annotation_level: 'failure',
+          message: 'Broken',
+          title: 'bug',
+        },
+        {
+          path: 'b.ts',
+          start_line: 7,
+          end_line: 7,
+          annotation_level: 'notice',
+          message: 'Nit',
+          title: 'code-quality',
+          raw_details: 'const x = 1;',
+        },
+      ]);
+    });
+  });
+
+  describe('determineConclusion', () => {
+    const analysisWith = (severities: Array<'error' | 'warning' | 'info'>): ReviewAnalysis => ({
+      issues: severities.map((severity, i) => ({
+        file: 'a.js',
+        line: i + 1,
+        severity,
+        message: 'Issue',
+        category: 'bug',
+      })),
+      summary: 'Summary',
+      stats: { total: severities.length, byCategory: {}, bySeverity: {} },
+    });
+
+    it('should fail when any error is found', () => {
+      expect(engine.determineConclusion(analysisWith(['info', 'error', 'warning']))).toBe('failure');
+    });
+
+    it('should be neutral when only warnings and info are found', () => {
+      expect(engine.determineConclusion(analysisWith(['warning', 'info']))).toBe('neutral');
+    });
+
+    it('should succeed when only info or nothing is found', () => {
+      expect(engine.determineConclusion(analysisWith(['info']))).toBe('success');
+      expect(engine.determineConclusion(analysisWith([]))).toBe('success');
     });
   });
-});
\ No newline at end of file
+});
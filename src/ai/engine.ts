@@ -1,6 +1,15 @@
-import { AnthropicClient } from './anthropic-client';
+import { AnthropicClient, ToolDefinition } from './anthropic-client';
 import { PromptManager } from './prompt-manager';
-import { ContextBuilder } from './context-builder';
+import { ContextBuilder, ExportImpact, OMITTED_HUNKS_NOTE } from './context-builder';
+import { CallSite } from './impact-analyzer';
+import { detectFrameworks, Framework } from './framework-detector';
+import { DEFAULT_MAX_OUTPUT_TOKENS } from './tokenizer';
+import { isRightSideRange } from '../github/diff-parser';
+import { CheckRunAnnotation, CheckRunConclusion } from '../github/client';
+import { annotateIssues, computeStats, concludeReview } from '../github/review-summary';
+import { logger } from '../utils/logger';
+import { getConfigForPath, ReviewConfig } from './instruction-processor';
+import { defaultConfig, ReviewSettings } from '../config/default';
 
 export interface CodeContext {
   files: Array<{
@@ -10,6 +19,16 @@ export interface CodeContext {
   }>;
   prDescription: string;
   repository: string;
+  relatedFiles?: Array<{
+    path: string;
+    content: string;
+  }>;
+  exportChanges?: ExportImpact[];
+  callSites?: CallSite[];
+  /** Packages the repository depends on, used to detect frameworks */
+  dependencies?: string[];
+  /** Repository review configuration; defaults apply when missing */
+  settings?: ReviewConfig;
 }
 
 export interface Issue {
@@ -19,6 +38,8 @@ export interface Issue {
   message: string;
   category: string;
   suggestion?: string;
+  suggestionStartLine?: number;
+  suggestionEndLine?: number;
 }
 
 export interface ReviewAnalysis {
@@ -34,59 +55,313 @@ export interface ReviewAnalysis {
 export interface Comment {
   path: string;
   line: number;
+  start_line?: number;
+  body: string;
+  issue?: Issue;
+}
+
+export interface ThreadMessage {
+  author: string;
+  fromBot: boolean;
   body: string;
 }
 
+export interface ThreadReply {
+  resolution: 'concede' | 'clarify';
+  message: string;
+}
+
+const SEVERITIES: ReadonlyArray<Issue['severity']> = ['error', 'warning', 'info'];
+
+const SEVERITY_ORDER: Record<Issue['severity'], number> = { error: 0, warning: 1, info: 2 };
+
+interface TemplateSection {
+  /** Framework name, or the ID of a repository template */
+  label: string;
+  /** Reviewed files the template applies to */
+  paths: string[];
+  template: string;
+  thinkingInstructions: string;
+}
+
+const FRAMEWORK_LABELS: Record<Framework, string> = {
+  react: 'React',
+  nextjs: 'Next.js',
+  vue: 'Vue',
+  express: 'Express',
+  nestjs: 'NestJS',
+  'node-streams': 'Node streams',
+  test: 'Jest/Vitest tests',
+};
+
+// "enabled" turns a framework's template off; the other toggles remove checks from it
+const FRAMEWORK_SETTINGS: Record<Framework, keyof ReviewSettings> = {
+  react: 'reactSettings',
+  nextjs: 'nextjsSettings',
+  vue: 'vueSettings',
+  express: 'expressSettings',
+  nestjs: 'nestjsSettings',
+  'node-streams': 'nodeStreamsSettings',
+  test: 'testSettings',
+};
+
+const REPORT_ISSUES_TOOL: ToolDefinition = {
+  name: 'report_issues',
+  description: 'Reports the issues found while reviewing the pull request, together with a short summary of the review.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            file: { type: 'string', description: 'Path of the file the issue is in' },
+            line: { type: 'integer', minimum: 1, description: 'Line in the new version of the file' },
+            severity: { type: 'string', enum: SEVERITIES },
+            message: { type: 'string', description: 'Clear description of the issue' },
+            category: {
+              type: 'string',
+              enum: ['bug', 'security', 'performance', 'code-quality', 'type-safety', 'best-practices', 'documentation'],
+            },
+            suggestion: { type: 'string', description: 'Optional code suggestion to fix the issue' },
+            suggestionStartLine: { type: 'integer', minimum: 1, description: 'First line the suggestion replaces' },
+            suggestionEndLine: { type: 'integer', minimum: 1, description: 'Last line the suggestion replaces' },
+          },
+          required: ['file', 'line', 'severity', 'message', 'category'],
+        },
+      },
+      summary: { type: 'string', description: 'Brief summary of the review' },
+    },
+    required: ['issues', 'summary'],
+  },
+};
+
+const REPLY_TO_THREAD_TOOL: ToolDefinition = {
+  name: 'reply_to_thread',
+  description: 'Posts the reply to the developer in the review thread.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      resolution: {
+        type: 'string',
+        enum: ['concede', 'clarify'],
+        description: 'concede if the developer is right, clarify if the issue still applies',
+      },
+      message: { type: 'string', description: 'Reply to post in the thread' },
+    },
+    required: ['resolution', 'message'],
+  },
+};
+
 export class AIReviewEngine {
   private minimumSeverity: 'error' | 'warning' | 'info' = 'info';
 
   constructor(
     private readonly anthropicClient: AnthropicClient,
     private readonly promptManager: PromptManager,
-    private readonly _contextBuilder: ContextBuilder // Will be used for context optimization
+    private readonly contextBuilder: ContextBuilder,
+    private readonly maxOutputTokens: number = DEFAULT_MAX_OUTPUT_TOKENS
   ) {}
 
   /**
    * Analyzes code context and returns review analysis
+   * Pull requests too large for one prompt are reviewed in batches of related files and the results merged;
+   * files with different path overrides are never batched together
    * @param context - Code context including files, PR description, etc.
    * @returns Review analysis with issues found
    */
   async analyzeCode(context: CodeContext): Promise<ReviewAnalysis> {
+    // Token counts drive batching and truncation, so they are tuned to this review's content first
+    await this.contextBuilder.calibrateTokenizer(this.buildReviewPrompt(context));
+
+    // Files with different path overrides get different instructions, so each group has its own prompts
+    const groups = this.groupFilesByConfig(context);
+    const batches = groups.flatMap(group => {
+      // Every batch repeats the PR details and changed exports, so only the rest of the prompt is left for files;
+      // related files only fill the space that is left and are trimmed per batch by optimizeForTokenLimit
+      const reservedTokens = this.contextBuilder.estimateTextTokens(
+        this.buildReviewPrompt({ ...group, files: [], relatedFiles: [] })
+      );
+      return this.contextBuilder.batchFiles(group.files, reservedTokens).map(files => ({ ...group, files }));
+    });
+
+    if (batches.length <= 1) {
+      return this.analyzeBatch(batches[0] ?? context);
+    }
+
+    logger.info('Reviewing pull request in batches', {
+      files: context.files.length,
+      batches: batches.length,
+      configGroups: groups.length,
+    });
+
+    const results = await this.mapWithConcurrency(
+      batches,
+      (context.settings ?? defaultConfig).maxConcurrentReviews,
+      batch => this.analyzeBatch(batch)
+    );
+
+    // One failed batch should not throw away the findings of the others
+    const analyses: ReviewAnalysis[] = [];
+    const failedFiles: string[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        analyses.push(result.value);
+        return;
+      }
+
+      const paths = batches[index].files.map(file => file.path);
+      failedFiles.push(...paths);
+      logger.warn('Review batch failed', {
+        batch: index + 1,
+        files: paths,
+        error: result.reason instanceof Error ? result.reason.message : 'Unknown error',
+      });
+    });
+
+    if (analyses.length === 0) {
+      const [firstFailure] = results as PromiseRejectedResult[];
+      throw firstFailure.reason;
+    }
+
+    return this.mergeAnalyses(analyses, batches.length, failedFiles);
+  }
+
+  /**
+   * Splits the reviewed files into groups that share the same effective configuration
+   * @param context - Code context with the repository configuration
+   * @returns One context per group, with the group's files and configuration
+   */
+  private groupFilesByConfig(context: CodeContext): CodeContext[] {
+    const { settings } = context;
+    if (!settings || settings.overrides.length === 0) {
+      return [context];
+    }
+
+    const groups = new Map<string, CodeContext>();
+    for (const file of context.files) {
+      const fileSettings = getConfigForPath(settings, file.path);
+      const key = JSON.stringify(fileSettings);
+      const group = groups.get(key) || { ...context, files: [], settings: fileSettings };
+      group.files.push(file);
+      groups.set(key, group);
+    }
+
+    return [...groups.values()];
+  }
+
+  private async analyzeBatch(context: CodeContext): Promise<ReviewAnalysis> {
+    // Trim to the token limit, keeping diffs over surrounding content over related files
+    const optimized = this.contextBuilder.optimizeForTokenLimit({
+      files: context.files.map(file => this.contextBuilder.buildFileContext(file, file.diff)),
+      pr: this.contextBuilder.buildPRContext({ body: context.prDescription }),
+      relatedFiles: new Map(),
+      relatedContents: (context.relatedFiles || []).map(file => this.contextBuilder.buildFileContext(file, '')),
+      totalTokens: 0,
+    });
+
     // Build the review prompt
-    const prompt = this.buildReviewPrompt(context);
+    const prompt = this.buildReviewPrompt({
+      ...context,
+      files: optimized.files,
+      relatedFiles: optimized.relatedContents,
+    });
 
-    // Call AI with thinking instructions
-    const response = await this.anthropicClient.createMessage(prompt, {
-      maxTokens: 4096,
+    // Call AI with thinking instructions; the findings arrive as report_issues tool input
+    const input = await this.anthropicClient.createToolCall(prompt, REPORT_ISSUES_TOOL, {
+      maxTokens: this.maxOutputTokens,
       temperature: 0.3,
     });
 
-    // Parse and validate the response
+    // Validate the response
+    let analysis: ReviewAnalysis;
     try {
-      const analysis = JSON.parse(response.content) as ReviewAnalysis;
-      this.validateAnalysis(analysis);
-      return analysis;
+      analysis = this.validateAnalysis(input);
     } catch (error) {
       throw new Error(`Invalid AI response format: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    return this.applyReviewSettings(analysis, context.settings);
+  }
+
+  /**
+   * Drops the issues below the minimum severity or outside the enabled categories of the batch's configuration
+   * @param analysis - Validated analysis of one batch
+   * @param settings - Effective configuration of the batch's files
+   * @returns Analysis with only the issues the configuration asks for
+   */
+  private applyReviewSettings(analysis: ReviewAnalysis, settings: ReviewConfig | undefined): ReviewAnalysis {
+    if (!settings) {
+      return analysis;
+    }
+
+    const issues = analysis.issues.filter(issue =>
+      SEVERITY_ORDER[issue.severity] <= SEVERITY_ORDER[settings.minimumSeverity] &&
+      settings.enabledCategories.includes(issue.category)
+    );
+
+    return issues.length === analysis.issues.length
+      ? analysis
+      : { ...analysis, issues, stats: computeStats(issues) };
   }
 
   /**
    * Generates PR comments from analysis results
    * @param analysis - Review analysis with issues
+   * @param files - Reviewed files, used to check that suggested changes fit the diff
    * @returns Array of formatted comments
    */
-  async generateComments(analysis: ReviewAnalysis): Promise<Comment[]> {
+  async generateComments(
+    analysis: ReviewAnalysis,
+    files: CodeContext['files'] = []
+  ): Promise<Comment[]> {
     const severityOrder = { error: 0, warning: 1, info: 2 };
     const minSeverityValue = severityOrder[this.minimumSeverity];
+    const diffs = new Map(files.map(file => [file.path, file.diff]));
 
     return analysis.issues
       .filter(issue => severityOrder[issue.severity] <= minSeverityValue)
-      .map(issue => ({
-        path: issue.file,
-        line: issue.line,
-        body: this.promptManager.formatComment(issue),
-      }));
+      .map(issue => {
+        if (this.isSuggestedChange(issue, diffs.get(issue.file))) {
+          const startLine = issue.suggestionStartLine as number;
+          const endLine = issue.suggestionEndLine as number;
+
+          // A suggested change replaces exactly the lines the comment spans
+          return {
+            path: issue.file,
+            line: endLine,
+            ...(startLine < endLine ? { start_line: startLine } : {}),
+            body: this.promptManager.formatComment(issue, true),
+            issue,
+          };
+        }
+
+        return {
+          path: issue.file,
+          line: issue.line,
+          body: this.promptManager.formatComment(issue),
+          issue,
+        };
+      });
+  }
+
+  /**
+   * Generates check run annotations from analysis results
+   * @param analysis - Review analysis with issues
+   * @returns Array of annotations, one per issue
+   */
+  generateAnnotations(analysis: ReviewAnalysis): CheckRunAnnotation[] {
+    return annotateIssues(analysis.issues);
+  }
+
+  /**
+   * Derives the check run conclusion from the severities found
+   * @param analysis - Review analysis with issues
+   * @returns failure if any error was found, neutral for warnings only, success otherwise
+   */
+  determineConclusion(analysis: ReviewAnalysis): CheckRunConclusion {
+    return concludeReview(analysis.issues);
   }
 
   /**
@@ -116,6 +391,52 @@ Provide a detailed explanation that helps the developer understand:
     return response.content.trim();
   }
 
+  /**
+   * Responds to developers replying to a review comment
+   * @param issue - The issue the review comment reported
+   * @param diffHunk - Diff hunk the review comment is anchored to
+   * @param conversation - Replies in the thread, oldest first
+   * @returns Whether the finding is conceded, and the reply to post
+   */
+  async respondToThread(issue: Issue, diffHunk: string, conversation: ThreadMessage[]): Promise<ThreadReply> {
+    const prompt = `You reported an issue on a pull request and the developer replied.
+
+File: ${issue.file}
+Line: ${issue.line}
+Issue: ${issue.message}
+Category: ${issue.category}
+Severity: ${issue.severity}
+
+Code:
+\`\`\`diff
+${diffHunk}
+\`\`\`
+
+Conversation:
+${conversation.map(message => `${message.fromBot ? 'ReviewThor' : `@${message.author}`}: ${message.body}`).join('\n\n')}
+
+If the developer's reasoning is sound, concede and briefly acknowledge it.
+Otherwise, clarify why the issue still applies with a concrete example based on the code above.
+
+Answer by calling the reply_to_thread tool.`;
+
+    const reply = await this.anthropicClient.createToolCall(prompt, REPLY_TO_THREAD_TOOL, {
+      maxTokens: 1024,
+      temperature: 0.3,
+    }) as Partial<ThreadReply> | null;
+
+    if (
+      !reply ||
+      (reply.resolution !== 'concede' && reply.resolution !== 'clarify') ||
+      typeof reply.message !== 'string' ||
+      !reply.message.trim()
+    ) {
+      throw new Error('Invalid AI response format: Reply must contain a resolution and a message');
+    }
+
+    return { resolution: reply.resolution, message: reply.message.trim() };
+  }
+
   /**
    * Sets the minimum severity level for comments
    * @param severity - Minimum severity to include in comments
@@ -124,7 +445,199 @@ Provide a detailed explanation that helps the developer understand:
     this.minimumSeverity = severity;
   }
 
+  private mergeAnalyses(analyses: ReviewAnalysis[], batchCount: number, failedFiles: string[]): ReviewAnalysis {
+    const issues = analyses.flatMap(analysis => analysis.issues);
+    const summaries = analyses.map(analysis => analysis.summary.trim()).filter(Boolean);
+    const failureNote = failedFiles.length > 0
+      ? [`⚠️ ${failedFiles.length} file${failedFiles.length === 1 ? '' : 's'} could not be reviewed because the review request failed: ${failedFiles.map(path => `\`${path}\``).join(', ')}`]
+      : [];
+
+    return {
+      issues,
+      summary: [`Reviewed in ${batchCount} batches of related files.`, ...failureNote, ...summaries].join('\n\n'),
+      stats: computeStats(issues),
+    };
+  }
+
+  /**
+   * Runs a task for every item with at most `concurrency` tasks in flight
+   * @returns The settled result of each task, in the order of the items
+   */
+  private async mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    task: (item: T) => Promise<R>
+  ): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = [];
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        [results[index]] = await Promise.allSettled([task(items[index])]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+  }
+
+  private formatReviewedFile(file: CodeContext['files'][number]): string {
+    // Full contents let the model see declarations and callers outside the diff hunks
+    const content = file.content ? `
+Content:
+\`\`\`
+${file.content}
+\`\`\`` : '';
+
+    return `
+File: ${file.path}${content}
+Diff:
+\`\`\`diff
+${file.diff}
+\`\`\`
+`;
+  }
+
+  private formatRelatedFiles(relatedFiles: NonNullable<CodeContext['relatedFiles']>): string {
+    if (relatedFiles.length === 0) {
+      return '';
+    }
+
+    return `
+Related files (unchanged context for the files above; do not report issues in them):
+${relatedFiles.map(file => `
+File: ${file.path}
+\`\`\`
+${file.content}
+\`\`\`
+`).join('\n')}
+`;
+  }
+
+  /**
+   * Renders the templates of the frameworks the reviewed files use, the repository templates matching them and
+   * the templates the configuration adds
+   * @param context - Code context with the reviewed files and repository dependencies
+   * @returns Rendered templates with the files each applies to, in the order they were first matched
+   */
+  private renderTemplates(context: CodeContext): TemplateSection[] {
+    const matches = new Map<string, { label: string; settings: Record<string, boolean>; paths: string[] }>();
+    const match = (id: string, label: string, settings: Record<string, boolean>, path: string): void => {
+      const entry = matches.get(id) || { label, settings, paths: [] };
+      if (!entry.paths.includes(path)) {
+        entry.paths.push(path);
+      }
+      matches.set(id, entry);
+    };
+
+    const settings = context.settings ?? defaultConfig;
+    const frameworkSettings = (framework: Framework): Record<string, boolean> =>
+      settings[FRAMEWORK_SETTINGS[framework]] as Record<string, boolean>;
+
+    for (const file of context.files) {
+      const frameworks = detectFrameworks(file, context.dependencies)
+        .filter(framework => frameworkSettings(framework).enabled !== false);
+      for (const framework of frameworks) {
+        match(`${framework}-review`, FRAMEWORK_LABELS[framework], frameworkSettings(framework), file.path);
+      }
+
+      for (const template of this.promptManager.getTemplatesForFile(file.path)) {
+        match(template.id, template.id, {}, file.path);
+      }
+
+      // Templates the configuration adds, such as react-review for a directory that is known to use React
+      for (const id of context.settings?.templates || []) {
+        const framework = (Object.keys(FRAMEWORK_LABELS) as Framework[]).find(name => `${name}-review` === id);
+        if (framework) {
+          match(id, FRAMEWORK_LABELS[framework], frameworkSettings(framework), file.path);
+        } else {
+          match(id, id, {}, file.path);
+        }
+      }
+    }
+
+    return [...matches].flatMap(([id, { label, settings, paths }]) => {
+      const rendered = this.promptManager.renderTemplate(id, settings);
+      return rendered ? [{ label, paths, ...rendered }] : [];
+    });
+  }
+
+  private formatTemplateChecks(sections: TemplateSection[]): string {
+    if (sections.length === 0) {
+      return '';
+    }
+
+    return `
+Additional checks for specific files:
+${sections.map(section => `
+${section.label} (${section.paths.join(', ')}):
+${section.template}
+`).join('')}`;
+  }
+
+  private formatReviewInstructions(settings: ReviewConfig | undefined): string {
+    if (!settings) {
+      return '';
+    }
+
+    const list = (items: string[]): string => items.map(item => `- ${item}`).join('\n');
+    return `
+Repository review instructions for these files:
+${settings.focusAreas.length > 0 ? `Focus areas:\n${list(settings.focusAreas)}\n` : ''}${settings.customRules.length > 0 ? `Rules (report violations as ${settings.severity}):\n${list(settings.customRules)}\n` : ''}Only report issues in these categories: ${settings.enabledCategories.join(', ')}.
+`;
+  }
+
+  private formatOmittedHunks(files: CodeContext['files']): string {
+    if (!files.some(file => OMITTED_HUNKS_NOTE.test(file.diff))) {
+      return '';
+    }
+
+    return `
+Some diffs above had hunks omitted to fit the token limit, as noted at their end. Only report issues in code that
+is shown, and do not describe the omitted hunks as reviewed in the summary.
+`;
+  }
+
+  private formatExportChanges(exportChanges: ExportImpact[], callSites: CallSite[]): string {
+    if (exportChanges.length === 0) {
+      return '';
+    }
+
+    const lines = exportChanges.map(change => {
+      const action = change.change === 'removed'
+        ? `removes exported ${change.kind} \`${change.name}\``
+        : `changes the signature of exported ${change.kind} \`${change.name}\``;
+      const usage = change.usedBy.length > 0
+        ? `used by ${change.usedBy.length} ${change.usedBy.length === 1 ? 'file' : 'files'} in this review: ${change.usedBy.join(', ')}`
+        : 'not imported by other files in this review';
+      const location = change.line ? `${change.path}:${change.line}` : change.path;
+      const signatures = change.after
+        ? `\n  Before: ${change.before}\n  After: ${change.after}`
+        : `\n  Before: ${change.before}`;
+
+      const callers = callSites
+        .filter(callSite => callSite.exportPath === change.path && callSite.symbol === change.name)
+        .map(callSite => `  Called from ${callSite.path}:${callSite.line} (not changed in this pull request):
+\`\`\`
+${callSite.snippet}
+\`\`\``);
+
+      return [`- ${location} ${action}, ${usage}${signatures}`, ...callers].join('\n');
+    });
+
+    return `
+Changed exports (check that every usage still matches):
+${lines.join('\n')}
+${callSites.length > 0 ? `
+Callers outside this pull request cannot be commented on. When one is incompatible with the new signature,
+report an error on the line of the changed export and name the incompatible caller with its path and line.
+` : ''}`;
+  }
+
   private buildReviewPrompt(context: CodeContext): string {
+    const templates = this.renderTemplates(context);
+
     return `<thinking>
 You are reviewing a pull request for a JavaScript/TypeScript project. 
 Analyze the code changes carefully for:
@@ -135,7 +648,7 @@ Analyze the code changes carefully for:
 - TypeScript type safety issues
 
 Consider the PR description for context about the intended changes.
-</thinking>
+${templates.filter(section => section.thinkingInstructions).map(section => `\n${section.thinkingInstructions}\n`).join('')}</thinking>
 
 Please review the following code changes:
 
@@ -143,63 +656,89 @@ Repository: ${context.repository}
 PR Description: ${context.prDescription}
 
 Files:
-${context.files.map(file => `
-File: ${file.path}
-Diff:
-\`\`\`diff
-${file.diff}
-\`\`\`
-`).join('\n')}
+${context.files.map(file => this.formatReviewedFile(file)).join('\n')}
+${this.formatRelatedFiles(context.relatedFiles || [])}${this.formatExportChanges(context.exportChanges || [], context.callSites || [])}${this.formatOmittedHunks(context.files)}${this.formatTemplateChecks(templates)}${this.formatReviewInstructions(context.settings)}
+Report your analysis by calling the report_issues tool.
 
-Provide your analysis in the following JSON format:
-{
-  "issues": [
-    {
-      "file": "path/to/file.js",
-      "line": 10,
-      "severity": "error|warning|info",
-      "message": "Clear description of the issue",
-      "category": "bug|security|performance|code-quality|type-safety",
-      "suggestion": "Optional code suggestion to fix the issue"
-    }
-  ],
-  "summary": "Brief summary of the review",
-  "stats": {
-    "total": 0,
-    "byCategory": {},
-    "bySeverity": {}
-  }
-}
+When the fix replaces whole lines of the new code, set suggestionStartLine and suggestionEndLine to the
+first and last replaced line and make "suggestion" the exact replacement text for those lines, keeping their
+indentation and without a code fence. Omit both line fields when the suggestion is not a drop-in replacement.
 
 Focus on JavaScript/TypeScript specific issues. Be constructive and helpful.`;
   }
 
-  private validateAnalysis(analysis: any): void {
-    if (!analysis || typeof analysis !== 'object') {
+  private isSuggestedChange(issue: Issue, diff: string | undefined): boolean {
+    const { suggestion, suggestionStartLine, suggestionEndLine } = issue;
+    if (suggestion === undefined || !diff) {
+      return false;
+    }
+
+    if (!Number.isInteger(suggestionStartLine) || !Number.isInteger(suggestionEndLine)) {
+      return false;
+    }
+
+    return isRightSideRange(diff, suggestionStartLine as number, suggestionEndLine as number);
+  }
+
+  private validateAnalysis(input: unknown): ReviewAnalysis {
+    if (!input || typeof input !== 'object') {
       throw new Error('Analysis must be an object');
     }
 
+    const analysis = input as Record<string, unknown>;
     if (!Array.isArray(analysis.issues)) {
       throw new Error('Analysis must contain an issues array');
     }
 
-    if (!analysis.summary || typeof analysis.summary !== 'string') {
-      throw new Error('Analysis must contain a summary string');
+    // Drop malformed issues one by one instead of failing the whole review
+    const issues = analysis.issues.filter((issue): issue is Issue => this.isValidIssue(issue));
+    if (issues.length < analysis.issues.length) {
+      logger.warn('Dropped invalid issues from AI response', {
+        dropped: analysis.issues.length - issues.length,
+        kept: issues.length,
+      });
     }
 
-    if (!analysis.stats || typeof analysis.stats !== 'object') {
-      throw new Error('Analysis must contain stats object');
+    return {
+      issues: issues.map(issue => this.pickIssueFields(issue)),
+      summary: typeof analysis.summary === 'string' ? analysis.summary : '',
+      stats: computeStats(issues),
+    };
+  }
+
+  private isValidIssue(issue: unknown): boolean {
+    if (!issue || typeof issue !== 'object') {
+      return false;
     }
 
-    // Validate each issue
-    for (const issue of analysis.issues) {
-      if (!issue.file || !issue.line || !issue.severity || !issue.message || !issue.category) {
-        throw new Error('Each issue must have file, line, severity, message, and category');
-      }
+    const candidate = issue as Record<string, unknown>;
+    const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean =>
+      value === undefined || check(value);
+    const isLine = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+    const isText = (value: unknown): boolean => typeof value === 'string' && value.trim().length > 0;
 
-      if (!['error', 'warning', 'info'].includes(issue.severity)) {
-        throw new Error('Issue severity must be error, warning, or info');
-      }
-    }
+    return isText(candidate.file) &&
+      isLine(candidate.line) &&
+      SEVERITIES.includes(candidate.severity as Issue['severity']) &&
+      isText(candidate.message) &&
+      isText(candidate.category) &&
+      isOptional(candidate.suggestion, value => typeof value === 'string') &&
+      isOptional(candidate.suggestionStartLine, isLine) &&
+      isOptional(candidate.suggestionEndLine, isLine);
+  }
+
+  private pickIssueFields(issue: Issue): Issue {
+    const { file, line, severity, message, category, suggestion, suggestionStartLine, suggestionEndLine } = issue;
+
+    return {
+      file,
+      line,
+      severity,
+      message,
+      category,
+      ...(suggestion !== undefined ? { suggestion } : {}),
+      ...(suggestionStartLine !== undefined ? { suggestionStartLine } : {}),
+      ...(suggestionEndLine !== undefined ? { suggestionEndLine } : {}),
+    };
   }
 }
\ No newline at end of file
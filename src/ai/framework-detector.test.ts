@@ -0,0 +1,92 @@
+import { detectFrameworks, FrameworkFile, parseDependencies } from './framework-detector';
+
+describe('framework-detector', () => {
+  describe('detectFrameworks', () => {
+    const file = (path: string, content: string, diff = ''): FrameworkFile => ({ path, content, diff });
+
+    it('should detect React from imports, hooks and JSX', () => {
+      // Act & Assert
+      expect(detectFrameworks(file('src/a.js', "import React from 'react';"))).toEqual(['react']);
+      expect(detectFrameworks(file('src/useToggle.ts', 'const [on, setOn] = useState(false);'))).toEqual(['react']);
+      expect(detectFrameworks(file('src/b.jsx', 'return <div>{label}</div>;'))).toEqual(['react']);
+    });
+
+    it('should count closing tags outside JSX files only when the repository depends on React', () => {
+      // Arrange
+      const markup = file('src/email.js', "const html = '<p>' + name + '</p>';");
+
+      // Act & Assert
+      expect(detectFrameworks(markup)).toEqual([]);
+      expect(detectFrameworks(markup, ['react'])).toEqual(['react']);
+    });
+
+    it('should detect Express from imports, app creation and routers', () => {
+      // Act & Assert
+      expect(detectFrameworks(file('src/a.ts', "import { Router } from 'express';"))).toEqual(['express']);
+      expect(detectFrameworks(file('src/b.js', "const app = require('express')();"))).toEqual(['express']);
+      expect(detectFrameworks(file('src/c.js', 'const router = express.Router();'))).toEqual(['express']);
+    });
+
+    it('should detect Next.js, Vue and NestJS', () => {
+      // Act & Assert
+      expect(detectFrameworks(file('app/page.tsx', "'use client';\nexport default function Page() { return null; }")))
+        .toEqual(['nextjs']);
+      expect(detectFrameworks(file('app/dashboard/page.tsx', 'export default function Page() {}'), ['next', 'react']))
+        .toEqual(['react', 'nextjs']);
+      expect(detectFrameworks(file('src/Card.vue', '<template><div>{{ title }}</div></template>'))).toEqual(['vue']);
+      expect(detectFrameworks(file('src/users.service.ts', '@Injectable()\nexport class UsersService {}')))
+        .toEqual(['nestjs']);
+    });
+
+    it('should detect Node streams and test files', () => {
+      // Act & Assert
+      expect(detectFrameworks(file('src/export.ts', "import { pipeline } from 'node:stream/promises';")))
+        .toEqual(['node-streams']);
+      expect(detectFrameworks(file('src/read.js', "fs.createReadStream('data.csv');"))).toEqual(['node-streams']);
+      expect(detectFrameworks(file('src/math.spec.ts', "it('adds', () => {});"))).toEqual(['test']);
+      expect(detectFrameworks(file('src/__tests__/math.js', ''))).toEqual(['test']);
+    });
+
+    it('should use weaker hints only when the repository depends on the framework', () => {
+      // Arrange
+      const component = file('src/Button.tsx', 'export const Button = () => null;');
+      const handler = file('src/routes/users.js', 'export const list = (req, res) => { res.json([]); };');
+
+      // Act & Assert
+      expect(detectFrameworks(component)).toEqual([]);
+      expect(detectFrameworks(component, ['react'])).toEqual(['react']);
+      expect(detectFrameworks(handler)).toEqual([]);
+      expect(detectFrameworks(handler, ['express'])).toEqual(['express']);
+    });
+
+    it('should scan the diff when the content is unavailable', () => {
+      // Act & Assert
+      expect(detectFrameworks(file('src/a.js', '', "+import express from 'express';"))).toEqual(['express']);
+    });
+
+    it('should not mistake generics for JSX', () => {
+      // Act & Assert
+      expect(detectFrameworks(file('src/a.ts', 'const ids: Array<string> = new Map<string, number>().keys();'))).toEqual([]);
+    });
+  });
+
+  describe('parseDependencies', () => {
+    it('should list dependencies, dev dependencies and peer dependencies', () => {
+      // Arrange
+      const packageJson = JSON.stringify({
+        dependencies: { express: '^4.0.0' },
+        devDependencies: { jest: '^29.0.0' },
+        peerDependencies: { react: '>=18' },
+      });
+
+      // Act & Assert
+      expect(parseDependencies(packageJson)).toEqual(['express', 'jest', 'react']);
+    });
+
+    it('should return no dependencies for a missing or invalid package.json', () => {
+      // Act & Assert
+      expect(parseDependencies(null)).toEqual([]);
+      expect(parseDependencies('{ not json')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { extractSymbols } from './symbol-extractor';
+
+export type Framework = 'react' | 'nextjs' | 'vue' | 'express' | 'nestjs' | 'node-streams' | 'test';
+
+export interface FrameworkFile {
+  path: string;
+  content: string;
+  diff: string;
+}
+
+interface FrameworkRule {
+  framework: Framework;
+  /** Paths that mark a file as using the framework */
+  paths?: RegExp;
+  /** Paths that never use the framework, such as templates that look alike */
+  excludedPaths?: RegExp;
+  /** Import sources that mark a file as using the framework */
+  imports: RegExp;
+  /** Code that marks a file as using the framework */
+  patterns: RegExp[];
+  /** Code that only marks files in the given paths as using the framework */
+  scopedPatterns?: { paths: RegExp; patterns: RegExp[] };
+  /** Packages whose presence in package.json makes the hints below count */
+  packages: string[];
+  /** Paths and code that only point to the framework when the repository depends on it */
+  hints: { paths?: RegExp; patterns?: RegExp[] };
+}
+
+const JSX_CLOSING_TAG = /<\/[A-Za-z][\w.]*>|<>|<\/>/;
+
+const FRAMEWORK_RULES: FrameworkRule[] = [
+  {
+    framework: 'react',
+    imports: /^(react|react-dom|preact\/compat)(\/|$)/,
+    patterns: [
+      /\buse(State|Effect|LayoutEffect|Memo|Callback|Ref|Context|Reducer|Transition|DeferredValue)\s*[<(]/,
+    ],
+    // Closing tags also appear in HTML strings and templates, so elsewhere they need the react dependency
+    scopedPatterns: { paths: /\.(jsx|tsx)$/, patterns: [JSX_CLOSING_TAG] },
+    packages: ['react'],
+    hints: { paths: /\.(jsx|tsx)$/, patterns: [JSX_CLOSING_TAG, /\/>/] },
+    excludedPaths: /\.vue$/,
+  },
+  {
+    framework: 'nextjs',
+    imports: /^next(\/|$)/,
+    patterns: [
+      /^\s*['"]use (client|server)['"]/m,
+      /\bexport\s+(async\s+)?function\s+(getServerSideProps|getStaticProps|getStaticPaths|generateMetadata|generateStaticParams)\b/,
+    ],
+    packages: ['next'],
+    hints: { paths: /(^|\/)(app\/(.+\/)?(page|layout|route|loading|error|template)|pages\/.+)\.(jsx?|tsx?)$/ },
+  },
+  {
+    framework: 'vue',
+    paths: /\.vue$/,
+    imports: /^(vue|vue-router|pinia|@vue\/.+)$/,
+    patterns: [/\bdefineComponent\s*\(/, /\bdefine(Props|Emits|Model)\s*[<(]/],
+    packages: ['vue', 'nuxt'],
+    hints: { patterns: [/\b(ref|reactive|computed|watch|watchEffect)\s*[<(]/] },
+  },
+  {
+    framework: 'express',
+    imports: /^express(\/|$)/,
+    patterns: [/\bexpress\s*\(\s*\)/, /\bexpress\.Router\s*\(/],
+    packages: ['express'],
+    hints: {
+      patterns: [
+        /\(\s*req\b[^,)]*,\s*res\b[^,)]*(,\s*next\b[^)]*)?\)\s*(=>|\{)/,
+        /\b(app|router)\.(get|post|put|patch|delete|use|all)\s*\(/,
+      ],
+    },
+  },
+  {
+    framework: 'nestjs',
+    imports: /^@nestjs\//,
+    patterns: [/@(Module|Controller|Injectable|Resolver)\s*\(/],
+    packages: ['@nestjs/core', '@nestjs/common'],
+    hints: { paths: /\.(module|controller|service|guard|interceptor|pipe|resolver)\.ts$/ },
+  },
+  {
+    framework: 'node-streams',
+    imports: /^(node:)?stream(\/promises)?$/,
+    patterns: [/\bcreate(Read|Write)Stream\s*\(/, /\bnew\s+(Readable|Writable|Transform|Duplex|PassThrough)\s*\(/],
+    packages: [],
+    hints: {},
+  },
+  {
+    framework: 'test',
+    paths: /(\.(test|spec)\.(jsx?|tsx?|mjs|cjs)$)|(^|\/)__tests__\//,
+    imports: /^(vitest|@jest\/globals|@testing-library\/.+)$/,
+    patterns: [],
+    packages: [],
+    hints: {},
+  },
+];
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies'] as const;
+
+type PackageJson = Partial<Record<typeof DEPENDENCY_FIELDS[number], unknown>>;
+
+/**
+ * Detects the frameworks a file uses
+ * @param file - Reviewed file; its diff is scanned when the content is unavailable
+ * @param dependencies - Packages the repository depends on
+ * @returns Frameworks used by the file, in rule order
+ */
+export function detectFrameworks(file: FrameworkFile, dependencies: string[] = []): Framework[] {
+  const code = file.content || file.diff;
+  const sources = extractSymbols(file.path, code).imports.map(binding => binding.source);
+
+  return FRAMEWORK_RULES.filter(rule => {
+    if (rule.excludedPaths?.test(file.path)) {
+      return false;
+    }
+
+    if (
+      Boolean(rule.paths?.test(file.path)) ||
+      sources.some(source => rule.imports.test(source)) ||
+      rule.patterns.some(pattern => pattern.test(code)) ||
+      (Boolean(rule.scopedPatterns?.paths.test(file.path)) &&
+        (rule.scopedPatterns?.patterns || []).some(pattern => pattern.test(code)))
+    ) {
+      return true;
+    }
+
+    if (!rule.packages.some(name => dependencies.includes(name))) {
+      return false;
+    }
+
+    return Boolean(rule.hints.paths?.test(file.path)) ||
+      (rule.hints.patterns || []).some(pattern => pattern.test(code));
+  }).map(rule => rule.framework);
+}
+
+/**
+ * Lists the packages a package.json depends on
+ * @param packageJson - Content of package.json
+ * @returns Names of dependencies, dev dependencies and peer dependencies
+ */
+export function parseDependencies(packageJson: string | null): string[] {
+  if (!packageJson) {
+    return [];
+  }
+
+  try {
+    const manifest: unknown = JSON.parse(packageJson);
+    if (!isPackageJson(manifest)) {
+      return [];
+    }
+
+    return DEPENDENCY_FIELDS.flatMap(field => {
+      const dependencies = manifest[field];
+      return dependencies && typeof dependencies === 'object' ? Object.keys(dependencies) : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+function isPackageJson(value: unknown): value is PackageJson {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
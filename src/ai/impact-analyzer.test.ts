@@ -0,0 +1,93 @@
+import { ImpactAnalyzer } from './impact-analyzer';
+import { ContextBuilder, ExportImpact } from './context-builder';
+import { GitHubClient } from '../github/client';
+import { logger } from '../utils/logger';
+
+jest.mock('../github/client');
+jest.mock('../utils/logger');
+
+describe('ImpactAnalyzer', () => {
+  let analyzer: ImpactAnalyzer;
+  let mockGitHubClient: jest.Mocked<GitHubClient>;
+
+  const change: ExportImpact = {
+    path: 'src/math.ts',
+    line: 1,
+    name: 'sum',
+    kind: 'function',
+    change: 'signature',
+    before: 'function sum(a: number, b: number): number',
+    after: 'function sum(values: number[]): number',
+    usedBy: [],
+  };
+
+  const repoFiles: Record<string, string> = {
+    'src/cart.ts': "import { sum } from './math';\n\nexport const total = sum(1, 2);\n",
+    'src/report.ts': "import * as math from './math';\nconst x = 1;\nconst y = 2;\nconst z = 3;\nmath.sum(x, y);\n",
+    'src/other.ts': "import { sum } from './other-math';\nsum(1);\n",
+    'README.md': 'sum',
+  };
+
+  beforeEach(() => {
+    mockGitHubClient = new GitHubClient({ appId: 123, privateKey: 'test' }) as jest.Mocked<GitHubClient>;
+    mockGitHubClient.getFile.mockImplementation((_owner, _repo, path) => Promise.resolve(repoFiles[path] ?? null));
+    analyzer = new ImpactAnalyzer(mockGitHubClient, new ContextBuilder());
+  });
+
+  it('should find call sites of changed exports outside the review context', async () => {
+    // Arrange
+    mockGitHubClient.searchCode.mockResolvedValue(['src/cart.ts', 'src/report.ts', 'src/other.ts', 'README.md', 'src/math.ts']);
+
+    // Act
+    const callSites = await analyzer.findCallSites('owner', 'repo', 'abc123', [change], ['src/math.ts']);
+
+    // Assert
+    expect(mockGitHubClient.searchCode.mock.calls).toContainEqual(['owner', 'repo', 'sum']);
+    expect(mockGitHubClient.getFile.mock.calls).toContainEqual(['owner', 'repo', 'src/cart.ts', 'abc123']);
+    expect(mockGitHubClient.getFile.mock.calls).not.toContainEqual(['owner', 'repo', 'README.md', 'abc123']);
+    expect(callSites).toEqual([
+      {
+        path: 'src/cart.ts',
+        exportPath: 'src/math.ts',
+        symbol: 'sum',
+        line: 3,
+        snippet: "1: import { sum } from './math';\n2: \n3: export const total = sum(1, 2);\n4: ",
+      },
+      {
+        path: 'src/report.ts',
+        exportPath: 'src/math.ts',
+        symbol: 'sum',
+        line: 5,
+        snippet: '3: const y = 2;\n4: const z = 3;\n5: math.sum(x, y);\n6: ',
+      },
+    ]);
+  });
+
+  it('should search for the module name of changed default exports', async () => {
+    // Arrange
+    mockGitHubClient.searchCode.mockResolvedValue([]);
+
+    // Act
+    await analyzer.findCallSites('owner', 'repo', 'abc123', [{ ...change, path: 'src/cart/index.ts', name: 'default' }], []);
+
+    // Assert
+    expect(mockGitHubClient.searchCode.mock.calls).toContainEqual(['owner', 'repo', 'cart']);
+  });
+
+  it('should continue when code search fails', async () => {
+    // Arrange
+    mockGitHubClient.searchCode.mockRejectedValueOnce(new Error('rate limited')).mockResolvedValueOnce(['src/cart.ts']);
+    const other = { ...change, name: 'max' };
+
+    // Act
+    const callSites = await analyzer.findCallSites('owner', 'repo', 'abc123', [other, change], []);
+
+    // Assert
+    expect(jest.mocked(logger).warn.mock.calls).toContainEqual(['Code search failed for changed export', {
+      path: 'src/math.ts',
+      symbol: 'max',
+      error: 'rate limited',
+    }]);
+    expect(callSites.map(callSite => callSite.path)).toEqual(['src/cart.ts']);
+  });
+});
@@ -0,0 +1,138 @@
+import { GitHubClient } from '../github/client';
+import { ContextBuilder, ExportImpact } from './context-builder';
+import { findUsageLines } from './symbol-extractor';
+import { logger } from '../utils/logger';
+
+export interface CallSite {
+  /** File using the changed export */
+  path: string;
+  /** File declaring the changed export */
+  exportPath: string;
+  symbol: string;
+  line: number;
+  /** Lines around the usage, prefixed with their line numbers */
+  snippet: string;
+}
+
+const SCRIPT_FILE = /\.(js|jsx|ts|tsx|mjs|cjs|vue)$/;
+
+// Code search is rate limited far more strictly than the rest of the API
+const MAX_SEARCHED_SYMBOLS = 5;
+const MAX_FETCHED_FILES = 30;
+const MAX_CALL_SITES = 20;
+const MAX_CALL_SITES_PER_FILE = 3;
+const SNIPPET_CONTEXT_LINES = 2;
+
+export class ImpactAnalyzer {
+  constructor(
+    private readonly githubClient: GitHubClient,
+    private readonly contextBuilder: ContextBuilder
+  ) {}
+
+  /**
+   * Finds where changed exports are used in files outside the review context
+   * Candidates come from code search and are verified against their content at the given ref
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Head commit of the pull request
+   * @param changes - Exports whose signature changed or that were removed
+   * @param excludedPaths - Files already in the review context
+   * @returns Call sites with snippets, at most MAX_CALL_SITES
+   */
+  async findCallSites(
+    owner: string,
+    repo: string,
+    ref: string,
+    changes: ExportImpact[],
+    excludedPaths: string[]
+  ): Promise<CallSite[]> {
+    const excluded = new Set(excludedPaths);
+    const contents = new Map<string, string | null>();
+    const callSites: CallSite[] = [];
+
+    for (const change of changes.slice(0, MAX_SEARCHED_SYMBOLS)) {
+      // Default exports are imported under any name, but usually from a path ending in the module name
+      const term = change.name === 'default' ? moduleName(change.path) : change.name;
+
+      let candidates: string[];
+      try {
+        candidates = await this.githubClient.searchCode(owner, repo, term);
+      } catch (error) {
+        logger.warn('Code search failed for changed export', {
+          path: change.path,
+          symbol: change.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        continue;
+      }
+
+      for (const path of candidates.filter(candidate => SCRIPT_FILE.test(candidate) && !excluded.has(candidate))) {
+        if (!contents.has(path)) {
+          if (contents.size >= MAX_FETCHED_FILES) {
+            break;
+          }
+          contents.set(path, await this.githubClient.getFile(owner, repo, path, ref));
+        }
+
+        const content = contents.get(path);
+        if (!content) {
+          continue;
+        }
+
+        const lines = this.findUsages(path, content, change).slice(0, MAX_CALL_SITES_PER_FILE);
+        for (const line of lines) {
+          if (callSites.length >= MAX_CALL_SITES) {
+            return callSites;
+          }
+
+          callSites.push({
+            path,
+            exportPath: change.path,
+            symbol: change.name,
+            line,
+            snippet: snippetAround(content, line),
+          });
+        }
+      }
+    }
+
+    return callSites;
+  }
+
+  private findUsages(path: string, content: string, change: ExportImpact): number[] {
+    const lines = new Set<number>();
+
+    for (const binding of this.contextBuilder.summarizeSymbols({ path, content }).imports) {
+      if (!this.contextBuilder.resolveImportPaths(path, binding.source).includes(change.path)) {
+        continue;
+      }
+
+      for (const name of binding.names) {
+        if (name.imported === change.name) {
+          findUsageLines(path, content, name.local).forEach(line => lines.add(line));
+        } else if (name.imported === '*' && name.local !== '*') {
+          findUsageLines(path, content, name.local, change.name).forEach(line => lines.add(line));
+        }
+      }
+    }
+
+    return [...lines].sort((a, b) => a - b);
+  }
+}
+
+function moduleName(path: string): string {
+  const segments = path.replace(SCRIPT_FILE, '').split('/');
+  const name = segments.pop() as string;
+  return name === 'index' && segments.length > 0 ? segments[segments.length - 1] : name;
+}
+
+function snippetAround(content: string, line: number): string {
+  const lines = content.split('\n');
+  const start = Math.max(line - SNIPPET_CONTEXT_LINES, 1);
+  const end = Math.min(line + SNIPPET_CONTEXT_LINES, lines.length);
+
+  return lines
+    .slice(start - 1, end)
+    .map((text, index) => `${start + index}: ${text}`)
+    .join('\n');
+}
@@ -0,0 +1,159 @@
+import { ImportResolver } from './import-resolver';
+import { GitHubClient } from '../github/client';
+
+jest.mock('../github/client');
+jest.mock('../utils/logger');
+
+describe('ImportResolver', () => {
+  let mockGitHubClient: jest.Mocked<GitHubClient>;
+
+  const mockRepository = (repoFiles: Record<string, string>, treeAvailable = true): void => {
+    mockGitHubClient.getTree.mockResolvedValue(
+      treeAvailable ? { paths: Object.keys(repoFiles), truncated: false } : null
+    );
+    mockGitHubClient.getFile.mockImplementation((_owner, _repo, path) => Promise.resolve(repoFiles[path] ?? null));
+  };
+
+  beforeEach(() => {
+    mockGitHubClient = new GitHubClient({ appId: 123, privateKey: 'test' }) as jest.Mocked<GitHubClient>;
+  });
+
+  describe('without repository settings', () => {
+    const resolver = new ImportResolver();
+
+    it('should probe extensions and index files for relative imports', () => {
+      // Act
+      const paths = resolver.resolve('src/handlers/events/command.ts', '../../utils/logger');
+
+      // Assert
+      expect(paths[0]).toBe('src/utils/logger.ts');
+      expect(paths).toContain('src/utils/logger.tsx');
+      expect(paths).toContain('src/utils/logger/index.ts');
+    });
+
+    it('should try TypeScript sources for .js specifiers', () => {
+      // Act
+      const paths = resolver.resolve('src/index.ts', './app.js');
+
+      // Assert
+      expect(paths[0]).toBe('src/app.ts');
+      expect(paths).toContain('src/app.js');
+    });
+
+    it('should skip package and asset imports', () => {
+      // Act & Assert
+      expect(resolver.resolve('src/app.tsx', 'react')).toEqual([]);
+      expect(resolver.resolve('src/app.tsx', './app.css')).toEqual([]);
+    });
+
+    it('should resolve Vue components by their own path', () => {
+      // Act & Assert
+      expect(resolver.resolve('src/App.vue', './components/Card.vue')).toEqual(['src/components/Card.vue']);
+    });
+  });
+
+  describe('filterExisting', () => {
+    it('should keep only existing paths when the file tree is known', () => {
+      // Arrange
+      const resolver = new ImportResolver({ files: new Set(['src/a.test.ts']), paths: [], workspacePackages: [] });
+
+      // Act & Assert
+      expect(resolver.filterExisting(['src/a.test.js', 'src/a.test.ts'])).toEqual(['src/a.test.ts']);
+      expect(new ImportResolver().filterExisting(['src/a.test.js'])).toEqual(['src/a.test.js']);
+    });
+  });
+
+  describe('load', () => {
+    it('should return only files that exist at the ref', async () => {
+      // Arrange
+      mockRepository({ 'src/utils/logger/index.ts': '' });
+
+      // Act
+      const resolver = await ImportResolver.load(mockGitHubClient, 'owner', 'repo', 'abc123');
+
+      // Assert
+      expect(mockGitHubClient.getTree.mock.calls).toContainEqual(['owner', 'repo', 'abc123']);
+      expect(resolver.resolve('src/index.ts', './utils/logger')).toEqual(['src/utils/logger/index.ts']);
+      expect(resolver.resolve('src/index.ts', './missing')).toEqual([]);
+    });
+
+    it('should resolve tsconfig paths and baseUrl, following extends', async () => {
+      // Arrange
+      mockRepository({
+        'tsconfig.json': `{
+          // Shared settings live in the base config
+          "extends": "./config/tsconfig.base",
+          "compilerOptions": { "strict": true, },
+        }`,
+        'config/tsconfig.base.json': JSON.stringify({
+          compilerOptions: {
+            baseUrl: '../src',
+            paths: { '@app/*': ['app/*'], '@models/*': ['app/models/*', 'legacy/*'], '@config': ['config/index.ts'] },
+          },
+        }),
+        'src/app/models/user.ts': '',
+        'src/legacy/order.js': '',
+        'src/config/index.ts': '',
+        'src/utils/dates.ts': '',
+      });
+
+      // Act
+      const resolver = await ImportResolver.load(mockGitHubClient, 'owner', 'repo', 'abc123');
+
+      // Assert
+      expect(resolver.resolve('src/index.ts', '@app/models/user')).toEqual(['src/app/models/user.ts']);
+      expect(resolver.resolve('src/index.ts', '@models/order')).toEqual(['src/legacy/order.js']);
+      expect(resolver.resolve('src/index.ts', '@config')).toEqual(['src/config/index.ts']);
+      expect(resolver.resolve('src/index.ts', 'utils/dates')).toEqual(['src/utils/dates.ts']);
+      expect(resolver.resolve('src/index.ts', 'react')).toEqual([]);
+    });
+
+    it('should resolve workspace packages to their sources', async () => {
+      // Arrange
+      mockRepository({
+        'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+        'packages/core/package.json': JSON.stringify({ name: '@acme/core', main: 'dist/index.js' }),
+        'packages/core/src/index.ts': '',
+        'packages/core/src/http/client.ts': '',
+        'packages/ui/package.json': JSON.stringify({ name: '@acme/ui' }),
+        'packages/ui/index.tsx': '',
+        'examples/demo/package.json': JSON.stringify({ name: 'demo' }),
+      });
+
+      // Act
+      const resolver = await ImportResolver.load(mockGitHubClient, 'owner', 'repo', 'abc123');
+
+      // Assert
+      expect(resolver.resolve('apps/web/main.ts', '@acme/core')).toEqual(['packages/core/src/index.ts']);
+      expect(resolver.resolve('apps/web/main.ts', '@acme/core/http/client')).toEqual(['packages/core/src/http/client.ts']);
+      expect(resolver.resolve('apps/web/main.ts', '@acme/ui')).toEqual(['packages/ui/index.tsx']);
+      expect(mockGitHubClient.getFile.mock.calls).not.toContainEqual(['owner', 'repo', 'examples/demo/package.json', 'abc123']);
+    });
+
+    it('should fall back to candidate paths when the file tree is unavailable', async () => {
+      // Arrange
+      mockRepository({
+        'package.json': JSON.stringify({ workspaces: { packages: ['packages/*', 'tools/cli'] } }),
+        'tools/cli/package.json': JSON.stringify({ name: 'cli', source: 'src/main.ts' }),
+      }, false);
+
+      // Act
+      const resolver = await ImportResolver.load(mockGitHubClient, 'owner', 'repo', 'abc123');
+
+      // Assert
+      expect(resolver.resolve('src/index.ts', 'cli')[0]).toBe('tools/cli/src/main.ts');
+      expect(resolver.resolve('src/index.ts', './a').length).toBeGreaterThan(1);
+    });
+
+    it('should ignore config files that cannot be parsed', async () => {
+      // Arrange
+      mockRepository({ 'tsconfig.json': '{ not json', 'src/a.ts': '' });
+
+      // Act
+      const resolver = await ImportResolver.load(mockGitHubClient, 'owner', 'repo', 'abc123');
+
+      // Assert
+      expect(resolver.resolve('src/index.ts', './a')).toEqual(['src/a.ts']);
+    });
+  });
+});
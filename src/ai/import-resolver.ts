@@ -0,0 +1,322 @@
+import ts from 'typescript';
+import { GitHubClient } from '../github/client';
+import { matchesGlob } from '../utils/glob';
+import { logger } from '../utils/logger';
+
+export interface PathAlias {
+  pattern: string;
+  targets: string[];
+}
+
+export interface WorkspacePackage {
+  name: string;
+  dir: string;
+  entries: string[];
+}
+
+export interface ResolverConfig {
+  /** Paths in the repository; when known, only paths that exist are returned */
+  files?: Set<string>;
+  /** Directory non-relative imports are resolved from, relative to the repository root */
+  baseUrl?: string;
+  /** tsconfig `paths` with targets relative to the repository root */
+  paths: PathAlias[];
+  workspacePackages: WorkspacePackage[];
+}
+
+const SCRIPT_EXTENSION = /\.(js|jsx|ts|tsx|mjs|cjs)$/;
+
+// TypeScript sources are often imported with .js specifiers, so .ts is tried before .js
+const CANDIDATE_SUFFIXES = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '/index.ts', '/index.tsx', '/index.js'];
+const ASSET_IMPORTS = /\.(css|scss|sass|less|json|svg|png|jpe?g|gif)$/i;
+
+// Build output directories whose sources usually live in src/
+const BUILD_DIRECTORY = /^(dist|lib|build|out)\//;
+
+const MAX_TSCONFIG_EXTENDS = 5;
+const MAX_WORKSPACE_PACKAGES = 50;
+
+type JsonObject = Record<string, unknown>;
+type ReadJson = (path: string) => Promise<JsonObject | null>;
+
+export class ImportResolver {
+  constructor(private readonly config: ResolverConfig = { paths: [], workspacePackages: [] }) {}
+
+  /**
+   * Loads tsconfig path aliases, workspace packages and the file tree of a repository
+   * @param githubClient - Authenticated GitHub client
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Git reference the imports are resolved at
+   * @returns Resolver for imports at the ref
+   */
+  static async load(githubClient: GitHubClient, owner: string, repo: string, ref: string): Promise<ImportResolver> {
+    const tree = await githubClient.getTree(owner, repo, ref);
+    const files = tree && !tree.truncated ? new Set(tree.paths) : undefined;
+    const readJson: ReadJson = async path => {
+      if (files && !files.has(path)) {
+        return null;
+      }
+
+      const content = await githubClient.getFile(owner, repo, path, ref);
+      if (!content) {
+        return null;
+      }
+
+      // tsconfig.json may contain comments and trailing commas, which the TypeScript parser accepts
+      const { config, error } = ts.parseConfigFileTextToJson(path, content) as { config?: unknown; error?: ts.Diagnostic };
+      if (error || !isJsonObject(config)) {
+        logger.warn('Could not parse repository config for import resolution', { path });
+        return null;
+      }
+
+      return config;
+    };
+
+    const { baseUrl, paths } = await loadCompilerPaths(readJson);
+    const workspacePackages = await loadWorkspacePackages(readJson, files);
+
+    return new ImportResolver({ files, baseUrl, paths, workspacePackages });
+  }
+
+  /**
+   * Resolves an import to the repository paths it may refer to
+   * @param fromPath - Path of the importing file
+   * @param specifier - Import specifier
+   * @returns The existing file when the file tree is known, otherwise candidate paths, most likely first
+   */
+  resolve(fromPath: string, specifier: string): string[] {
+    if (ASSET_IMPORTS.test(specifier)) {
+      return [];
+    }
+
+    const candidates = this.findCandidates(fromPath, specifier);
+    const { files } = this.config;
+    if (!files) {
+      return candidates;
+    }
+
+    const existing = candidates.find(candidate => files.has(candidate));
+    return existing ? [existing] : [];
+  }
+
+  /**
+   * Keeps the paths that exist in the repository
+   * @param paths - Candidate paths
+   * @returns The paths that exist when the file tree is known, otherwise all paths
+   */
+  filterExisting(paths: string[]): string[] {
+    const { files } = this.config;
+    return files ? paths.filter(path => files.has(path)) : paths;
+  }
+
+  private findCandidates(fromPath: string, specifier: string): string[] {
+    if (specifier.startsWith('.')) {
+      return probe(joinPath(dirname(fromPath), specifier));
+    }
+
+    const alias = this.matchAlias(specifier);
+    if (alias) {
+      return alias.targets.flatMap(target => probe(joinPath('', target.replace('*', alias.wildcard))));
+    }
+
+    const workspace = this.matchWorkspacePackage(specifier);
+    if (workspace) {
+      const { pkg, subpath } = workspace;
+      return subpath
+        ? [...probe(joinPath(pkg.dir, subpath)), ...probe(joinPath(pkg.dir, `src/${subpath}`))]
+        : pkg.entries.flatMap(entry => probe(joinPath(pkg.dir, entry)));
+    }
+
+    // Every package import would also match baseUrl, so it is only tried when existence can be checked
+    if (this.config.baseUrl !== undefined && this.config.files) {
+      return probe(joinPath(this.config.baseUrl, specifier));
+    }
+
+    return [];
+  }
+
+  private matchAlias(specifier: string): { targets: string[]; wildcard: string } | undefined {
+    let best: { targets: string[]; wildcard: string; prefixLength: number } | undefined;
+
+    // TypeScript picks the pattern with the longest prefix before the wildcard
+    for (const { pattern, targets } of this.config.paths) {
+      const star = pattern.indexOf('*');
+      if (star === -1) {
+        if (pattern === specifier) {
+          return { targets, wildcard: '' };
+        }
+        continue;
+      }
+
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (
+        specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix) &&
+        (!best || prefix.length > best.prefixLength)
+      ) {
+        best = {
+          targets,
+          wildcard: specifier.slice(prefix.length, specifier.length - suffix.length),
+          prefixLength: prefix.length,
+        };
+      }
+    }
+
+    return best;
+  }
+
+  private matchWorkspacePackage(specifier: string): { pkg: WorkspacePackage; subpath: string } | undefined {
+    const pkg = this.config.workspacePackages
+      .filter(candidate => specifier === candidate.name || specifier.startsWith(`${candidate.name}/`))
+      .sort((a, b) => b.name.length - a.name.length)[0];
+
+    return pkg ? { pkg, subpath: specifier.slice(pkg.name.length + 1) } : undefined;
+  }
+}
+
+/**
+ * Reads baseUrl and paths from the root tsconfig.json, following relative `extends`
+ */
+async function loadCompilerPaths(
+  readJson: ReadJson
+): Promise<Pick<ResolverConfig, 'baseUrl' | 'paths'>> {
+  let configPath: string | undefined = 'tsconfig.json';
+  let baseUrl: string | undefined;
+  let paths: PathAlias[] | undefined;
+  let pathsDir = '';
+
+  // Settings in the extending config win over the ones it extends
+  for (let depth = 0; configPath && depth <= MAX_TSCONFIG_EXTENDS; depth++) {
+    const tsconfig = await readJson(configPath);
+    if (!tsconfig) {
+      break;
+    }
+
+    const configDir = dirname(configPath);
+    const options = isJsonObject(tsconfig.compilerOptions) ? tsconfig.compilerOptions : {};
+    if (baseUrl === undefined && typeof options.baseUrl === 'string') {
+      baseUrl = joinPath(configDir, options.baseUrl);
+    }
+    if (paths === undefined && isJsonObject(options.paths)) {
+      paths = Object.entries(options.paths)
+        .filter((entry): entry is [string, string[]] =>
+          Array.isArray(entry[1]) && entry[1].every(target => typeof target === 'string')
+        )
+        .map(([pattern, targets]) => ({ pattern, targets }));
+      pathsDir = configDir;
+    }
+
+    // Configs extended from packages are not part of the repository
+    const parent = tsconfig.extends;
+    configPath = typeof parent === 'string' && parent.startsWith('.')
+      ? joinPath(configDir, parent.endsWith('.json') ? parent : `${parent}.json`)
+      : undefined;
+  }
+
+  // Path targets are relative to baseUrl, or to the config declaring them when there is none
+  const targetDir = baseUrl ?? pathsDir;
+  return {
+    baseUrl,
+    paths: (paths || []).map(({ pattern, targets }) => ({
+      pattern,
+      targets: targets.map(target => joinPath(targetDir, target)),
+    })),
+  };
+}
+
+/**
+ * Finds the packages declared in the root package.json workspaces
+ */
+async function loadWorkspacePackages(
+  readJson: ReadJson,
+  files: Set<string> | undefined
+): Promise<WorkspacePackage[]> {
+  const rootPackage = await readJson('package.json');
+  // Yarn also accepts an object with the patterns under "packages"
+  const declared = rootPackage?.workspaces;
+  const workspaces = isJsonObject(declared) ? declared.packages : declared;
+  if (!Array.isArray(workspaces)) {
+    return [];
+  }
+
+  const patterns = workspaces
+    .filter((pattern): pattern is string => typeof pattern === 'string')
+    .map(pattern => joinPath('', pattern));
+  let dirs: string[];
+  if (files) {
+    dirs = [...files]
+      .filter(path => path.endsWith('/package.json') && !path.includes('node_modules/'))
+      .map(dirname)
+      .filter(dir => patterns.some(pattern => matchesGlob(dir, pattern)));
+  } else {
+    // Without the file tree, wildcard patterns cannot be expanded
+    dirs = patterns.filter(pattern => !pattern.includes('*'));
+  }
+
+  const packages: WorkspacePackage[] = [];
+  for (const dir of dirs.slice(0, MAX_WORKSPACE_PACKAGES)) {
+    const manifest = await readJson(`${dir}/package.json`);
+    if (manifest && typeof manifest.name === 'string') {
+      packages.push({ name: manifest.name, dir, entries: packageEntries(manifest) });
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Lists the files a workspace package is imported through, preferring sources over build output
+ */
+function packageEntries(manifest: JsonObject): string[] {
+  const entries: string[] = [];
+
+  for (const field of ['source', 'types', 'typings', 'module', 'main']) {
+    const entry = manifest[field];
+    if (typeof entry === 'string') {
+      const modulePath = joinPath('', entry).replace(/\.d\.ts$/, '');
+      entries.push(modulePath.replace(BUILD_DIRECTORY, 'src/'), modulePath);
+    }
+  }
+
+  entries.push('src/index', 'index');
+  return [...new Set(entries)];
+}
+
+function probe(modulePath: string): string[] {
+  // Single-file components are always imported with their extension
+  if (/\.vue$/.test(modulePath)) {
+    return [modulePath];
+  }
+
+  const stem = modulePath.replace(SCRIPT_EXTENSION, '');
+  const candidates = CANDIDATE_SUFFIXES.map(suffix => `${stem}${suffix}`);
+
+  // Explicit extensions other than .js and .jsx, e.g. .mjs, are tried as written first
+  return [...new Set(/\.(ts|tsx|mjs|cjs)$/.test(modulePath) ? [modulePath, ...candidates] : candidates)];
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+function joinPath(base: string, relative: string): string {
+  const segments = base ? base.split('/') : [];
+
+  for (const segment of relative.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+}
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -27,7 +27,7 @@ describe('InstructionProcessor - Branch Coverage', () => {
 
       // Assert
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Invalid ignore pattern: test]pattern');
+      expect(result.errors).toContainEqual(expect.objectContaining({ message: 'Invalid ignore pattern: test]pattern' }));
     });
 
     it('should handle patterns with multiple brackets', () => {
@@ -76,7 +76,7 @@ describe('InstructionProcessor - Branch Coverage', () => {
 
       // Assert
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Invalid ignore pattern: test@#$%.js');
+      expect(result.errors).toContainEqual(expect.objectContaining({ message: 'Invalid ignore pattern: test@#$%.js' }));
     });
 
     it('should handle empty patterns', () => {
@@ -93,7 +93,7 @@ describe('InstructionProcessor - Branch Coverage', () => {
 
       // Assert
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Invalid ignore pattern: ');
+      expect(result.errors).toContainEqual(expect.objectContaining({ message: 'Invalid ignore pattern: ' }));
     });
 
     it('should handle patterns that throw exceptions', () => {
@@ -1,5 +1,6 @@
-import { InstructionProcessor } from './instruction-processor';
+import { diffConfigs, getConfigForPath, InstructionProcessor } from './instruction-processor';
 import { GitHubClient } from '../github/client';
+import { defaultConfig } from '../config/default';
 
 jest.mock('../github/client');
 
@@ -41,12 +42,12 @@ describe('InstructionProcessor', () => {
       const result = await processor.fetchCustomInstructions(owner, repo);
 
       // Assert
-      expect(mockGitHubClient.getFile).toHaveBeenCalledWith(
+      expect(mockGitHubClient.getFile.mock.calls).toContainEqual([
         owner,
         repo,
         '.reviewthor.md',
         'HEAD'
-      );
+      ]);
       expect(result).not.toBeNull();
       expect(result?.focusAreas).toEqual([
         'Performance optimization',
@@ -90,6 +91,218 @@ describe('InstructionProcessor', () => {
     });
   });
 
+  describe('fetchRepositoryConfig', () => {
+    it('should parse the first configuration file that exists', async () => {
+      // Arrange
+      mockGitHubClient.getFile.mockImplementation((_owner, repo, path) =>
+        Promise.resolve(repo === 'repo' && path === '.reviewthor.json' ? '{ "maxCommentsPerPR": 5, "maxComments": 1 }' : null)
+      );
+
+      // Act
+      const result = await processor.fetchRepositoryConfig('owner', 'repo');
+
+      // Assert
+      expect(mockGitHubClient.getFile.mock.calls).toContainEqual(['owner', 'repo', '.reviewthor.yml', 'HEAD']);
+      expect(result).toEqual({
+        config: { maxCommentsPerPR: 5 },
+        errors: [{ path: '.reviewthor.json', line: 1, message: 'Unknown setting "maxComments".' }],
+      });
+    });
+
+    it('should return null if no configuration file exists', async () => {
+      // Arrange
+      mockGitHubClient.getFile.mockResolvedValue(null);
+
+      // Act
+      const result = await processor.fetchRepositoryConfig('owner', 'repo');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockGitHubClient.getFile.mock.calls).toHaveLength(6);
+      expect(mockGitHubClient.getFile.mock.calls).toContainEqual(['owner', '.github', '.reviewthor.yml', 'HEAD']);
+    });
+
+    it('should layer the repository configuration over the organization configuration and its presets', async () => {
+      // Arrange
+      const files: Record<string, string> = {
+        'owner/.github/.reviewthor.yml': [
+          'extends: [shared/presets/strict.yml]',
+          'focusAreas: [Security]',
+          'maxCommentsPerPR: 10',
+        ].join('\n'),
+        'shared/presets/strict.yml': 'minimumSeverity: error\nmaxCommentsPerPR: 3\n',
+        'owner/repo/.reviewthor.yml': 'focusAreas: [Accessibility]\nmaxCommentsPerPR: 5\n',
+      };
+      mockGitHubClient.getFile.mockImplementation((owner, repo, path) => Promise.resolve(files[`${owner}/${repo}/${path}`] ?? null));
+
+      // Act
+      const result = await processor.fetchRepositoryConfig('owner', 'repo');
+
+      // Assert
+      expect(result).toEqual({
+        config: {
+          minimumSeverity: 'error',
+          maxCommentsPerPR: 5,
+          focusAreas: ['Security', 'Accessibility'],
+        },
+        errors: [],
+      });
+    });
+
+    it('should leave out the settings the organization locks', async () => {
+      // Arrange
+      const files: Record<string, string> = {
+        'owner/.github/.reviewthor.yml': 'locked: [enabledCategories, minimumSeverity]\nminimumSeverity: warning\n',
+        'owner/repo/.reviewthor.yml': [
+          'extends: [owner/missing]',
+          'enabledCategories: [documentation]',
+          'locked: []',
+          'maxCommentsPerPR: 5',
+          'overrides:',
+          '  - files: [legacy/**]',
+          '    minimumSeverity: error',
+          '    focusAreas: [Legacy code]',
+        ].join('\n'),
+      };
+      mockGitHubClient.getFile.mockImplementation((owner, repo, path) => Promise.resolve(files[`${owner}/${repo}/${path}`] ?? null));
+
+      // Act
+      const result = await processor.fetchRepositoryConfig('owner', 'repo');
+
+      // Assert
+      expect(result).toEqual({
+        config: {
+          locked: ['enabledCategories', 'minimumSeverity'],
+          minimumSeverity: 'warning',
+          maxCommentsPerPR: 5,
+          overrides: [{ files: ['legacy/**'], focusAreas: ['Legacy code'] }],
+        },
+        errors: [
+          { path: '.reviewthor.yml', message: 'enabledCategories is locked by the organization configuration.' },
+          { path: '.reviewthor.yml', message: 'overrides[0].minimumSeverity is locked by the organization configuration.' },
+          { path: '.reviewthor.yml', message: 'locked only applies in the organization configuration.' },
+          { path: '.reviewthor.yml', message: 'Preset "owner/missing" was not found.' },
+        ],
+      });
+    });
+
+    it('should read the repository at the given commit and other repositories at their default branch', async () => {
+      // Arrange
+      mockGitHubClient.getFile.mockImplementation((owner, repo, path) =>
+        Promise.resolve(path === '.reviewthor.yml' && repo === 'repo'
+          ? 'extends: [owner/repo/presets/base.yml, shared/presets]\n'
+          : null)
+      );
+
+      // Act
+      await processor.fetchRepositoryConfig('owner', 'repo', 'base-sha');
+
+      // Assert
+      expect(mockGitHubClient.getFile.mock.calls).toContainEqual(['owner', '.github', '.reviewthor.yml', 'HEAD']);
+      expect(mockGitHubClient.getFile.mock.calls).toContainEqual(['owner', 'repo', '.reviewthor.yml', 'base-sha']);
+      expect(mockGitHubClient.getFile.mock.calls).toContainEqual(['owner', 'repo', 'presets/base.yml', 'base-sha']);
+      expect(mockGitHubClient.getFile.mock.calls).toContainEqual(['shared', 'presets', '.reviewthor.yml', 'HEAD']);
+    });
+
+    it('should read presets that extend each other once', async () => {
+      // Arrange
+      const files: Record<string, string> = {
+        'owner/repo/.reviewthor.yml': 'extends: [owner/presets/a.yml]\n',
+        'owner/presets/a.yml': 'extends: [owner/presets/b.yml]\ncustomRules: [Rule A]\n',
+        'owner/presets/b.yml': 'extends: [owner/presets/a.yml]\ncustomRules: [Rule B]\n',
+      };
+      mockGitHubClient.getFile.mockImplementation((owner, repo, path) => Promise.resolve(files[`${owner}/${repo}/${path}`] ?? null));
+
+      // Act
+      const result = await processor.fetchRepositoryConfig('owner', 'repo');
+
+      // Assert
+      expect(result).toEqual({ config: { customRules: ['Rule B', 'Rule A'] }, errors: [] });
+      expect(mockGitHubClient.getFile.mock.calls).toContainEqual(['owner', 'presets', 'a.yml', 'HEAD']);
+      expect(mockGitHubClient.getFile.mock.calls).toHaveLength(6);
+    });
+  });
+
+  describe('fetchDirectoryOverrides', () => {
+    it('should turn configuration files in subdirectories into overrides, shallowest first', async () => {
+      // Arrange
+      const files: Record<string, string> = {
+        'packages/legacy/.reviewthor.yml': 'minimumSeverity: error\n',
+        'packages/.reviewthor.yml': 'focusAreas:\n  - Shared packages\nmaxFileSize: 10\n',
+      };
+      mockGitHubClient.getFile.mockImplementation((_owner, _repo, path) => Promise.resolve(files[path] ?? null));
+
+      // Act
+      const result = await processor.fetchDirectoryOverrides('owner', 'repo', [
+        'packages/legacy/src/old.js',
+        'packages/shared/index.js',
+        'README.md',
+      ]);
+
+      // Assert
+      expect(mockGitHubClient.getFile.mock.calls.map(call => call[2])).toEqual([
+        'packages/.reviewthor.yml',
+        'packages/legacy/.reviewthor.yml',
+        'packages/shared/.reviewthor.yml',
+        'packages/legacy/src/.reviewthor.yml',
+      ]);
+      expect(result).toEqual({
+        overrides: [
+          { files: ['packages/**'], focusAreas: ['Shared packages'] },
+          { files: ['packages/legacy/**'], minimumSeverity: 'error' },
+        ],
+        errors: [{ path: 'packages/.reviewthor.yml', line: 3, message: 'Unknown setting "maxFileSize".' }],
+      });
+    });
+  });
+
+  describe('getConfigForPath', () => {
+    it('should apply the overrides matching the path in order', () => {
+      // Arrange
+      const config = {
+        ...processor.getDefaultConfig(),
+        overrides: [
+          { files: ['packages/**'], minimumSeverity: 'warning' as const, focusAreas: ['Shared packages'] },
+          { files: ['packages/legacy/**'], minimumSeverity: 'error' as const, templates: ['react-review'] },
+          { files: ['infra/**'], enabledCategories: ['security'] },
+        ],
+      };
+
+      // Act
+      const legacy = getConfigForPath(config, 'packages/legacy/old.js');
+      const other = getConfigForPath(config, 'src/index.js');
+
+      // Assert
+      expect(legacy.minimumSeverity).toBe('error');
+      expect(legacy.focusAreas).toEqual([...config.focusAreas, 'Shared packages']);
+      expect(legacy.templates).toEqual(['react-review']);
+      expect(legacy.enabledCategories).toEqual(config.enabledCategories);
+      expect(other).toBe(config);
+    });
+  });
+
+  describe('diffConfigs', () => {
+    it('should list changed settings, comparing settings groups one setting at a time', () => {
+      // Arrange
+      const before = processor.getDefaultConfig();
+      const after = {
+        ...before,
+        maxCommentsPerPR: 5,
+        reactSettings: { ...before.reactSettings, enabled: false },
+      };
+
+      // Act
+      const changes = diffConfigs(before, after);
+
+      // Assert
+      expect(changes).toEqual([
+        { setting: 'maxCommentsPerPR', before: before.maxCommentsPerPR, after: 5 },
+        { setting: 'reactSettings.enabled', before: true, after: false },
+      ]);
+      expect(diffConfigs(before, processor.getDefaultConfig())).toEqual([]);
+    });
+  });
+
   describe('parseInstructionFile', () => {
     it('should parse all sections correctly', () => {
       // Arrange
@@ -181,6 +394,62 @@ error
       // Assert
       expect(result.severity).toBe('error');
     });
+
+    it('should apply settings from the repository configuration file', () => {
+      // Arrange
+      const custom = {
+        focusAreas: ['Testing'],
+        customRules: [],
+        ignorePatterns: ['docs/**'],
+        rawContent: 'test',
+      };
+
+      // Act
+      const result = processor.mergeWithDefaults(custom, {
+        maxCommentsPerPR: 5,
+        focusAreas: ['Accessibility'],
+        ignoredPaths: ['legacy/**'],
+        severity: 'info',
+        reactSettings: { enabled: false },
+      });
+
+      // Assert
+      expect(result.maxCommentsPerPR).toBe(5);
+      expect(result.focusAreas).toEqual(expect.arrayContaining(['Code quality', 'Accessibility', 'Testing']));
+      expect(result.ignoredPaths).toEqual(['legacy/**']);
+      expect(result.ignorePatterns).toContain('docs/**');
+      expect(result.severity).toBe('info');
+      expect(result.reactSettings).toEqual({ ...defaultConfig.reactSettings, enabled: false });
+      expect(result.expressSettings).toEqual(defaultConfig.expressSettings);
+    });
+
+    it('should ignore instructions for locked settings', () => {
+      // Arrange
+      const custom = {
+        focusAreas: ['Testing'],
+        customRules: [],
+        ignorePatterns: ['src/**'],
+        rawContent: 'test',
+        severity: 'info' as const,
+      };
+
+      // Act
+      const result = processor.mergeWithDefaults(custom, { locked: ['ignorePatterns', 'severity'], severity: 'error' });
+
+      // Assert
+      expect(result.ignorePatterns).toEqual(processor.getDefaultConfig().ignorePatterns);
+      expect(result.severity).toBe('error');
+      expect(result.focusAreas).toContain('Testing');
+      expect(result.locked).toEqual(['ignorePatterns', 'severity']);
+    });
+
+    it('should use defaults when the repository has no instructions', () => {
+      // Act
+      const result = processor.mergeWithDefaults(null);
+
+      // Assert
+      expect(result).toEqual(processor.getDefaultConfig());
+    });
   });
 
   describe('validateInstructions', () => {
@@ -215,7 +484,7 @@ error
 
       // Assert
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Invalid ignore pattern: [invalid pattern');
+      expect(result.errors).toContainEqual(expect.objectContaining({ message: 'Invalid ignore pattern: [invalid pattern' }));
     });
 
     it('should detect excessively long rules', () => {
@@ -232,7 +501,34 @@ error
 
       // Assert
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Focus area too long (max 200 characters)');
+      expect(result.errors).toContainEqual(expect.objectContaining({ message: 'Focus area too long (max 200 characters)' }));
+    });
+
+    it('should report the line of each problem and leave out the invalid entries', () => {
+      // Arrange
+      const content = [
+        '# ReviewThor Custom Instructions',
+        '',
+        '## Custom Rules',
+        '- No var',
+        `- ${'B'.repeat(201)}`,
+        '',
+        '## Ignore Patterns',
+        '- docs/**',
+        '- legacy code/**',
+      ].join('\n');
+      const instructions = processor.parseInstructionFile(content);
+
+      // Act
+      const result = processor.validateInstructions(instructions);
+
+      // Assert
+      expect(result.errors).toEqual([
+        { path: '.reviewthor.md', line: 5, message: 'Custom rule too long (max 200 characters)' },
+        { path: '.reviewthor.md', line: 9, message: 'Invalid ignore pattern: legacy code/**' },
+      ]);
+      expect(result.instructions.customRules).toEqual(['No var']);
+      expect(result.instructions.ignorePatterns).toEqual(['docs/**']);
     });
   });
 });
\ No newline at end of file
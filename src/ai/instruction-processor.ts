@@ -1,4 +1,17 @@
 import { GitHubClient } from '../github/client';
+import { ConfigurationChange, ConfigurationError } from '../github/review-summary';
+import { defaultConfig, ReviewSettings } from '../config/default';
+import {
+  DIRECTORY_CONFIG_SCHEMA,
+  ParsedRepositoryConfig,
+  parseRepositoryConfig,
+  RepositoryConfig,
+  REPOSITORY_CONFIG_FILES,
+} from '../config/repository-config';
+import { matchesGlob } from '../utils/glob';
+
+// Settings whose lists are added to, rather than replaced, when configurations are layered
+const ADDITIVE_SETTINGS = ['focusAreas', 'customRules', 'ignorePatterns', 'templates', 'overrides'];
 
 export interface CustomInstructions {
   focusAreas: string[];
@@ -8,23 +21,57 @@ export interface CustomInstructions {
   severity?: 'error' | 'warning' | 'info';
 }
 
-export interface ReviewConfig {
+export interface ReviewConfig extends ReviewSettings {
   focusAreas: string[];
   customRules: string[];
   ignorePatterns: string[];
   severity: 'error' | 'warning' | 'info';
   maxCommentsPerPR: number;
   enabledChecks: string[];
+  /** IDs of prompt templates added to every review */
+  templates: string[];
+  /** Settings for the files matching some globs, applied in order */
+  overrides: PathOverride[];
+  /** Settings repositories cannot change, set by the organization configuration */
+  locked: string[];
+}
+
+export interface PathOverride
+  extends Partial<Pick<ReviewConfig, 'severity' | 'minimumSeverity' | 'enabledCategories' | 'focusAreas' | 'customRules' | 'templates'>> {
+  files: string[];
+}
+
+export interface DirectoryOverrides {
+  overrides: PathOverride[];
+  errors: ConfigurationError[];
+}
+
+interface ConfigSource {
+  owner: string;
+  repo: string;
+  /** Path of the file; without one the usual configuration file names are tried */
+  path?: string;
+  ref: string;
+  /** Prepended to the path in reported problems, empty for the reviewed repository */
+  prefix: string;
 }
 
 export interface ValidationResult {
   isValid: boolean;
-  errors: string[];
+  errors: ConfigurationError[];
+  /** Instructions without the invalid entries */
+  instructions: CustomInstructions;
 }
 
 export class InstructionProcessor {
   private static readonly MAX_RULE_LENGTH = 200;
   private static readonly DEFAULT_BRANCH = 'HEAD';
+  private static readonly INSTRUCTIONS_FILE = '.reviewthor.md';
+  private static readonly DIRECTORY_CONFIG_FILE = '.reviewthor.yml';
+  private static readonly ORGANIZATION_CONFIG_REPO = '.github';
+  private static readonly MAX_PRESET_DEPTH = 3;
+  // Every ancestor directory of every file is a candidate, so lookups are capped
+  private static readonly MAX_DIRECTORY_CONFIG_LOOKUPS = 20;
 
   constructor(private readonly githubClient: GitHubClient) {}
 
@@ -32,15 +79,15 @@ export class InstructionProcessor {
    * Fetches custom instructions from .reviewthor.md in the repository
    * @param owner - Repository owner
    * @param repo - Repository name
+   * @param ref - Commit to read the file at, such as the base of a pull request
    * @returns Custom instructions or null if file doesn't exist
    */
-  async fetchCustomInstructions(owner: string, repo: string): Promise<CustomInstructions | null> {
-    const content = await this.githubClient.getFile(
-      owner,
-      repo,
-      '.reviewthor.md',
-      InstructionProcessor.DEFAULT_BRANCH
-    );
+  async fetchCustomInstructions(
+    owner: string,
+    repo: string,
+    ref = InstructionProcessor.DEFAULT_BRANCH
+  ): Promise<CustomInstructions | null> {
+    const content = await this.githubClient.getFile(owner, repo, InstructionProcessor.INSTRUCTIONS_FILE, ref);
 
     if (!content) {
       return null;
@@ -49,6 +96,83 @@ export class InstructionProcessor {
     return this.parseInstructionFile(content);
   }
 
+  /**
+   * Fetches structured settings from the organization configuration in the owner's .github repository,
+   * then from .reviewthor.yml (or .reviewthor.yaml or .reviewthor.json) in the repository, which wins over it
+   * Each file is layered over the presets it extends; settings the organization locks are left out of the repository's files
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Commit to read the repository's files at; other repositories are read at their default branch
+   * @returns Valid settings and the problems found in the files, or null if no file exists
+   */
+  async fetchRepositoryConfig(
+    owner: string,
+    repo: string,
+    ref = InstructionProcessor.DEFAULT_BRANCH
+  ): Promise<ParsedRepositoryConfig | null> {
+    const organizationRepo = InstructionProcessor.ORGANIZATION_CONFIG_REPO;
+    const organization = repo === organizationRepo
+      ? null
+      : await this.resolveConfig(
+        { owner, repo: organizationRepo, ref: InstructionProcessor.DEFAULT_BRANCH, prefix: `${owner}/${organizationRepo}/` },
+        [],
+        true
+      );
+    const repository = await this.resolveConfig(
+      { owner, repo, ref, prefix: '' },
+      organization?.config.locked || [],
+      repo === organizationRepo
+    );
+
+    if (!organization && !repository) {
+      return null;
+    }
+
+    return {
+      config: layerConfigs(organization?.config || {}, repository?.config || {}),
+      errors: [...(organization?.errors || []), ...(repository?.errors || [])],
+    };
+  }
+
+  /**
+   * Fetches the .reviewthor.yml files in the directories above the given files
+   * Each one applies to the files below its directory, after the root configuration's overrides
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param paths - Paths of the files under review
+   * @param locked - Settings locked by the organization configuration, left out of the files
+   * @param ref - Commit to read the files at
+   * @returns Overrides ordered from the shallowest directory to the deepest, and the problems found in them
+   */
+  async fetchDirectoryOverrides(
+    owner: string,
+    repo: string,
+    paths: string[],
+    locked: string[] = [],
+    ref = InstructionProcessor.DEFAULT_BRANCH
+  ): Promise<DirectoryOverrides> {
+    const directories = [...new Set(paths.flatMap(path => {
+      const segments = path.split('/').slice(0, -1);
+      return segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+    }))].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+
+    const result: DirectoryOverrides = { overrides: [], errors: [] };
+    for (const directory of directories.slice(0, InstructionProcessor.MAX_DIRECTORY_CONFIG_LOOKUPS)) {
+      const path = `${directory}/${InstructionProcessor.DIRECTORY_CONFIG_FILE}`;
+      const content = await this.githubClient.getFile(owner, repo, path, ref);
+      if (content === null) {
+        continue;
+      }
+
+      const parsed = parseRepositoryConfig(path, content, DIRECTORY_CONFIG_SCHEMA);
+      const allowed = removeLockedSettings(parsed.config, locked, path);
+      result.overrides.push({ ...allowed.config, files: [`${directory}/**`] } as PathOverride);
+      result.errors.push(...parsed.errors, ...allowed.errors);
+    }
+
+    return result;
+  }
+
   /**
    * Parses the instruction file content
    * @param content - Raw markdown content
@@ -87,55 +211,80 @@ export class InstructionProcessor {
   }
 
   /**
-   * Merges custom instructions with default configuration
-   * @param custom - Custom instructions
+   * Merges custom instructions and repository settings with default configuration
+   * Lists from both files are added to the defaults; other settings replace them, group by group
+   * @param custom - Custom instructions from .reviewthor.md, or null if the repository has none
+   * @param repositoryConfig - Settings from .reviewthor.yml; instructions for the settings it locks are ignored
+   * @param directoryOverrides - Overrides from .reviewthor.yml files in subdirectories, applied after the root ones
    * @returns Complete review configuration
    */
-  mergeWithDefaults(custom: CustomInstructions): ReviewConfig {
-    const defaults = this.getDefaultConfig();
+  mergeWithDefaults(
+    custom: CustomInstructions | null,
+    repositoryConfig: RepositoryConfig = {},
+    directoryOverrides: PathOverride[] = []
+  ): ReviewConfig {
+    const locked = repositoryConfig.locked || [];
+    const instructions: RepositoryConfig = Object.fromEntries(
+      Object.entries({
+        focusAreas: custom?.focusAreas,
+        customRules: custom?.customRules,
+        ignorePatterns: custom?.ignorePatterns,
+        severity: custom?.severity,
+      }).filter(([key, value]) => value !== undefined && !locked.includes(key))
+    );
 
-    return {
-      focusAreas: [...new Set([...defaults.focusAreas, ...custom.focusAreas])],
-      customRules: [...defaults.customRules, ...custom.customRules],
-      ignorePatterns: [...defaults.ignorePatterns, ...custom.ignorePatterns],
-      severity: custom.severity || defaults.severity,
-      maxCommentsPerPR: defaults.maxCommentsPerPR,
-      enabledChecks: defaults.enabledChecks,
-    };
+    return [repositoryConfig, instructions, { overrides: directoryOverrides }]
+      .reduce<RepositoryConfig>(layerConfigs, this.getDefaultConfig()) as ReviewConfig;
   }
 
   /**
    * Validates custom instructions
    * @param instructions - Instructions to validate
-   * @returns Validation result
+   * @returns Validation result with the line of each problem in .reviewthor.md, and the instructions without invalid entries
    */
   validateInstructions(instructions: CustomInstructions): ValidationResult {
-    const errors: string[] = [];
+    const errors: ConfigurationError[] = [];
+    const lines = instructions.rawContent.split('\n');
+    const report = (item: string, message: string): void => {
+      const index = lines.findIndex(line => parseListItem(line) === item);
+      errors.push({
+        path: InstructionProcessor.INSTRUCTIONS_FILE,
+        ...(index >= 0 ? { line: index + 1 } : {}),
+        message,
+      });
+    };
 
     // Validate focus areas length
-    for (const area of instructions.focusAreas) {
+    const focusAreas = instructions.focusAreas.filter(area => {
       if (area.length > InstructionProcessor.MAX_RULE_LENGTH) {
-        errors.push('Focus area too long (max 200 characters)');
+        report(area, 'Focus area too long (max 200 characters)');
+        return false;
       }
-    }
+      return true;
+    });
 
     // Validate custom rules length
-    for (const rule of instructions.customRules) {
+    const customRules = instructions.customRules.filter(rule => {
       if (rule.length > InstructionProcessor.MAX_RULE_LENGTH) {
-        errors.push('Custom rule too long (max 200 characters)');
+        report(rule, 'Custom rule too long (max 200 characters)');
+        return false;
       }
-    }
+      return true;
+    });
 
     // Validate ignore patterns
-    for (const pattern of instructions.ignorePatterns) {
+    const ignorePatterns = instructions.ignorePatterns.filter(pattern => {
       if (!this.isValidGlobPattern(pattern)) {
-        errors.push(`Invalid ignore pattern: ${pattern}`);
+        report(pattern, `Invalid ignore pattern: ${pattern}`);
+        return false;
       }
-    }
+      return true;
+    });
 
     return {
       isValid: errors.length === 0,
       errors,
+      instructions: { ...instructions, focusAreas, customRules, ignorePatterns },
     };
   }
 
@@ -145,6 +294,7 @@ export class InstructionProcessor {
    */
   getDefaultConfig(): ReviewConfig {
     return {
+      ...structuredClone(defaultConfig),
       focusAreas: [
         'Code quality',
         'Bug detection',
@@ -166,7 +316,7 @@ export class InstructionProcessor {
         '*.bundle.js',
       ],
       severity: 'warning',
-      maxCommentsPerPR: 20,
+      maxCommentsPerPR: defaultConfig.maxCommentsPerPR,
       enabledChecks: [
         'syntax',
         'security',
@@ -174,21 +324,98 @@ export class InstructionProcessor {
         'best-practices',
         'type-safety',
       ],
+      templates: [],
+      overrides: [],
+      locked: [],
     };
   }
 
+  /**
+   * Reads a configuration file and layers it over the presets it extends
+   * @param source - Repository and path of the file
+   * @param locked - Settings the file and its presets may not change
+   * @param allowLocks - Whether the file may lock settings itself
+   * @param seen - Files already read, so presets extending each other are read once
+   * @param depth - Number of presets between this file and the first one read
+   * @returns Settings and problems of the file and its presets, or null if the file does not exist
+   */
+  private async resolveConfig(
+    source: ConfigSource,
+    locked: string[],
+    allowLocks: boolean,
+    seen = new Set<string>(),
+    depth = 0
+  ): Promise<ParsedRepositoryConfig | null> {
+    const key = `${source.owner}/${source.repo}/${source.path ?? ''}`;
+    if (seen.has(key)) {
+      return { config: {}, errors: [] };
+    }
+    seen.add(key);
+
+    for (const path of source.path ? [source.path] : REPOSITORY_CONFIG_FILES) {
+      const content = await this.githubClient.getFile(source.owner, source.repo, path, source.ref);
+      if (content === null) {
+        continue;
+      }
+
+      const label = `${source.prefix}${path}`;
+      const parsed = parseRepositoryConfig(label, content);
+      const { config: { extends: presets = [], ...settings }, errors } = removeLockedSettings(parsed.config, locked, label);
+      errors.unshift(...parsed.errors);
+      if (!allowLocks && settings.locked) {
+        errors.push({ path: label, message: 'locked only applies in the organization configuration.' });
+        delete settings.locked;
+      }
+
+      let base: RepositoryConfig = {};
+      for (const preset of presets) {
+        const [owner, repo, ...rest] = preset.split('/');
+        if (!owner || !repo) {
+          errors.push({ path: label, message: `Preset "${preset}" must be owner/repo or owner/repo/path/to/preset.yml.` });
+          continue;
+        }
+        if (depth >= InstructionProcessor.MAX_PRESET_DEPTH) {
+          errors.push({ path: label, message: `Preset "${preset}" is nested too deeply.` });
+          continue;
+        }
+
+        // Presets in the same repository are read at the same commit as the file extending them
+        const sameRepository = owner === source.owner && repo === source.repo;
+        const resolved = await this.resolveConfig(
+          {
+            owner,
+            repo,
+            path: rest.join('/') || undefined,
+            ref: sameRepository ? source.ref : InstructionProcessor.DEFAULT_BRANCH,
+            prefix: `${owner}/${repo}/`,
+          },
+          locked,
+          allowLocks,
+          seen,
+          depth + 1
+        );
+        if (!resolved) {
+          errors.push({ path: label, message: `Preset "${preset}" was not found.` });
+          continue;
+        }
+
+        base = layerConfigs(base, resolved.config);
+        errors.push(...resolved.errors);
+      }
+
+      return { config: layerConfigs(base, settings), errors };
+    }
+
+    return null;
+  }
+
   private parseListSection(lines: string[]): string[] {
     const items: string[] = [];
 
     for (const line of lines) {
-      const trimmed = line.trim();
-      // Match lines starting with -, *, or numbered lists
-      const match = trimmed.match(/^[-*]\s+(.+)$|^\d+\.\s+(.+)$/);
-      if (match) {
-        const item = match[1] || match[2];
-        if (item) {
-          items.push(item.trim());
-        }
+      const item = parseListItem(line);
+      if (item) {
+        items.push(item);
       }
     }
 
@@ -214,4 +441,119 @@ export class InstructionProcessor {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Applies the overrides matching a path to a review configuration
+ * Lists of focus areas, rules and templates are added to; other settings are replaced
+ * @param config - Review configuration of the repository
+ * @param path - Path of a reviewed file
+ * @returns Effective configuration for the file
+ */
+export function getConfigForPath(config: ReviewConfig, path: string): ReviewConfig {
+  return config.overrides
+    .filter(override => override.files.some(pattern => matchesGlob(path, pattern)))
+    .reduce<ReviewConfig>((effective, override) => ({
+      ...effective,
+      severity: override.severity ?? effective.severity,
+      minimumSeverity: override.minimumSeverity ?? effective.minimumSeverity,
+      enabledCategories: override.enabledCategories ?? effective.enabledCategories,
+      focusAreas: [...new Set([...effective.focusAreas, ...(override.focusAreas || [])])],
+      customRules: [...effective.customRules, ...(override.customRules || [])],
+      templates: [...new Set([...effective.templates, ...(override.templates || [])])],
+    }), config);
+}
+
+/**
+ * Lists the effective settings that differ between two configurations
+ * Settings groups such as reactSettings are compared one setting at a time
+ * @param before - Configuration in use
+ * @param after - Configuration to compare with it
+ * @returns Changed settings, in the order of the configuration
+ */
+export function diffConfigs(before: ReviewConfig, after: ReviewConfig): ConfigurationChange[] {
+  const changes: ConfigurationChange[] = [];
+  const compare = (setting: string, from: unknown, to: unknown): void => {
+    if (isSettingsGroup(from) && isSettingsGroup(to)) {
+      for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        compare(`${setting}.${key}`, from[key], to[key]);
+      }
+    } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ setting, before: from, after: to });
+    }
+  };
+
+  const from: Record<string, unknown> = { ...before };
+  const to: Record<string, unknown> = { ...after };
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    compare(key, from[key], to[key]);
+  }
+
+  return changes;
+}
+
+/**
+ * Layers settings over others the same way repository settings go over the defaults
+ * Lists of focus areas, rules, patterns, templates and overrides are added to; other settings replace, group by group
+ * @param base - Settings underneath
+ * @param top - Settings that win
+ * @returns Layered settings
+ */
+function layerConfigs(base: RepositoryConfig, top: RepositoryConfig): RepositoryConfig {
+  const layered: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(top) as [string, unknown][]) {
+    const current = layered[key];
+    if (ADDITIVE_SETTINGS.includes(key) && Array.isArray(current) && Array.isArray(value)) {
+      const items: unknown[] = [...(current as unknown[]), ...(value as unknown[])];
+      layered[key] = key === 'overrides' ? items : [...new Set(items)];
+    } else {
+      layered[key] = isSettingsGroup(current) && isSettingsGroup(value) ? { ...current, ...value } : value;
+    }
+  }
+
+  return layered;
+}
+
+/**
+ * Leaves out the settings a file may not change, including those in its override blocks
+ * @param config - Settings read from the file
+ * @param locked - Settings locked by the organization configuration
+ * @param path - Path of the file, for the reported problems
+ * @returns The remaining settings, and a problem for each one left out
+ */
+function removeLockedSettings<T extends object>(config: T, locked: string[], path: string): { config: T; errors: ConfigurationError[] } {
+  const errors: ConfigurationError[] = [];
+  const isAllowed = (key: string, name: string): boolean => {
+    if (!locked.includes(key)) {
+      return true;
+    }
+    errors.push({ path, message: `${name} is locked by the organization configuration.` });
+    return false;
+  };
+
+  const remaining: Record<string, unknown> = Object.fromEntries(
+    Object.entries(config).filter(([key]) => isAllowed(key, key))
+  );
+  if (Array.isArray(remaining.overrides)) {
+    remaining.overrides = remaining.overrides.map((override: PathOverride, index) => Object.fromEntries(
+      Object.entries(override).filter(([key]) => key === 'files' || isAllowed(key, `overrides[${index}].${key}`))
+    ));
+  }
+
+  return { config: remaining as T, errors };
+}
+
+/**
+ * Reads the text of a markdown list item
+ * @param line - Line of a .reviewthor.md section
+ * @returns Item text, or undefined if the line is not a list item
+ */
+function parseListItem(line: string): string | undefined {
+  // Match lines starting with -, *, or numbered lists
+  const match = line.trim().match(/^[-*]\s+(.+)$|^\d+\.\s+(.+)$/);
+  return (match?.[1] || match?.[2])?.trim() || undefined;
+}
+
+function isSettingsGroup(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -30,6 +30,45 @@ describe('PromptManager', () => {
       );
     });
 
+    it('should format a suggested change block', () => {
+      // Arrange
+      const issue: Issue = {
+        file: 'src/index.js',
+        line: 10,
+        severity: 'warning',
+        message: 'Use const',
+        category: 'code-quality',
+        suggestion: 'const x = 1;',
+      };
+
+      // Act
+      const comment = promptManager.formatComment(issue, true);
+
+      // Assert
+      expect(comment).toBe(
+        '⚠️ **Code Quality**: Use const\n\n' +
+        '**Suggestion:**\n```suggestion\nconst x = 1;\n```'
+      );
+    });
+
+    it('should lengthen the suggestion fence around backticks', () => {
+      // Arrange
+      const issue: Issue = {
+        file: 'src/index.js',
+        line: 10,
+        severity: 'info',
+        message: 'Document usage',
+        category: 'documentation',
+        suggestion: '/** ```js\nrun()\n``` */',
+      };
+
+      // Act
+      const comment = promptManager.formatComment(issue, true);
+
+      // Assert
+      expect(comment).toContain('````suggestion\n/** ```js\nrun()\n``` */\n````');
+    });
+
     it('should format warning without suggestion', () => {
       // Arrange
       const issue: Issue = {
@@ -149,6 +188,25 @@ describe('PromptManager', () => {
       expect(retrieved?.version).toBe('2.0.0');
       expect(retrieved?.template).toBe('Updated template');
     });
+
+    it('should get the templates whose file globs match a path', () => {
+      // Arrange
+      const paymentsTemplate = {
+        id: 'payments',
+        version: '1.0.0',
+        language: 'typescript',
+        template: 'Check idempotency keys',
+        thinkingInstructions: '',
+        outputFormat: {},
+        files: ['src/payments/**', 'lib/billing.ts'],
+      };
+      promptManager.addTemplate(paymentsTemplate);
+
+      // Act & Assert
+      expect(promptManager.getTemplatesForFile('src/payments/stripe/charge.ts')).toEqual([paymentsTemplate]);
+      expect(promptManager.getTemplatesForFile('lib/billing.ts')).toEqual([paymentsTemplate]);
+      expect(promptManager.getTemplatesForFile('src/index.ts')).toEqual([]);
+    });
   });
 
   describe('buildPromptWithInstructions', () => {
@@ -188,6 +246,47 @@ describe('PromptManager', () => {
     });
   });
 
+  describe('renderTemplate', () => {
+    it('should drop the lines of disabled settings and renumber the steps', () => {
+      // Act
+      const rendered = promptManager.renderTemplate('react-review', { checkAccessibility: false, enforceHooksRules: false });
+
+      // Assert
+      expect(rendered?.template).not.toContain('Accessibility');
+      expect(rendered?.template).not.toContain('Hooks rules');
+      expect(rendered?.template).toContain('- Class components that should be function components with hooks');
+      expect(rendered?.thinkingInstructions).toBe(`Consider React-specific patterns:
+1. Look for performance optimization opportunities
+2. Evaluate component composition
+3. Check for proper error boundaries`);
+    });
+
+    it('should keep the lines of enabled and missing settings without their tags', () => {
+      // Act
+      const rendered = promptManager.renderTemplate('express-review', { checkSecurityHeaders: true });
+
+      // Assert
+      expect(rendered?.template).toContain('- Missing security headers');
+      expect(rendered?.template).toContain('- Request input used without validation');
+      expect(rendered?.template).not.toContain('[if');
+    });
+
+    it('should drop flaky test checks from the test template', () => {
+      // Act
+      const rendered = promptManager.renderTemplate('test-review', { detectFlakyTests: false });
+
+      // Assert
+      expect(rendered?.template).not.toContain('Flaky');
+      expect(rendered?.template).toContain('Tests without assertions');
+      expect(rendered?.thinkingInstructions).toContain('2. Check that mocks match');
+    });
+
+    it('should return undefined for non-existent template', () => {
+      // Act & Assert
+      expect(promptManager.renderTemplate('missing')).toBeUndefined();
+    });
+  });
+
   describe('default templates', () => {
     it('should have JavaScript review template', () => {
       // Act
@@ -227,7 +326,16 @@ describe('PromptManager', () => {
 
     it('all templates should have required fields', () => {
       // Arrange
-      const templateIds = ['js-review', 'react-review', 'express-review'];
+      const templateIds = [
+        'js-review',
+        'react-review',
+        'express-review',
+        'nextjs-review',
+        'vue-review',
+        'nestjs-review',
+        'node-streams-review',
+        'test-review',
+      ];
 
       // Act & Assert
       templateIds.forEach(id => {
@@ -1,4 +1,5 @@
 import { Issue } from './engine';
+import { matchesGlob } from '../utils/glob';
 
 export interface PromptTemplate {
   id: string;
@@ -7,8 +8,19 @@ export interface PromptTemplate {
   template: string;
   thinkingInstructions: string;
   outputFormat: any;
+  /** Globs of the files a repository template applies to */
+  files?: string[];
 }
 
+export interface RenderedTemplate {
+  template: string;
+  thinkingInstructions: string;
+}
+
+// Template lines tagged "[if setting]" are kept only while the setting is enabled
+const CONDITIONAL_LINE = /\[if (\w+)\]\s*/;
+const NUMBERED_LINE = /^(\s*)\d+\.\s/;
+
 export class PromptManager {
   private templates: Map<string, PromptTemplate> = new Map();
 
@@ -19,9 +31,10 @@ export class PromptManager {
   /**
    * Formats an issue into a comment for GitHub
    * @param issue - The issue to format
+   * @param asSuggestedChange - Render the suggestion as a GitHub suggested change that replaces the commented lines
    * @returns Formatted comment string
    */
-  formatComment(issue: Issue): string {
+  formatComment(issue: Issue, asSuggestedChange = false): string {
     const icons = {
       error: '❌',
       warning: '⚠️',
@@ -42,7 +55,12 @@ export class PromptManager {
     
     let comment = `${icon} **${category}**: ${issue.message}`;
 
-    if (issue.suggestion) {
+    if (issue.suggestion && asSuggestedChange) {
+      // Lengthen the fence so backticks inside the replacement cannot close it
+      const longestRun = Math.max(2, ...(issue.suggestion.match(/`+/g) || []).map(run => run.length));
+      const fence = '`'.repeat(longestRun + 1);
+      comment += `\n\n**Suggestion:**\n${fence}suggestion\n${issue.suggestion}\n${fence}`;
+    } else if (issue.suggestion) {
       comment += `\n\n**Suggestion:**\n\`\`\`javascript\n${issue.suggestion}\n\`\`\``;
     }
 
@@ -66,6 +84,35 @@ export class PromptManager {
     this.templates.set(template.id, template);
   }
 
+  /**
+   * Gets the templates whose file globs match a path
+   * @param path - Path of a reviewed file
+   * @returns Matching templates, in the order they were added
+   */
+  getTemplatesForFile(path: string): PromptTemplate[] {
+    return [...this.templates.values()].filter(template =>
+      (template.files || []).some(pattern => matchesGlob(path, pattern))
+    );
+  }
+
+  /**
+   * Renders a template, dropping the lines of disabled settings
+   * @param id - Template ID
+   * @param settings - Settings referenced by "[if setting]" tags; missing settings count as enabled
+   * @returns Rendered template and thinking instructions, or undefined when the template does not exist
+   */
+  renderTemplate(id: string, settings: Record<string, boolean> = {}): RenderedTemplate | undefined {
+    const template = this.templates.get(id);
+    if (!template) {
+      return undefined;
+    }
+
+    return {
+      template: this.applySettings(template.template, settings),
+      thinkingInstructions: this.applySettings(template.thinkingInstructions, settings),
+    };
+  }
+
   /**
    * Builds a review prompt with custom instructions
    * @param basePrompt - Base prompt text
@@ -80,6 +127,21 @@ export class PromptManager {
     return `${basePrompt}\n\nAdditional Instructions:\n${customInstructions}`;
   }
 
+  private applySettings(text: string, settings: Record<string, boolean>): string {
+    let number = 0;
+
+    return text
+      .split('\n')
+      .filter(line => {
+        const condition = line.match(CONDITIONAL_LINE);
+        return !condition || settings[condition[1]] !== false;
+      })
+      .map(line => line.replace(CONDITIONAL_LINE, ''))
+      // Dropped lines would leave gaps in numbered steps
+      .map(line => line.replace(NUMBERED_LINE, (_match, indent) => `${indent}${++number}. `))
+      .join('\n');
+  }
+
   private initializeDefaultTemplates(): void {
     // JavaScript/TypeScript review template
     this.addTemplate({
@@ -109,20 +171,21 @@ export class PromptManager {
     // React-specific template
     this.addTemplate({
       id: 'react-review',
-      version: '1.0.0',
+      version: '1.1.0',
       language: 'javascript',
       template: `Review this React code for:
-- Hooks rules violations
+- [if enforceHooksRules] Hooks rules violations (conditional hooks, missing effect dependencies)
 - Performance issues (unnecessary re-renders)
 - State management problems
 - Component design issues
-- Accessibility concerns`,
+- [if preferFunctionalComponents] Class components that should be function components with hooks
+- [if checkAccessibility] Accessibility concerns (missing labels, alt text, keyboard handling)`,
       thinkingInstructions: `Consider React-specific patterns:
-1. Check hooks dependencies and rules
+1. [if enforceHooksRules] Check hooks dependencies and rules
 2. Look for performance optimization opportunities
 3. Evaluate component composition
 4. Check for proper error boundaries
-5. Consider accessibility`,
+5. [if checkAccessibility] Consider accessibility`,
       outputFormat: {
         issues: [],
         summary: '',
@@ -133,18 +196,20 @@ export class PromptManager {
     // Express.js template
     this.addTemplate({
       id: 'express-review',
-      version: '1.0.0',
+      version: '1.1.0',
       language: 'javascript',
       template: `Review this Express.js code for:
 - Security vulnerabilities (injection, auth issues)
+- [if checkSecurityHeaders] Missing security headers (helmet, CORS and cookie options)
+- [if validateInputSanitization] Request input used without validation or sanitization
 - Middleware order and usage
-- Error handling
+- [if enforceErrorHandling] Error handling (unhandled promise rejections in handlers, missing error middleware)
 - Performance considerations
 - API design best practices`,
       thinkingInstructions: `Focus on server-side concerns:
 1. Check for security vulnerabilities
-2. Validate input handling
-3. Review error handling and logging
+2. [if validateInputSanitization] Validate input handling
+3. [if enforceErrorHandling] Review error handling and logging
 4. Check middleware configuration
 5. Look for performance bottlenecks`,
       outputFormat: {
@@ -153,5 +218,119 @@ export class PromptManager {
         stats: {},
       },
     });
+
+    // Next.js template
+    this.addTemplate({
+      id: 'nextjs-review',
+      version: '1.0.0',
+      language: 'javascript',
+      template: `Review this Next.js code for:
+- [if checkComponentBoundaries] Server-only code (secrets, database access, Node APIs) reachable from client components
+- [if checkComponentBoundaries] Hooks, event handlers or browser APIs in server components without "use client"
+- [if checkComponentBoundaries] Non-serializable props passed from server to client components
+- [if checkDataFetching] Data fetching with the wrong caching or revalidation for the data
+- [if checkDataFetching] Request waterfalls that could run in parallel
+- Route handlers and server actions that skip authentication or input validation`,
+      thinkingInstructions: `Consider the Next.js rendering model:
+1. [if checkComponentBoundaries] Decide for each component whether it runs on the server or the client
+2. [if checkComponentBoundaries] Follow props and imports across the "use client" boundary
+3. [if checkDataFetching] Check where data is fetched and how it is cached
+4. Check that server actions and route handlers validate their input`,
+      outputFormat: {
+        issues: [],
+        summary: '',
+        stats: {},
+      },
+    });
+
+    // Vue template
+    this.addTemplate({
+      id: 'vue-review',
+      version: '1.0.0',
+      language: 'javascript',
+      template: `Review this Vue code for:
+- [if checkReactivity] Reactivity lost by destructuring reactive objects or props
+- [if checkReactivity] Mutating props or reactive state from outside its owner
+- [if checkReactivity] Watchers that should be computed properties, or computed properties with side effects
+- Missing keys in v-for and v-if combined with v-for on the same element
+- Event listeners and timers not cleaned up when the component unmounts`,
+      thinkingInstructions: `Consider Vue-specific patterns:
+1. [if checkReactivity] Trace which values are reactive and where reactivity is lost
+2. Check component props, emits and their types
+3. Check lifecycle hooks for leaks`,
+      outputFormat: {
+        issues: [],
+        summary: '',
+        stats: {},
+      },
+    });
+
+    // NestJS template
+    this.addTemplate({
+      id: 'nestjs-review',
+      version: '1.0.0',
+      language: 'javascript',
+      template: `Review this NestJS code for:
+- [if checkDependencyInjection] Providers used but not registered in or exported from a module
+- [if checkDependencyInjection] Circular dependencies between providers or modules
+- [if checkDependencyInjection] Request-scoped providers injected into singletons
+- [if checkDecorators] Missing or misplaced decorators (@Injectable, @Body, @Param, guards and pipes)
+- [if checkDecorators] DTOs without validation decorators on public endpoints
+- Exceptions that should be HTTP exceptions`,
+      thinkingInstructions: `Consider the NestJS module system:
+1. [if checkDependencyInjection] Check how each provider is registered and injected
+2. [if checkDecorators] Check decorators on controllers, handlers and DTOs
+3. Check guards, pipes and interceptors for the routes that need them`,
+      outputFormat: {
+        issues: [],
+        summary: '',
+        stats: {},
+      },
+    });
+
+    // Node.js streams template
+    this.addTemplate({
+      id: 'node-streams-review',
+      version: '1.0.0',
+      language: 'javascript',
+      template: `Review this Node.js stream code for:
+- [if checkBackpressure] Ignored write() return values and missing drain handling
+- [if checkBackpressure] Data read into memory where it could be streamed
+- Missing error handling on piped streams (prefer pipeline over pipe)
+- Streams and file handles not destroyed or closed on error
+- Mixing async iteration with event-based reading`,
+      thinkingInstructions: `Consider how data flows through the streams:
+1. Follow each stream from source to destination
+2. [if checkBackpressure] Check what happens when a consumer is slower than its producer
+3. Check that errors on any stream end the whole pipeline and release resources`,
+      outputFormat: {
+        issues: [],
+        summary: '',
+        stats: {},
+      },
+    });
+
+    // Jest/Vitest test template
+    this.addTemplate({
+      id: 'test-review',
+      version: '1.0.0',
+      language: 'javascript',
+      template: `Review these Jest/Vitest tests for:
+- [if requireAssertions] Tests without assertions, or assertions that can never fail
+- [if requireAssertions] Promises and async callbacks not awaited, so failures are missed
+- [if detectFlakyTests] Flaky patterns: real timers, dates, randomness, network access or test order dependencies
+- [if detectFlakyTests] Mocks and module state not reset between tests
+- Tests that no longer exercise the changed code
+- Focused or skipped tests (.only, .skip) left in`,
+      thinkingInstructions: `Consider what the tests prove:
+1. Check that each test would fail if the code under test broke
+2. [if detectFlakyTests] Look for anything that differs between runs
+3. Check that mocks match the real dependencies they replace`,
+      outputFormat: {
+        issues: [],
+        summary: '',
+        stats: {},
+      },
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { compareExports, extractSymbols, findUsageLines } from './symbol-extractor';
+
+describe('symbol-extractor', () => {
+  describe('extractSymbols', () => {
+    it('should extract exports with kinds and signatures', () => {
+      // Arrange
+      const content = `
+export interface User { id: string }
+export type Id = string | number;
+export enum Color { Red, Green }
+export async function load(id: Id): Promise<User> {
+  return fetchUser(id);
+}
+export const add = (a: number, b: number): number => a + b;
+export const LIMIT = 5;
+export class Store {
+  private cache = new Map();
+  save(user: User): void {}
+}
+`;
+
+      // Act
+      const { exports } = extractSymbols('src/store.ts', content);
+
+      // Assert
+      expect(exports).toEqual([
+        { name: 'User', kind: 'interface', signature: 'interface User { id: string }' },
+        { name: 'Id', kind: 'type', signature: 'type Id = string | number;' },
+        { name: 'Color', kind: 'enum', signature: 'enum Color { Red, Green }' },
+        { name: 'load', kind: 'function', signature: 'async function load(id: Id): Promise<User>' },
+        { name: 'add', kind: 'function', signature: 'const add = (a: number, b: number): number =>' },
+        { name: 'LIMIT', kind: 'variable', signature: 'const LIMIT' },
+        { name: 'Store', kind: 'class', signature: 'class Store { save(user: User): void }' },
+      ]);
+    });
+
+    it('should extract export lists, re-exports and default exports', () => {
+      // Arrange
+      const content = `
+function helper() {}
+class App {}
+export { helper as help };
+export * from './all';
+export { a as b } from './ab';
+export default App;
+`;
+
+      // Act
+      const { exports } = extractSymbols('src/index.ts', content);
+
+      // Assert
+      expect(exports.map(symbol => [symbol.name, symbol.kind])).toEqual([
+        ['*', 're-export'],
+        ['b', 're-export'],
+        ['help', 'function'],
+        ['default', 'class'],
+      ]);
+    });
+
+    it('should extract imports with their bound names', () => {
+      // Arrange
+      const content = `
+import React, { useState as useLocalState } from 'react';
+import type { User } from './user';
+import * as utils from '../utils';
+const express = require('express');
+const lazy = () => import('./lazy');
+`;
+
+      // Act
+      const { imports } = extractSymbols('src/app.tsx', content);
+
+      // Assert
+      expect(imports).toEqual([
+        {
+          source: 'react',
+          names: [{ imported: 'default', local: 'React' }, { imported: 'useState', local: 'useLocalState' }],
+          typeOnly: false,
+        },
+        { source: './user', names: [{ imported: 'User', local: 'User' }], typeOnly: true },
+        { source: '../utils', names: [{ imported: '*', local: 'utils' }], typeOnly: false },
+        { source: 'express', names: [{ imported: '*', local: '*' }], typeOnly: false },
+        { source: './lazy', names: [{ imported: '*', local: '*' }], typeOnly: false },
+      ]);
+    });
+
+    it('should ignore imports in comments and strings', () => {
+      // Arrange
+      const content = `
+// import fake from 'commented';
+const text = "import other from 'string'";
+/* require('block') */
+`;
+
+      // Act
+      const { imports } = extractSymbols('src/a.js', content);
+
+      // Assert
+      expect(imports).toEqual([]);
+    });
+
+    it('should list top-level declarations with their line', () => {
+      // Act
+      const { declarations } = extractSymbols('src/a.ts', 'const a = 1;\n\nexport function b() {}\n');
+
+      // Assert
+      expect(declarations).toEqual([
+        { name: 'a', kind: 'variable', exported: false, line: 1 },
+        { name: 'b', kind: 'function', exported: true, line: 3 },
+      ]);
+    });
+
+    it('should read only the script of Vue components, keeping its line numbers', () => {
+      // Arrange
+      const content = '<template>\n  <div>{{ title }}</div>\n</template>\n\n<script setup lang="ts">\nimport { ref } from \'vue\';\nconst title = ref(\'Card\');\n</script>\n';
+
+      // Act
+      const { imports, declarations } = extractSymbols('src/Card.vue', content);
+
+      // Assert
+      expect(imports.map(binding => binding.source)).toEqual(['vue']);
+      expect(declarations).toEqual([{ name: 'title', kind: 'variable', exported: false, line: 7 }]);
+    });
+  });
+
+  describe('compareExports', () => {
+    it('should report changed signatures and removed exports', () => {
+      // Arrange
+      const before = extractSymbols('src/math.ts', `
+export function sum(a: number, b: number): number { return a + b; }
+export function max(values: number[]): number { return Math.max(...values); }
+export const PI = 3.14;
+`);
+      const after = extractSymbols('src/math.ts', `
+export function sum(values: number[]): number { return values.reduce((a, b) => a + b, 0); }
+export function max(values: number[]): number {
+  // Body changes are not API changes
+  return values.reduce((a, b) => (a > b ? a : b));
+}
+`);
+
+      // Act
+      const changes = compareExports(before, after);
+
+      // Assert
+      expect(changes).toEqual([
+        {
+          name: 'sum',
+          kind: 'function',
+          change: 'signature',
+          before: 'function sum(a: number, b: number): number',
+          after: 'function sum(values: number[]): number',
+        },
+        { name: 'PI', kind: 'variable', change: 'removed', before: 'const PI' },
+      ]);
+    });
+
+    it('should not report exports moved to an export list', () => {
+      // Arrange
+      const before = extractSymbols('src/a.ts', 'export function run(): void {}');
+      const after = extractSymbols('src/a.ts', 'function run(): void {}\nexport { run };');
+
+      // Act & Assert
+      expect(compareExports(before, after)).toEqual([]);
+    });
+  });
+
+  describe('findUsageLines', () => {
+    const content = [
+      "import { sum } from './math';",
+      "import * as math from './math';",
+      'const total = sum(1, 2);',
+      'const other = { sum: 1 }.sum;',
+      'math.sum(3);',
+      'math.max(4);',
+    ].join('\n');
+
+    it('should find usages of an imported name', () => {
+      expect(findUsageLines('src/a.ts', content, 'sum')).toEqual([3]);
+    });
+
+    it('should find member usages of a namespace import', () => {
+      expect(findUsageLines('src/a.ts', content, 'math', 'sum')).toEqual([5]);
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import ts from 'typescript';
+
+export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable' | 'namespace' | 're-export';
+
+export interface ExportedSymbol {
+  /** Name importers use, 'default' for default exports and '*' for `export * from` */
+  name: string;
+  kind: SymbolKind;
+  signature: string;
+  /** Module the symbol is re-exported from */
+  from?: string;
+}
+
+export interface ImportBinding {
+  source: string;
+  /** Imported names bound to local names; 'default' and '*' stand for default and namespace imports */
+  names: Array<{ imported: string; local: string }>;
+  typeOnly: boolean;
+}
+
+export interface Declaration {
+  name: string;
+  kind: SymbolKind;
+  exported: boolean;
+  line: number;
+}
+
+export interface SymbolSummary {
+  exports: ExportedSymbol[];
+  imports: ImportBinding[];
+  declarations: Declaration[];
+}
+
+export interface ExportChange {
+  name: string;
+  kind: SymbolKind;
+  change: 'signature' | 'removed';
+  before: string;
+  after?: string;
+}
+
+// Long type literals and interfaces are cut so the prompt stays readable
+const MAX_SIGNATURE_LENGTH = 300;
+
+/**
+ * Parses a JavaScript or TypeScript file, or the scripts of a Vue component, into its imports, exports and top-level declarations
+ * @param path - File path, used to pick the script kind
+ * @param content - File content
+ * @returns Symbol summary of the file
+ */
+export function extractSymbols(path: string, content: string): SymbolSummary {
+  const source = /\.vue$/.test(path) ? extractVueScript(content) : content;
+  const sourceFile = ts.createSourceFile(path, source, ts.ScriptTarget.Latest, true, scriptKind(path));
+  const summary: SymbolSummary = { exports: [], imports: [], declarations: [] };
+  const declarations = new Map<string, { kind: SymbolKind; signature: string }>();
+  const localExports: Array<{ name: string; local: string }> = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      summary.imports.push(importBinding(statement));
+      continue;
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      collectExportDeclaration(statement, summary, localExports);
+      continue;
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      // export default <expression>; the expression may name a local declaration
+      const local = ts.isIdentifier(statement.expression) ? statement.expression.text : undefined;
+      localExports.push({ name: 'default', local: local ?? '' });
+      if (!local) {
+        summary.exports.push({ name: 'default', kind: 'variable', signature: signatureOf(statement, sourceFile) });
+      }
+      continue;
+    }
+
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    for (const { name, kind, node } of declaredSymbols(statement)) {
+      const signature = signatureOf(node, sourceFile);
+      declarations.set(name, { kind, signature });
+      summary.declarations.push({
+        name,
+        kind,
+        exported,
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+      });
+
+      if (exported) {
+        summary.exports.push({ name: isDefault ? 'default' : name, kind, signature });
+      }
+    }
+  }
+
+  // Local names exported in a separate statement, e.g. export { a as b } or export default a
+  for (const { name, local } of localExports) {
+    const declaration = declarations.get(local);
+    if (declaration) {
+      summary.exports.push({ name, ...declaration });
+    } else if (local) {
+      summary.exports.push({ name, kind: 'variable', signature: local });
+    }
+  }
+
+  collectDynamicImports(sourceFile, summary);
+  return summary;
+}
+
+/**
+ * Compares the exports of two versions of a file
+ * @param before - Symbols of the old version
+ * @param after - Symbols of the new version
+ * @returns Exports whose signature changed or that were removed
+ */
+export function compareExports(before: SymbolSummary, after: SymbolSummary): ExportChange[] {
+  const afterExports = new Map(after.exports.map(symbol => [symbol.name, symbol]));
+  const changes: ExportChange[] = [];
+
+  for (const symbol of before.exports) {
+    if (symbol.name === '*') {
+      continue;
+    }
+
+    const current = afterExports.get(symbol.name);
+    if (!current) {
+      changes.push({ name: symbol.name, kind: symbol.kind, change: 'removed', before: symbol.signature });
+    } else if (current.signature !== symbol.signature) {
+      changes.push({
+        name: symbol.name,
+        kind: current.kind,
+        change: 'signature',
+        before: symbol.signature,
+        after: current.signature,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Keeps the script blocks of a Vue single-file component, blanking the rest so line numbers stay the same
+ */
+function extractVueScript(content: string): string {
+  const blank = (text: string): string => text.replace(/[^\n]/g, '');
+  let source = '';
+  let end = 0;
+
+  for (const match of content.matchAll(/(<script\b[^>]*>)([\s\S]*?)<\/script>/g)) {
+    const start = (match.index ?? 0) + match[1].length;
+    source += blank(content.slice(end, start)) + match[2];
+    end = start + match[2].length;
+  }
+
+  return source + blank(content.slice(end));
+}
+
+function scriptKind(path: string): ts.ScriptKind {
+  if (/\.tsx$/.test(path)) {
+    return ts.ScriptKind.TSX;
+  }
+  if (/\.(jsx)$/.test(path)) {
+    return ts.ScriptKind.JSX;
+  }
+  if (/\.(js|mjs|cjs)$/.test(path)) {
+    return ts.ScriptKind.JS;
+  }
+  return ts.ScriptKind.TS;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+}
+
+function importBinding(statement: ts.ImportDeclaration): ImportBinding {
+  const clause = statement.importClause;
+  const names: ImportBinding['names'] = [];
+
+  if (clause?.name) {
+    names.push({ imported: 'default', local: clause.name.text });
+  }
+
+  const bindings = clause?.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push({ imported: '*', local: bindings.name.text });
+  } else if (bindings) {
+    for (const element of bindings.elements) {
+      names.push({ imported: (element.propertyName || element.name).text, local: element.name.text });
+    }
+  }
+
+  return {
+    source: (statement.moduleSpecifier as ts.StringLiteral).text,
+    names,
+    typeOnly: Boolean(clause?.isTypeOnly),
+  };
+}
+
+function collectExportDeclaration(
+  statement: ts.ExportDeclaration,
+  summary: SymbolSummary,
+  localExports: Array<{ name: string; local: string }>
+): void {
+  const source = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+    ? statement.moduleSpecifier.text
+    : undefined;
+  const clause = statement.exportClause;
+
+  if (!source) {
+    if (clause && ts.isNamedExports(clause)) {
+      for (const element of clause.elements) {
+        localExports.push({ name: element.name.text, local: (element.propertyName || element.name).text });
+      }
+    }
+    return;
+  }
+
+  // Re-exports also import from the source module
+  const names: ImportBinding['names'] = [];
+  if (!clause) {
+    summary.exports.push({ name: '*', kind: 're-export', signature: `export * from '${source}'`, from: source });
+    names.push({ imported: '*', local: '*' });
+  } else if (ts.isNamespaceExport(clause)) {
+    summary.exports.push({ name: clause.name.text, kind: 're-export', signature: `export * as ${clause.name.text} from '${source}'`, from: source });
+    names.push({ imported: '*', local: clause.name.text });
+  } else {
+    for (const element of clause.elements) {
+      const imported = (element.propertyName || element.name).text;
+      summary.exports.push({ name: element.name.text, kind: 're-export', signature: `export { ${imported} } from '${source}'`, from: source });
+      names.push({ imported, local: element.name.text });
+    }
+  }
+
+  summary.imports.push({ source, names, typeOnly: statement.isTypeOnly });
+}
+
+function declaredSymbols(statement: ts.Statement): Array<{ name: string; kind: SymbolKind; node: ts.Node }> {
+  if (ts.isFunctionDeclaration(statement)) {
+    return [{ name: statement.name?.text ?? 'default', kind: 'function', node: statement }];
+  }
+  if (ts.isClassDeclaration(statement)) {
+    return [{ name: statement.name?.text ?? 'default', kind: 'class', node: statement }];
+  }
+  if (ts.isInterfaceDeclaration(statement)) {
+    return [{ name: statement.name.text, kind: 'interface', node: statement }];
+  }
+  if (ts.isTypeAliasDeclaration(statement)) {
+    return [{ name: statement.name.text, kind: 'type', node: statement }];
+  }
+  if (ts.isEnumDeclaration(statement)) {
+    return [{ name: statement.name.text, kind: 'enum', node: statement }];
+  }
+  if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+    return [{ name: statement.name.text, kind: 'namespace', node: statement }];
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations
+      .filter(declaration => ts.isIdentifier(declaration.name))
+      .map(declaration => ({
+        name: (declaration.name as ts.Identifier).text,
+        kind: isFunctionInitializer(declaration.initializer) ? 'function' as const : 'variable' as const,
+        node: declaration,
+      }));
+  }
+  return [];
+}
+
+function isFunctionInitializer(initializer: ts.Expression | undefined): boolean {
+  return Boolean(initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)));
+}
+
+/**
+ * Renders a declaration without its body, so only API changes show up as signature changes
+ */
+function signatureOf(node: ts.Node, sourceFile: ts.SourceFile): string {
+  const text = sourceFile.text;
+
+  if (ts.isClassDeclaration(node)) {
+    // Public members are part of a class's API, method bodies are not
+    const members = node.members
+      .filter(member => !hasModifier(member, ts.SyntaxKind.PrivateKeyword))
+      .filter(member => !(member.name && ts.isPrivateIdentifier(member.name)))
+      .map(member => signatureOf(member, sourceFile));
+    const header = collapse(text.slice(node.getStart(sourceFile), node.members.pos)).replace(/\s*\{$/, '');
+    return truncate(`${header} { ${members.join('; ')} }`);
+  }
+
+  if (ts.isVariableDeclaration(node)) {
+    const flags = node.parent.flags;
+    const keyword = flags & ts.NodeFlags.Const ? 'const' : flags & ts.NodeFlags.Let ? 'let' : 'var';
+
+    if (isFunctionInitializer(node.initializer)) {
+      const body = (node.initializer as ts.ArrowFunction | ts.FunctionExpression).body;
+      return truncate(`${keyword} ${collapse(text.slice(node.getStart(sourceFile), body.getStart(sourceFile)))}`);
+    }
+
+    // The initial value of a variable is not its API, its type is
+    const type = node.type ? `: ${collapse(node.type.getText(sourceFile))}` : '';
+    return truncate(`${keyword} ${node.name.getText(sourceFile)}${type}`);
+  }
+
+  let end = node.getEnd();
+  if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+    end = (node.body as ts.Node).getStart(sourceFile);
+  } else if (ts.isPropertyDeclaration(node) && node.initializer) {
+    end = node.initializer.getFullStart();
+  }
+
+  return truncate(collapse(text.slice(node.getStart(sourceFile), end)).replace(/\s*=$/, ''));
+}
+
+function collapse(text: string): string {
+  return text
+    .replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    // Moving an export to a separate statement does not change the API
+    .replace(/^(export\s+)?(default\s+)?(declare\s+)?/, '');
+}
+
+function truncate(signature: string): string {
+  return signature.length > MAX_SIGNATURE_LENGTH ? `${signature.slice(0, MAX_SIGNATURE_LENGTH)}…` : signature;
+}
+
+function collectDynamicImports(sourceFile: ts.SourceFile, summary: SymbolSummary): void {
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])) {
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+      const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+
+      if (isRequire || isDynamicImport) {
+        summary.imports.push({ source: node.arguments[0].text, names: [{ imported: '*', local: '*' }], typeOnly: false });
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+}
+
+/**
+ * Finds the lines where an imported binding is used
+ * @param path - File path, used to pick the script kind
+ * @param content - File content
+ * @param local - Local name the symbol or namespace is imported as
+ * @param property - Member to look for when local is a namespace import
+ * @returns Line numbers of the usages, in order
+ */
+export function findUsageLines(path: string, content: string, local: string, property?: string): number[] {
+  const sourceFile = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, scriptKind(path));
+  const lines = new Set<number>();
+  const lineOf = (node: ts.Node): number => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+      return;
+    }
+
+    if (property) {
+      if (
+        ts.isPropertyAccessExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === local &&
+        node.name.text === property
+      ) {
+        lines.add(lineOf(node));
+      }
+    } else if (
+      ts.isIdentifier(node) &&
+      node.text === local &&
+      // obj.name and { name: value } refer to something else
+      !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) &&
+      !(ts.isPropertyAssignment(node.parent) && node.parent.name === node)
+    ) {
+      lines.add(lineOf(node));
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return [...lines].sort((a, b) => a - b);
+}
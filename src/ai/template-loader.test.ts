@@ -0,0 +1,145 @@
+import { parseTemplateFile, TemplateLoader } from './template-loader';
+import { PromptManager } from './prompt-manager';
+import { GitHubClient } from '../github/client';
+
+jest.mock('../github/client');
+
+describe('TemplateLoader', () => {
+  let loader: TemplateLoader;
+  let promptManager: PromptManager;
+  let mockGitHubClient: jest.Mocked<GitHubClient>;
+  let repoFiles: Record<string, string>;
+
+  beforeEach(() => {
+    repoFiles = {};
+    mockGitHubClient = new GitHubClient({ appId: 123, privateKey: 'test' }) as jest.Mocked<GitHubClient>;
+    mockGitHubClient.listDirectory.mockImplementation(() => Promise.resolve(Object.keys(repoFiles)));
+    mockGitHubClient.getFile.mockImplementation((_owner, _repo, path) => Promise.resolve(repoFiles[path] ?? null));
+    promptManager = new PromptManager();
+    loader = new TemplateLoader(mockGitHubClient, promptManager);
+  });
+
+  describe('loadTemplates', () => {
+    it('should override built-in templates and add templates for matching files', async () => {
+      // Arrange
+      repoFiles = {
+        '.reviewthor/templates/react.md': '---\nid: react-review\nversion: "2.0.0"\n---\nUse our design system components.\n',
+        '.reviewthor/templates/payments.md': [
+          '---',
+          'id: payments',
+          'language: typescript',
+          'files:',
+          '  - src/payments/**',
+          '---',
+          'Check that every charge uses an idempotency key.',
+          '',
+          '## Thinking',
+          'Trace where the key is created.',
+        ].join('\n'),
+        '.reviewthor/templates/README.txt': 'not a template',
+      };
+
+      // Act
+      const errors = await loader.loadTemplates('owner', 'repo');
+
+      // Assert
+      expect(errors).toEqual([]);
+      expect(mockGitHubClient.listDirectory.mock.calls).toContainEqual(['owner', 'repo', '.reviewthor/templates', 'HEAD']);
+      expect(mockGitHubClient.getFile.mock.calls).not.toContainEqual(['owner', 'repo', '.reviewthor/templates/README.txt', 'HEAD']);
+      expect(promptManager.getTemplate('react-review')).toEqual(expect.objectContaining({
+        version: '2.0.0',
+        template: 'Use our design system components.',
+      }));
+      expect(promptManager.getTemplatesForFile('src/payments/charge.ts')).toEqual([expect.objectContaining({
+        id: 'payments',
+        language: 'typescript',
+        template: 'Check that every charge uses an idempotency key.',
+        thinkingInstructions: 'Trace where the key is created.',
+      })]);
+    });
+
+    it('should report duplicate template ids and keep the first', async () => {
+      // Arrange
+      repoFiles = {
+        '.reviewthor/templates/a.md': '---\nid: payments\nfiles: src/**\n---\nFirst\n',
+        '.reviewthor/templates/b.md': '---\nid: payments\nfiles: src/**\n---\nSecond\n',
+      };
+
+      // Act
+      const errors = await loader.loadTemplates('owner', 'repo');
+
+      // Assert
+      expect(errors).toEqual([{
+        path: '.reviewthor/templates/b.md',
+        line: 2,
+        message: 'Template id "payments" is already used by .reviewthor/templates/a.md.',
+      }]);
+      expect(promptManager.getTemplate('payments')?.template).toBe('First');
+    });
+
+    it('should skip templates that are too large', async () => {
+      // Arrange
+      repoFiles = { '.reviewthor/templates/big.md': `---\nid: big\nfiles: "**"\n---\n${'x'.repeat(21 * 1024)}` };
+
+      // Act
+      const errors = await loader.loadTemplates('owner', 'repo');
+
+      // Assert
+      expect(errors).toEqual([{ path: '.reviewthor/templates/big.md', message: 'Template is larger than 20 KB.' }]);
+      expect(promptManager.getTemplate('big')).toBeUndefined();
+    });
+  });
+
+  describe('parseTemplateFile', () => {
+    const isBuiltIn = (id: string): boolean => id === 'js-review';
+
+    it('should report invalid fields with their line numbers', () => {
+      // Arrange
+      const content = '---\nid: Payments\nversion: 2\nfiles: []\nowner: team-a\n---\nCheck payments.\n';
+
+      // Act
+      const { template, errors } = parseTemplateFile('t.md', content, isBuiltIn);
+
+      // Assert
+      expect(template).toBeUndefined();
+      expect(errors).toEqual([
+        { path: 't.md', line: 5, message: 'Unknown field "owner"; expected id, version, language, files.' },
+        { path: 't.md', line: 2, message: 'id is required and may only contain lowercase letters, digits and dashes.' },
+        { path: 't.md', line: 3, message: 'version must look like 1.0.0; quote it if YAML reads it as a number.' },
+        { path: 't.md', line: 4, message: 'files must be a glob or a list of globs.' },
+      ]);
+    });
+
+    it('should require file globs unless the template overrides a built-in one', () => {
+      // Act
+      const custom = parseTemplateFile('t.md', '---\nid: payments\n---\nCheck payments.\n', isBuiltIn);
+      const override = parseTemplateFile('t.md', '---\nid: js-review\n---\nCheck JavaScript.\n', isBuiltIn);
+
+      // Assert
+      expect(custom.errors).toEqual([
+        { path: 't.md', line: 2, message: 'files is required, since "payments" does not override a built-in template.' },
+      ]);
+      expect(override.errors).toEqual([]);
+      expect(override.template).toEqual(expect.objectContaining({ id: 'js-review', version: '1.0.0', files: undefined }));
+    });
+
+    it('should report missing front matter, YAML syntax errors and an empty body', () => {
+      // Act
+      const missing = parseTemplateFile('t.md', 'Check payments.\n', isBuiltIn);
+      const invalid = parseTemplateFile('t.md', '---\nid: payments\nfiles: [src/**\n---\nCheck payments.\n', isBuiltIn);
+      const empty = parseTemplateFile('t.md', '---\nid: js-review\n---\n\n', isBuiltIn);
+
+      // Assert
+      expect(missing.errors).toEqual([
+        { path: 't.md', line: 1, message: 'Template must start with front matter between --- lines.' },
+      ]);
+      expect(invalid.errors).toHaveLength(1);
+      expect(invalid.errors[0].path).toBe('t.md');
+      expect(invalid.errors[0].message).toMatch(/^Invalid front matter: /);
+      expect(invalid.errors[0].line).toBeGreaterThanOrEqual(3);
+      expect(empty.errors).toEqual([
+        { path: 't.md', line: 4, message: 'Template text after the front matter is empty.' },
+      ]);
+    });
+  });
+});
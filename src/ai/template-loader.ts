@@ -0,0 +1,178 @@
+import { isMap, isScalar, LineCounter, parseDocument } from 'yaml';
+import { GitHubClient } from '../github/client';
+import { ConfigurationError } from '../github/review-summary';
+import { PromptManager, PromptTemplate } from './prompt-manager';
+
+export interface ParsedTemplate {
+  template?: PromptTemplate;
+  errors: ConfigurationError[];
+}
+
+export const TEMPLATES_DIRECTORY = '.reviewthor/templates';
+
+const MAX_TEMPLATES = 20;
+const MAX_TEMPLATE_SIZE = 20 * 1024;
+
+const FRONT_MATTER_FIELDS = ['id', 'version', 'language', 'files'];
+const TEMPLATE_ID = /^[a-z0-9][a-z0-9-]*$/;
+const VERSION = /^\d+\.\d+\.\d+$/;
+// Text below this heading becomes the template's thinking instructions
+const THINKING_HEADING = /^##\s+Thinking\s*$/im;
+
+export class TemplateLoader {
+  private static readonly DEFAULT_BRANCH = 'HEAD';
+
+  constructor(
+    private readonly githubClient: GitHubClient,
+    private readonly promptManager: PromptManager
+  ) {}
+
+  /**
+   * Loads the templates in .reviewthor/templates into the prompt manager
+   * Templates with the ID of a built-in template replace it; others apply to the files matching their globs
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Commit to read the templates at, such as the base of a pull request
+   * @returns Problems found in the template files; files with problems are not loaded
+   */
+  async loadTemplates(owner: string, repo: string, ref = TemplateLoader.DEFAULT_BRANCH): Promise<ConfigurationError[]> {
+    const paths = (await this.githubClient.listDirectory(owner, repo, TEMPLATES_DIRECTORY, ref))
+      .filter(path => path.endsWith('.md'))
+      .sort();
+
+    const errors: ConfigurationError[] = [];
+    if (paths.length > MAX_TEMPLATES) {
+      errors.push({
+        path: TEMPLATES_DIRECTORY,
+        message: `Only the first ${MAX_TEMPLATES} of ${paths.length} templates were loaded.`,
+      });
+    }
+
+    const loadedIds = new Map<string, string>();
+    for (const path of paths.slice(0, MAX_TEMPLATES)) {
+      const content = await this.githubClient.getFile(owner, repo, path, ref);
+      if (content === null) {
+        continue;
+      }
+
+      if (content.length > MAX_TEMPLATE_SIZE) {
+        errors.push({ path, message: `Template is larger than ${MAX_TEMPLATE_SIZE / 1024} KB.` });
+        continue;
+      }
+
+      const parsed = parseTemplateFile(path, content, id => !loadedIds.has(id) && !!this.promptManager.getTemplate(id));
+      errors.push(...parsed.errors);
+      if (!parsed.template) {
+        continue;
+      }
+
+      const previous = loadedIds.get(parsed.template.id);
+      if (previous) {
+        errors.push({ path, line: 2, message: `Template id "${parsed.template.id}" is already used by ${previous}.` });
+        continue;
+      }
+
+      loadedIds.set(parsed.template.id, path);
+      this.promptManager.addTemplate(parsed.template);
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Parses a template file: YAML front matter between --- lines, then the template text
+ * @param path - Path of the template file
+ * @param content - Content of the template file
+ * @param isBuiltIn - Tells whether an id names a built-in template, which may be overridden without file globs
+ * @returns The template, or the problems that kept it from loading
+ */
+export function parseTemplateFile(path: string, content: string, isBuiltIn: (id: string) => boolean): ParsedTemplate {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const end = lines.indexOf('---', 1);
+  if (lines[0] !== '---' || end === -1) {
+    return { errors: [{ path, line: 1, message: 'Template must start with front matter between --- lines.' }] };
+  }
+
+  // Line numbers in the front matter start after the opening ---
+  const lineCounter = new LineCounter();
+  const document = parseDocument(lines.slice(1, end).join('\n'), { lineCounter });
+  const lineAt = (offset: number): number => lineCounter.linePos(offset).line + 1;
+
+  if (document.errors.length > 0) {
+    return {
+      errors: document.errors.map(error => ({
+        path,
+        line: lineAt(error.pos[0]),
+        message: `Invalid front matter: ${error.message.split('\n')[0]}`,
+      })),
+    };
+  }
+
+  if (!isMap(document.contents)) {
+    return { errors: [{ path, line: 2, message: 'Front matter must be a list of fields such as "id: my-template".' }] };
+  }
+
+  const errors: ConfigurationError[] = [];
+  const fieldLines = new Map<string, number>();
+  for (const pair of document.contents.items) {
+    const key = isScalar(pair.key) ? String(pair.key.value) : '';
+    const line = isScalar(pair.key) && pair.key.range ? lineAt(pair.key.range[0]) : 2;
+    fieldLines.set(key, line);
+
+    if (!FRONT_MATTER_FIELDS.includes(key)) {
+      errors.push({ path, line, message: `Unknown field "${key}"; expected ${FRONT_MATTER_FIELDS.join(', ')}.` });
+    }
+  }
+
+  const fields = document.toJS() as Record<string, unknown>;
+  const error = (field: string, message: string): void => {
+    errors.push({ path, line: fieldLines.get(field) ?? 2, message });
+  };
+
+  const { id, version, language } = fields;
+  if (typeof id !== 'string' || !TEMPLATE_ID.test(id)) {
+    error('id', 'id is required and may only contain lowercase letters, digits and dashes.');
+  }
+  if (version !== undefined && (typeof version !== 'string' || !VERSION.test(version))) {
+    error('version', 'version must look like 1.0.0; quote it if YAML reads it as a number.');
+  }
+  if (language !== undefined && typeof language !== 'string') {
+    error('language', 'language must be text.');
+  }
+
+  const files = typeof fields.files === 'string' ? [fields.files] : fields.files;
+  if (files === undefined) {
+    if (typeof id === 'string' && !isBuiltIn(id)) {
+      error('id', `files is required, since "${id}" does not override a built-in template.`);
+    }
+  } else if (!Array.isArray(files) || files.length === 0 || !files.every(glob => typeof glob === 'string' && glob)) {
+    error('files', 'files must be a glob or a list of globs.');
+  }
+
+  const [template, thinkingInstructions = ''] = lines.slice(end + 1).join('\n').split(THINKING_HEADING);
+  if (!template.trim()) {
+    errors.push({ path, line: end + 2, message: 'Template text after the front matter is empty.' });
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    template: {
+      id: id as string,
+      version: (version as string | undefined) ?? '1.0.0',
+      language: (language as string | undefined) ?? 'javascript',
+      template: template.trim(),
+      thinkingInstructions: thinkingInstructions.trim(),
+      outputFormat: {
+        issues: [],
+        summary: '',
+        stats: {},
+      },
+      files: files as string[] | undefined,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,106 @@
+import { AnthropicTokenizer, ApproximateTokenizer, getContextWindow, getPromptTokenBudget } from './tokenizer';
+import { AnthropicClient } from './anthropic-client';
+import { logger } from '../utils/logger';
+
+jest.mock('./anthropic-client');
+jest.mock('../utils/logger');
+
+describe('tokenizer', () => {
+  describe('ApproximateTokenizer', () => {
+    const tokenizer = new ApproximateTokenizer();
+
+    it('should count minified code denser than four characters per token', () => {
+      // Arrange
+      const minified = 'function a(b,c){return b.d(c)?{e:1}:[f,g]}'.repeat(20);
+
+      // Act
+      const tokens = tokenizer.countTokens(minified);
+
+      // Assert
+      expect(tokens).toBeGreaterThan(minified.length / 4);
+    });
+
+    it('should count indentation cheaper than four characters per token', () => {
+      // Arrange
+      const indented = '\n' + ' '.repeat(16) + 'x\n' + ' '.repeat(32) + 'y\n';
+
+      // Act
+      const tokens = tokenizer.countTokens(indented);
+
+      // Assert
+      expect(tokens).toBeLessThan(indented.length / 4);
+    });
+
+    it('should count non-ASCII characters as about one token each', () => {
+      // Act & Assert
+      expect(tokenizer.countTokens('変数の名前')).toBe(5);
+      expect(tokenizer.countTokens('')).toBe(0);
+    });
+  });
+
+  describe('getContextWindow', () => {
+    it('should use the longest matching model prefix', () => {
+      // Act & Assert
+      expect(getContextWindow('claude-3-opus-20240229')).toBe(200000);
+      expect(getContextWindow('claude-2.0')).toBe(100000);
+      expect(getContextWindow('claude-instant-1.2')).toBe(100000);
+      expect(getContextWindow('unknown-model')).toBe(200000);
+    });
+  });
+
+  describe('getPromptTokenBudget', () => {
+    it('should leave room for the response and a safety margin', () => {
+      // Act & Assert
+      expect(getPromptTokenBudget('claude-2.0', 4096)).toBe(85904);
+      expect(getPromptTokenBudget('claude-3-haiku-20240307')).toBe(175904);
+    });
+  });
+
+  describe('AnthropicTokenizer', () => {
+    let mockAnthropicClient: jest.Mocked<AnthropicClient>;
+    const approximation = { countTokens: (text: string) => text.length };
+
+    beforeEach(() => {
+      mockAnthropicClient = new AnthropicClient({ apiKey: 'test' }) as jest.Mocked<AnthropicClient>;
+    });
+
+    it('should scale approximate counts to the counted sample', async () => {
+      // Arrange
+      mockAnthropicClient.countTokens.mockResolvedValue(15);
+      const tokenizer = new AnthropicTokenizer(mockAnthropicClient, approximation);
+
+      // Act
+      await tokenizer.calibrate('x'.repeat(10));
+
+      // Assert
+      expect(mockAnthropicClient.countTokens.mock.calls).toContainEqual(['x'.repeat(10)]);
+      expect(tokenizer.countTokens('y'.repeat(100))).toBe(150);
+    });
+
+    it('should keep approximate counts when the endpoint is unavailable', async () => {
+      // Arrange
+      mockAnthropicClient.countTokens.mockRejectedValue(new Error('Anthropic API error: Not found'));
+      const tokenizer = new AnthropicTokenizer(mockAnthropicClient, approximation);
+
+      // Act
+      await tokenizer.calibrate('sample');
+
+      // Assert
+      expect(tokenizer.countTokens('y'.repeat(100))).toBe(100);
+      expect(jest.mocked(logger).warn.mock.calls).toContainEqual(['Token counting endpoint unavailable, using approximate counts', {
+        error: 'Anthropic API error: Not found',
+      }]);
+    });
+
+    it('should not call the endpoint for an empty sample', async () => {
+      // Arrange
+      const tokenizer = new AnthropicTokenizer(mockAnthropicClient, approximation);
+
+      // Act
+      await tokenizer.calibrate('');
+
+      // Assert
+      expect(mockAnthropicClient.countTokens.mock.calls).toHaveLength(0);
+    });
+  });
+});
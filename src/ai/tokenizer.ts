@@ -0,0 +1,137 @@
+import { AnthropicClient } from './anthropic-client';
+import { logger } from '../utils/logger';
+
+export interface Tokenizer {
+  /**
+   * Counts the tokens a piece of text takes in a prompt
+   * @param text - Prompt text
+   * @returns Token count
+   */
+  countTokens(text: string): number;
+
+  /**
+   * Adjusts later counts to a sample of the content about to be counted
+   * @param sample - Representative prompt text
+   */
+  calibrate?(sample: string): Promise<void>;
+}
+
+export const DEFAULT_MODEL = 'claude-3-opus-20240229';
+
+// Tokens a review response may take; the prompt budget leaves them free
+export const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+// Context windows by model name prefix; the longest matching prefix wins
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'claude-instant': 100000,
+  'claude-2.0': 100000,
+  'claude-2.1': 200000,
+  'claude-3': 200000,
+  'claude-opus': 200000,
+  'claude-sonnet': 200000,
+  'claude-haiku': 200000,
+};
+const DEFAULT_CONTEXT_WINDOW = 200000;
+
+// Counts are estimates, so part of the window is kept free
+const CONTEXT_SAFETY_MARGIN = 0.1;
+
+// Longer samples may exceed what the counting endpoint accepts
+const MAX_CALIBRATION_CHARS = 200000;
+const MIN_CALIBRATION_RATIO = 0.5;
+const MAX_CALIBRATION_RATIO = 3;
+
+const TOKEN_PATTERN = /[A-Za-z_$]+|\d+|\s+|[\x21-\x2f\x3a-\x40\x5b-\x5e\x60\x7b-\x7e]+|\P{ASCII}/gu;
+
+/**
+ * Gets the context window of a model
+ * @param model - Model name, such as claude-3-opus-20240229
+ * @returns Context window in tokens
+ */
+export function getContextWindow(model: string): number {
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter(candidate => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Gets the number of tokens a review prompt may take for a model
+ * @param model - Model name
+ * @param maxOutputTokens - Tokens reserved for the response
+ * @returns Prompt token budget
+ */
+export function getPromptTokenBudget(model: string, maxOutputTokens = DEFAULT_MAX_OUTPUT_TOKENS): number {
+  const window = getContextWindow(model);
+  return Math.floor(window * (1 - CONTEXT_SAFETY_MARGIN)) - maxOutputTokens;
+}
+
+/**
+ * Offline approximation of Claude's tokenizer
+ * Text is split into runs of letters, digits, whitespace and punctuation, each costed by how the tokenizer
+ * usually splits it, so minified code and non-ASCII text count denser than prose and indentation counts cheaper
+ */
+export class ApproximateTokenizer implements Tokenizer {
+  countTokens(text: string): number {
+    let tokens = 0;
+
+    for (const [run] of text.matchAll(TOKEN_PATTERN)) {
+      const first = run.charCodeAt(0);
+
+      if (first > 0x7f) {
+        // CJK, accented letters and symbols are roughly one token per code point
+        tokens += 1;
+      } else if (/\s/.test(run)) {
+        // A single space joins the next word; indentation merges into few tokens
+        tokens += Math.floor(run.length / 8);
+      } else if (/\d/.test(run)) {
+        tokens += Math.ceil(run.length / 3);
+      } else if (/[A-Za-z_$]/.test(run)) {
+        tokens += Math.ceil(run.length / 6);
+      } else {
+        tokens += Math.ceil(run.length / 2);
+      }
+    }
+
+    return tokens;
+  }
+}
+
+/**
+ * Approximate tokenizer calibrated against Anthropic's token counting endpoint
+ * Counts stay synchronous: the endpoint is called once per sample and its ratio to the approximation applied after
+ */
+export class AnthropicTokenizer implements Tokenizer {
+  private ratio = 1;
+
+  constructor(
+    private readonly anthropicClient: AnthropicClient,
+    private readonly approximation: Tokenizer = new ApproximateTokenizer()
+  ) {}
+
+  countTokens(text: string): number {
+    return Math.ceil(this.approximation.countTokens(text) * this.ratio);
+  }
+
+  /**
+   * Measures the sample with the counting endpoint, keeping the previous ratio when it is unavailable
+   * @param sample - Representative prompt text
+   */
+  async calibrate(sample: string): Promise<void> {
+    const text = sample.slice(0, MAX_CALIBRATION_CHARS);
+    const estimated = this.approximation.countTokens(text);
+    if (estimated === 0) {
+      return;
+    }
+
+    try {
+      const counted = await this.anthropicClient.countTokens(text);
+      this.ratio = Math.min(Math.max(counted / estimated, MIN_CALIBRATION_RATIO), MAX_CALIBRATION_RATIO);
+    } catch (error) {
+      logger.warn('Token counting endpoint unavailable, using approximate counts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -1,6 +1,6 @@
 export const defaultConfig = {
   // Review behavior
-  enabledFileTypes: ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'],
+  enabledFileTypes: ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.vue'],
   ignoredPaths: [
     'node_modules/**',
     'dist/**',
@@ -13,9 +13,10 @@ export const defaultConfig = {
   
   // AI behavior
   reviewPromptVersion: '1.0.0',
-  minimumSeverity: 'info' as const,
+  minimumSeverity: 'info' as 'error' | 'warning' | 'info',
   maxCommentsPerFile: 10,
   maxCommentsPerPR: 20,
+  maxRepliesPerThread: 3,
   
   // Review categories
   enabledCategories: [
@@ -36,21 +37,53 @@ export const defaultConfig = {
   
   // Framework-specific settings
   reactSettings: {
+    enabled: true,
     enforceHooksRules: true,
     preferFunctionalComponents: true,
     checkAccessibility: true,
   },
   
   expressSettings: {
+    enabled: true,
     checkSecurityHeaders: true,
     enforceErrorHandling: true,
     validateInputSanitization: true,
   },
   
+  nextjsSettings: {
+    enabled: true,
+    checkComponentBoundaries: true,
+    checkDataFetching: true,
+  },
+  
+  nestjsSettings: {
+    enabled: true,
+    checkDependencyInjection: true,
+    checkDecorators: true,
+  },
+  
+  vueSettings: {
+    enabled: true,
+    checkReactivity: true,
+  },
+  
+  nodeStreamsSettings: {
+    enabled: true,
+    checkBackpressure: true,
+  },
+  
+  testSettings: {
+    enabled: true,
+    detectFlakyTests: true,
+    requireAssertions: true,
+  },
+  
   // Performance limits
-  maxFileSize: 1024 * 1024, // 1MB
-  maxDiffSize: 500 * 1024,  // 500KB
-  maxFilesPerReview: 50,
+  maxFileSize: 1024 * 1024, // 1MB of file content
+  maxDiffSize: 500 * 1024,  // 500KB of patch per file
+  maxFilesPerReview: 200,
+  maxRelatedFiles: 10, // Unchanged imported modules and tests added as review context
+  maxConcurrentReviews: 3, // Parallel AI calls when a PR is reviewed in batches
   maxExecutionTime: 300000, // 5 minutes
   
   // Rate limiting
@@ -59,4 +92,6 @@ export const defaultConfig = {
     perHour: 100,
     perDay: 1000,
   },
-};
\ No newline at end of file
+};
+
+export type ReviewSettings = typeof defaultConfig;
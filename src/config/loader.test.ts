@@ -69,6 +69,7 @@ describe('Config Loader', () => {
       expect(config.aiTemperature).toBe(0.3);
       expect(config.maxRetries).toBe(3);
       expect(config.aiTimeoutMs).toBe(30000);
+      expect(config.exactTokenCounting).toBe(false);
       expect(config.nodeEnv).toBe('test'); // Set by Jest
       expect(config.logLevel).toBe('info');
     });
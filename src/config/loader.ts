@@ -19,6 +19,7 @@ export interface Config {
   aiTemperature: number;
   maxRetries: number;
   aiTimeoutMs: number;
+  exactTokenCounting: boolean;
 
   // Application Configuration
   nodeEnv: string;
@@ -62,6 +63,7 @@ export async function getConfig(): Promise<Config> {
     aiTemperature: parseFloat(process.env.AI_TEMPERATURE || '0.3'),
     maxRetries: parseInt(process.env.MAX_RETRIES || '3', 10),
     aiTimeoutMs: parseInt(process.env.AI_TIMEOUT_MS || '30000', 10),
+    exactTokenCounting: process.env.EXACT_TOKEN_COUNTING === 'true',
 
     // Application Configuration
     nodeEnv: process.env.NODE_ENV || 'development',
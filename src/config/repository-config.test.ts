@@ -0,0 +1,168 @@
+import { parseRepositoryConfig, REPOSITORY_CONFIG_SCHEMA } from './repository-config';
+import { defaultConfig } from './default';
+import { InstructionProcessor } from '../ai/instruction-processor';
+import { GitHubClient } from '../github/client';
+
+jest.mock('../github/client');
+
+describe('repository-config', () => {
+  describe('REPOSITORY_CONFIG_SCHEMA', () => {
+    it('should cover every review setting that changes the review', () => {
+      // Arrange
+      const defaults = new InstructionProcessor({} as GitHubClient).getDefaultConfig();
+      const properties = REPOSITORY_CONFIG_SCHEMA.properties || {};
+      const unused = [
+        'enabledChecks',
+        'enabledFileTypes',
+        'reviewPromptVersion',
+        'severityThresholds',
+        'maxExecutionTime',
+        'rateLimits',
+      ];
+
+      // Act & Assert
+      for (const key of Object.keys(defaults)) {
+        if (unused.includes(key)) {
+          expect(properties).not.toHaveProperty([key]);
+        } else {
+          expect(properties).toHaveProperty([key]);
+        }
+      }
+      for (const [key, value] of Object.entries(defaultConfig)) {
+        if (typeof value === 'object' && !Array.isArray(value) && !unused.includes(key)) {
+          expect(Object.keys(properties[key].properties || {})).toEqual(Object.keys(value));
+        }
+      }
+    });
+
+    it('should allow locking every setting', () => {
+      // Arrange
+      const properties = REPOSITORY_CONFIG_SCHEMA.properties || {};
+      const settings = Object.keys(properties).filter(key => !['$schema', 'extends', 'locked'].includes(key));
+
+      // Act & Assert
+      expect(properties.locked.items?.enum).toEqual(settings);
+    });
+  });
+
+  describe('parseRepositoryConfig', () => {
+    it('should read valid settings', () => {
+      // Arrange
+      const content = [
+        'maxCommentsPerPR: 5',
+        'minimumSeverity: warning',
+        'focusAreas:',
+        '  - Accessibility',
+        'reactSettings:',
+        '  enabled: false',
+      ].join('\n');
+
+      // Act
+      const result = parseRepositoryConfig('.reviewthor.yml', content);
+
+      // Assert
+      expect(result).toEqual({
+        config: {
+          maxCommentsPerPR: 5,
+          minimumSeverity: 'warning',
+          focusAreas: ['Accessibility'],
+          reactSettings: { enabled: false },
+        },
+        errors: [],
+      });
+    });
+
+    it('should read JSON', () => {
+      // Act
+      const result = parseRepositoryConfig('.reviewthor.json', '{ "maxFileSize": 2048, "ignoredPaths": ["generated/**"] }');
+
+      // Assert
+      expect(result.config).toEqual({ maxFileSize: 2048, ignoredPaths: ['generated/**'] });
+    });
+
+    it('should leave out invalid settings and report them with their lines', () => {
+      // Arrange
+      const content = [
+        'maxCommentsPerPR: -1',
+        'severity: critical',
+        'maxComments: 5',
+        'enabledCategories:',
+        '  - bug',
+        '  - style',
+        'reactSettings:',
+        '  enabled: "no"',
+        '  checkAccessibility: false',
+        'focusAreas: Security',
+      ].join('\n');
+
+      // Act
+      const result = parseRepositoryConfig('.reviewthor.yml', content);
+
+      // Assert
+      expect(result.config).toEqual({
+        enabledCategories: ['bug'],
+        reactSettings: { checkAccessibility: false },
+      });
+      expect(result.errors).toEqual([
+        { path: '.reviewthor.yml', line: 1, message: 'maxCommentsPerPR must be at least 0.' },
+        { path: '.reviewthor.yml', line: 2, message: 'severity must be one of error, warning, info.' },
+        { path: '.reviewthor.yml', line: 3, message: 'Unknown setting "maxComments".' },
+        {
+          path: '.reviewthor.yml',
+          line: 6,
+          message: 'enabledCategories[1] must be one of bug, security, performance, code-quality, type-safety, best-practices, documentation.',
+        },
+        { path: '.reviewthor.yml', line: 8, message: 'reactSettings.enabled must be true or false.' },
+        { path: '.reviewthor.yml', line: 10, message: 'focusAreas must be a list.' },
+      ]);
+    });
+
+    it('should report limits above their maximum', () => {
+      // Act
+      const result = parseRepositoryConfig('.reviewthor.yml', 'maxCommentsPerPR: 5000\nmaxRepliesPerThread: 5\n');
+
+      // Assert
+      expect(result.config).toEqual({ maxRepliesPerThread: 5 });
+      expect(result.errors).toEqual([
+        { path: '.reviewthor.yml', line: 1, message: 'maxCommentsPerPR must be at most 100.' },
+      ]);
+    });
+
+    it('should read path overrides and require their file globs', () => {
+      // Arrange
+      const content = [
+        'overrides:',
+        '  - files: [packages/legacy/**]',
+        '    minimumSeverity: error',
+        '  - focusAreas: [Security]',
+      ].join('\n');
+
+      // Act
+      const result = parseRepositoryConfig('.reviewthor.yml', content);
+
+      // Assert
+      expect(result.config).toEqual({
+        overrides: [{ files: ['packages/legacy/**'], minimumSeverity: 'error' }],
+      });
+      expect(result.errors).toEqual([{ path: '.reviewthor.yml', line: 4, message: 'overrides[1] needs files.' }]);
+    });
+
+    it('should report YAML syntax errors and files that are not settings', () => {
+      // Act
+      const invalid = parseRepositoryConfig('.reviewthor.yml', 'maxCommentsPerPR: 5\nfocusAreas: [Security\n');
+      const list = parseRepositoryConfig('.reviewthor.yml', '- maxCommentsPerPR: 5\n');
+      const empty = parseRepositoryConfig('.reviewthor.yml', '');
+
+      // Assert
+      expect(invalid.config).toEqual({});
+      expect(invalid.errors).toHaveLength(1);
+      expect(invalid.errors[0].path).toBe('.reviewthor.yml');
+      expect(invalid.errors[0].message).toMatch(/^Invalid YAML: /);
+      expect(invalid.errors[0].line).toBeGreaterThanOrEqual(2);
+      expect(list.errors).toEqual([
+        { path: '.reviewthor.yml', line: 1, message: 'The configuration must be settings such as "maxCommentsPerPR: 10".' },
+      ]);
+      expect(empty).toEqual({ config: {}, errors: [] });
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { isMap, isScalar, isSeq, LineCounter, Node, parseDocument } from 'yaml';
+import schema from './reviewthor.schema.json';
+import { ReviewConfig } from '../ai/instruction-processor';
+import { ConfigurationError } from '../github/review-summary';
+
+/**
+ * Settings a repository sets in .reviewthor.yml; nested settings such as reactSettings may be partial
+ */
+export type RepositoryConfig = {
+  [K in keyof ReviewConfig]?: ReviewConfig[K] extends unknown[]
+    ? ReviewConfig[K]
+    : ReviewConfig[K] extends object ? Partial<ReviewConfig[K]> : ReviewConfig[K];
+} & {
+  /** Presets the file builds on, resolved when it is loaded */
+  extends?: string[];
+};
+
+export interface ParsedRepositoryConfig {
+  /** Valid settings; invalid ones are left out and reported in errors */
+  config: RepositoryConfig;
+  errors: ConfigurationError[];
+}
+
+/**
+ * Subset of JSON Schema used by reviewthor.schema.json
+ */
+export interface SchemaNode {
+  type?: string;
+  description?: string;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean;
+  required?: string[];
+}
+
+// Looked up in order; YAML also reads JSON, so every name is parsed the same way
+export const REPOSITORY_CONFIG_FILES = ['.reviewthor.yml', '.reviewthor.yaml', '.reviewthor.json'];
+
+export const REPOSITORY_CONFIG_SCHEMA: SchemaNode = schema;
+
+// A .reviewthor.yml in a subdirectory is an override block for the files below it
+export const DIRECTORY_CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  additionalProperties: false,
+  properties: Object.fromEntries(
+    Object.entries(schema.properties.overrides.items.properties).filter(([key]) => key !== 'files')
+  ),
+};
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'text',
+  integer: 'a whole number',
+  number: 'a number',
+  boolean: 'true or false',
+  array: 'a list',
+  object: 'a group of settings',
+};
+
+/**
+ * Parses and validates a repository configuration file against reviewthor.schema.json
+ * @param path - Path of the configuration file
+ * @param content - Content of the configuration file
+ * @param configSchema - Schema the file must match
+ * @returns The valid settings, and the problems found in the others
+ */
+export function parseRepositoryConfig(
+  path: string,
+  content: string,
+  configSchema: SchemaNode = REPOSITORY_CONFIG_SCHEMA
+): ParsedRepositoryConfig {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(content, { lineCounter });
+  const lineAt = (offset: number): number => lineCounter.linePos(offset).line;
+
+  if (document.errors.length > 0) {
+    return {
+      config: {},
+      errors: document.errors.map(error => ({
+        path,
+        line: lineAt(error.pos[0]),
+        message: `Invalid YAML: ${error.message.split('\n')[0]}`,
+      })),
+    };
+  }
+
+  // An empty file sets nothing
+  if (document.contents === null) {
+    return { config: {}, errors: [] };
+  }
+
+  if (!isMap(document.contents)) {
+    return { config: {}, errors: [{ path, line: 1, message: 'The configuration must be settings such as "maxCommentsPerPR: 10".' }] };
+  }
+
+  const errors: ConfigurationError[] = [];
+  const report = (node: Node, message: string): void => {
+    errors.push({ path, line: node.range ? lineAt(node.range[0]) : 1, message });
+  };
+
+  const config = readNode(document.contents, configSchema, '', report);
+  return { config: config as RepositoryConfig, errors };
+}
+
+/**
+ * Reads a YAML node that must match a schema, dropping the parts that do not
+ * @param node - YAML node, or null for a setting without a value
+ * @param schema - Schema the node must match
+ * @param name - Setting name used in messages, empty for the whole file
+ * @param report - Records a problem at a node
+ * @param at - Node reported when the value is missing
+ * @returns The plain value, or undefined when the node does not match
+ */
+function readNode(
+  node: unknown,
+  schema: SchemaNode,
+  name: string,
+  report: (node: Node, message: string) => void,
+  at = node as Node
+): unknown {
+  if (schema.type === 'object') {
+    if (!isMap(node)) {
+      report(at, `${name} must be ${TYPE_NAMES.object}.`);
+      return undefined;
+    }
+
+    const value: Record<string, unknown> = {};
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : '';
+      const keyNode = pair.key as Node;
+      const fieldName = name ? `${name}.${key}` : key;
+      const fieldSchema = schema.properties?.[key];
+      if (!fieldSchema) {
+        report(keyNode, `Unknown setting "${fieldName}".`);
+        continue;
+      }
+
+      const field = readNode(pair.value, fieldSchema, fieldName, report, (pair.value as Node | null) ?? keyNode);
+      if (field !== undefined) {
+        value[key] = field;
+      }
+    }
+
+    const missing = (schema.required || []).filter(key => !(key in value));
+    if (missing.length > 0) {
+      report(at, `${name} needs ${missing.join(', ')}.`);
+      return undefined;
+    }
+    return value;
+  }
+
+  if (schema.type === 'array') {
+    if (!isSeq(node)) {
+      report(at, `${name} must be ${TYPE_NAMES.array}.`);
+      return undefined;
+    }
+
+    return node.items
+      .map((item, index) => readNode(item, schema.items ?? {}, `${name}[${index}]`, report, (item as Node | null) ?? at))
+      .filter(item => item !== undefined);
+  }
+
+  const value = isScalar(node) ? node.value : undefined;
+  const problem = checkScalar(value, schema);
+  if (problem) {
+    report(at, `${name} ${problem}.`);
+    return undefined;
+  }
+  return value;
+}
+
+function checkScalar(value: unknown, schema: SchemaNode): string | undefined {
+  const matchesType = {
+    string: typeof value === 'string',
+    integer: Number.isInteger(value),
+    number: typeof value === 'number' && Number.isFinite(value),
+    boolean: typeof value === 'boolean',
+  }[schema.type as 'string' | 'integer' | 'number' | 'boolean'] ?? true;
+
+  if (!matchesType) {
+    return `must be ${TYPE_NAMES[schema.type as string]}`;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `must be one of ${schema.enum.join(', ')}`;
+  }
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+    return `must be at least ${schema.minimum}`;
+  }
+  if (schema.maximum !== undefined && (value as number) > schema.maximum) {
+    return `must be at most ${schema.maximum}`;
+  }
+  if (schema.maxLength !== undefined && (value as string).length > schema.maxLength) {
+    return `must be at most ${schema.maxLength} characters`;
+  }
+  return undefined;
+}
@@ -150,7 +150,7 @@ describe('GitHubClient - Branch Coverage', () => {
       const result = await githubClient.getFiles('owner', 'repo', 1);
 
       // Assert
-      expect(result).toEqual([]);
+      expect(result.files).toEqual([]);
     });
 
     it('should handle file extensions case-sensitively', async () => {
@@ -171,7 +171,7 @@ describe('GitHubClient - Branch Coverage', () => {
       const result = await githubClient.getFiles('owner', 'repo', 1);
 
       // Assert
-      expect(result).toEqual([]); // None should match due to case sensitivity
+      expect(result.files).toEqual([]); // None should match due to case sensitivity
     });
   });
 
@@ -1,29 +1,81 @@
-import { GitHubClient } from './client';
+import { CheckRunAnnotation, Comment, GitHubClient, IssueComment } from './client';
 import { App } from '@octokit/app';
 
 jest.mock('@octokit/app');
 
+type EndpointMock = jest.Mock<Promise<unknown>, [Record<string, unknown>]>;
+
+interface MockOctokit {
+  pulls: Record<
+    'get' | 'listFiles' | 'createReview' | 'listReviewComments' | 'createReplyForReviewComment' | 'getReviewComment',
+    EndpointMock
+  >;
+  graphql: jest.Mock<Promise<unknown>, [string, Record<string, unknown>]>;
+  repos: Record<'getContent' | 'compareCommits' | 'getCollaboratorPermissionLevel', EndpointMock>;
+  issues: Record<'listComments' | 'createComment' | 'updateComment', EndpointMock>;
+  checks: Record<'create' | 'update', EndpointMock>;
+  git: Record<'getTree', EndpointMock>;
+  search: Record<'code', EndpointMock>;
+}
+
+interface ReviewParams {
+  body?: string;
+  comments: Comment[];
+}
+
+interface ThreadNode {
+  id: string;
+  isResolved: boolean;
+  comments: { nodes: { databaseId: number }[] };
+}
+
+const endpoint = (): EndpointMock => jest.fn<Promise<unknown>, [Record<string, unknown>]>();
+
 describe('GitHubClient', () => {
   let githubClient: GitHubClient;
   let mockApp: jest.Mocked<App>;
-  let mockOctokit: any;
+  let mockOctokit: MockOctokit;
 
   beforeEach(() => {
     // Setup mock Octokit instance
     mockOctokit = {
       pulls: {
-        get: jest.fn(),
-        listFiles: jest.fn(),
-        createReview: jest.fn(),
+        get: endpoint(),
+        listFiles: endpoint(),
+        createReview: endpoint(),
+        listReviewComments: endpoint(),
+        createReplyForReviewComment: endpoint(),
+        getReviewComment: endpoint(),
       },
+      graphql: jest.fn<Promise<unknown>, [string, Record<string, unknown>]>(),
       repos: {
-        getContent: jest.fn(),
+        getContent: endpoint(),
+        compareCommits: endpoint(),
+        getCollaboratorPermissionLevel: endpoint(),
+      },
+      issues: {
+        listComments: endpoint(),
+        createComment: endpoint(),
+        updateComment: endpoint(),
+      },
+      checks: {
+        create: endpoint(),
+        update: endpoint(),
+      },
+      git: {
+        getTree: endpoint(),
+      },
+      search: {
+        code: endpoint(),
       },
     };
 
     // Setup mock App
     mockApp = {
       getInstallationOctokit: jest.fn().mockResolvedValue(mockOctokit),
+      octokit: {
+        request: jest.fn().mockResolvedValue({ data: { slug: 'reviewthor' } }),
+      },
     } as any;
 
     // Mock the App constructor
@@ -61,6 +113,19 @@ describe('GitHubClient', () => {
     });
   });
 
+  describe('getAppLogin', () => {
+    it('should return the bot login of the app and look it up once', async () => {
+      // Act
+      const login = await githubClient.getAppLogin();
+      await githubClient.getAppLogin();
+
+      // Assert
+      expect(login).toBe('reviewthor[bot]');
+      expect(mockApp.octokit.request).toHaveBeenCalledTimes(1);
+      expect(mockApp.octokit.request).toHaveBeenCalledWith('GET /app');
+    });
+  });
+
   describe('getPullRequest', () => {
     it('should fetch pull request details', async () => {
       // Arrange
@@ -78,7 +143,7 @@ describe('GitHubClient', () => {
         },
       };
 
-      mockOctokit.pulls.get.mockResolvedValue(mockPR as any);
+      mockOctokit.pulls.get.mockResolvedValue(mockPR);
       await githubClient.authenticate(789);
 
       // Act
@@ -132,7 +197,7 @@ describe('GitHubClient', () => {
         ],
       };
 
-      mockOctokit.pulls.listFiles.mockResolvedValue(mockFiles as any);
+      mockOctokit.pulls.listFiles.mockResolvedValue(mockFiles);
       await githubClient.authenticate(789);
 
       // Act
@@ -144,8 +209,56 @@ describe('GitHubClient', () => {
         repo,
         pull_number,
         per_page: 100,
+        page: 1,
       });
-      expect(result).toEqual(mockFiles.data);
+      expect(result).toEqual({
+        files: mockFiles.data,
+        paths: ['src/index.js', 'src/utils.js'],
+        totalCount: 2,
+        capReached: false,
+      });
+    });
+
+    it('should follow pagination until a partial page is returned', async () => {
+      // Arrange
+      const page = (start: number, count: number): { data: { filename: string }[] } => ({
+        data: Array.from({ length: count }, (_, i) => ({ filename: `src/file${start + i}.ts` })),
+      });
+      mockOctokit.pulls.listFiles
+        .mockResolvedValueOnce(page(0, 100))
+        .mockResolvedValueOnce(page(100, 100))
+        .mockResolvedValueOnce(page(200, 20));
+      await githubClient.authenticate(789);
+
+      // Act
+      const result = await githubClient.getFiles('test-owner', 'test-repo', 1);
+
+      // Assert
+      expect(mockOctokit.pulls.listFiles).toHaveBeenCalledTimes(3);
+      expect(mockOctokit.pulls.listFiles).toHaveBeenLastCalledWith(
+        expect.objectContaining({ page: 3 })
+      );
+      expect(result.files).toHaveLength(220);
+      expect(result.totalCount).toBe(220);
+      expect(result.capReached).toBe(false);
+    });
+
+    it('should stop at the GitHub file listing cap', async () => {
+      // Arrange
+      mockOctokit.pulls.listFiles.mockImplementation(({ page }) =>
+        Promise.resolve({
+          data: Array.from({ length: 100 }, (_, i) => ({ filename: `src/p${Number(page)}-${i}.js` })),
+        })
+      );
+      await githubClient.authenticate(789);
+
+      // Act
+      const result = await githubClient.getFiles('test-owner', 'test-repo', 1);
+
+      // Assert
+      expect(mockOctokit.pulls.listFiles).toHaveBeenCalledTimes(30);
+      expect(result.totalCount).toBe(3000);
+      expect(result.capReached).toBe(true);
     });
 
     it('should filter only JavaScript/TypeScript files', async () => {
@@ -164,14 +277,14 @@ describe('GitHubClient', () => {
         ],
       };
 
-      mockOctokit.pulls.listFiles.mockResolvedValue(mockFiles as any);
+      mockOctokit.pulls.listFiles.mockResolvedValue(mockFiles);
       await githubClient.authenticate(789);
 
       // Act
       const result = await githubClient.getFiles(owner, repo, pull_number);
 
       // Assert
-      const filteredFiles = result.filter(f => 
+      const filteredFiles = result.files.filter(f => 
         /\.(js|jsx|ts|tsx)$/.test(f.filename)
       );
       expect(filteredFiles).toHaveLength(4);
@@ -182,6 +295,120 @@ describe('GitHubClient', () => {
         'src/test.jsx',
       ]);
     });
+
+    it('should keep Vue components and ES module and CommonJS files', async () => {
+      // Arrange
+      mockOctokit.pulls.listFiles.mockResolvedValue({
+        data: [
+          { filename: 'src/Card.vue', status: 'modified' },
+          { filename: 'scripts/build.mjs', status: 'modified' },
+          { filename: 'config/jest.config.cjs', status: 'added' },
+          { filename: 'src/styles.css', status: 'modified' },
+        ],
+      });
+      await githubClient.authenticate(789);
+
+      // Act
+      const result = await githubClient.getFiles('test-owner', 'test-repo', 1);
+
+      // Assert
+      expect(result.files.map(f => f.filename)).toEqual(['src/Card.vue', 'scripts/build.mjs', 'config/jest.config.cjs']);
+    });
+  });
+
+  describe('listDirectory', () => {
+    it('should list the files in a directory', async () => {
+      // Arrange
+      mockOctokit.repos.getContent.mockResolvedValue({
+        data: [
+          { path: '.reviewthor/templates/api.md', type: 'file' },
+          { path: '.reviewthor/templates/drafts', type: 'dir' },
+        ],
+      });
+      await githubClient.authenticate(789);
+
+      // Act
+      const paths = await githubClient.listDirectory('owner', 'repo', '.reviewthor/templates', 'abc123');
+
+      // Assert
+      expect(paths).toEqual(['.reviewthor/templates/api.md']);
+      expect(mockOctokit.repos.getContent).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        path: '.reviewthor/templates',
+        ref: 'abc123',
+      });
+    });
+
+    it('should return no files for a missing directory or a file path', async () => {
+      // Arrange
+      mockOctokit.repos.getContent
+        .mockRejectedValueOnce({ status: 404 })
+        .mockResolvedValueOnce({ data: { type: 'file', path: '.reviewthor/templates' } });
+      await githubClient.authenticate(789);
+
+      // Act & Assert
+      expect(await githubClient.listDirectory('owner', 'repo', '.reviewthor/templates', 'abc123')).toEqual([]);
+      expect(await githubClient.listDirectory('owner', 'repo', '.reviewthor/templates', 'abc123')).toEqual([]);
+    });
+  });
+
+  describe('getTree', () => {
+    it('should list file paths at the ref', async () => {
+      // Arrange
+      mockOctokit.git.getTree.mockResolvedValue({
+        data: {
+          tree: [
+            { path: 'src', type: 'tree' },
+            { path: 'src/index.ts', type: 'blob' },
+            { path: 'package.json', type: 'blob' },
+          ],
+          truncated: false,
+        },
+      });
+      await githubClient.authenticate(789);
+
+      // Act
+      const result = await githubClient.getTree('test-owner', 'test-repo', 'abc123');
+
+      // Assert
+      expect(mockOctokit.git.getTree).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        tree_sha: 'abc123',
+        recursive: 'true',
+      });
+      expect(result).toEqual({ paths: ['src/index.ts', 'package.json'], truncated: false });
+    });
+
+    it('should return null for an unknown ref', async () => {
+      // Arrange
+      mockOctokit.git.getTree.mockRejectedValue({ status: 404 });
+      await githubClient.authenticate(789);
+
+      // Act & Assert
+      await expect(githubClient.getTree('test-owner', 'test-repo', 'missing')).resolves.toBeNull();
+    });
+  });
+
+  describe('searchCode', () => {
+    it('should search the repository and return matching paths', async () => {
+      // Arrange
+      mockOctokit.search.code.mockResolvedValue({
+        data: { items: [{ path: 'src/cart.ts' }, { path: 'src/report.ts' }] },
+      });
+      await githubClient.authenticate(789);
+
+      // Act
+      const result = await githubClient.searchCode('test-owner', 'test-repo', 'calculateTotal');
+
+      // Assert
+      expect(mockOctokit.search.code).toHaveBeenCalledWith({
+        q: '"calculateTotal" repo:test-owner/test-repo',
+        per_page: 100,
+      });
+      expect(result).toEqual(['src/cart.ts', 'src/report.ts']);
+    });
   });
 
   describe('getFile', () => {
@@ -199,7 +426,7 @@ describe('GitHubClient', () => {
         },
       };
 
-      mockOctokit.repos.getContent.mockResolvedValue(mockContent as any);
+      mockOctokit.repos.getContent.mockResolvedValue(mockContent);
       await githubClient.authenticate(789);
 
       // Act
@@ -252,7 +479,7 @@ describe('GitHubClient', () => {
         },
       ];
 
-      mockOctokit.pulls.createReview.mockResolvedValue({ data: { id: 123 } } as any);
+      mockOctokit.pulls.createReview.mockResolvedValue({ data: { id: 123 } });
       await githubClient.authenticate(789);
 
       // Act
@@ -273,12 +500,68 @@ describe('GitHubClient', () => {
       });
     });
 
+    it('should send multi-line comments with a start line', async () => {
+      // Arrange
+      await githubClient.authenticate(789);
+
+      // Act
+      await githubClient.createReview('test-owner', 'test-repo', 1, [
+        { path: 'src/index.js', line: 12, start_line: 10, body: 'Suggested change' },
+      ]);
+
+      // Assert
+      expect(mockOctokit.pulls.createReview).toHaveBeenCalledWith(expect.objectContaining({
+        comments: [{
+          path: 'src/index.js',
+          line: 12,
+          start_line: 10,
+          start_side: 'RIGHT',
+          body: 'Suggested change',
+          side: 'RIGHT',
+        }],
+      }));
+    });
+
+    it('should isolate comments GitHub rejects and post the rest', async () => {
+      // Arrange
+      const comments = [1, 2, 3, 4].map(line => ({ path: 'src/index.js', line, body: `Comment ${line}` }));
+      mockOctokit.pulls.createReview.mockImplementation(params => {
+        if ((params as unknown as ReviewParams).comments.some(comment => comment.line === 3)) {
+          return Promise.reject(Object.assign(new Error('Unprocessable Entity'), { status: 422 }));
+        }
+        return Promise.resolve({ data: { id: 1 } });
+      });
+      await githubClient.authenticate(789);
+
+      // Act
+      const rejected = await githubClient.createReview('test-owner', 'test-repo', 1, comments, 'Note');
+
+      // Assert
+      expect(rejected).toEqual([comments[2]]);
+      const posted = mockOctokit.pulls.createReview.mock.calls
+        .map(([params]) => params as unknown as ReviewParams)
+        .filter(params => !params.comments.some(comment => comment.line === 3));
+      expect(posted.flatMap(params => params.comments.map(comment => comment.line))).toEqual([1, 2, 4]);
+      expect(posted.filter(params => params.body === 'Note')).toHaveLength(1);
+    });
+
+    it('should rethrow errors other than rejected comments', async () => {
+      // Arrange
+      mockOctokit.pulls.createReview.mockRejectedValue(Object.assign(new Error('Server error'), { status: 500 }));
+      await githubClient.authenticate(789);
+
+      // Act & Assert
+      await expect(
+        githubClient.createReview('test-owner', 'test-repo', 1, [{ path: 'a.js', line: 1, body: 'x' }])
+      ).rejects.toThrow('Server error');
+    });
+
     it('should handle empty comments array', async () => {
       // Arrange
       const owner = 'test-owner';
       const repo = 'test-repo';
       const pull_number = 1;
-      const comments: any[] = [];
+      const comments: Comment[] = [];
 
       await githubClient.authenticate(789);
 
@@ -300,7 +583,7 @@ describe('GitHubClient', () => {
         body: `Comment ${i + 1}`,
       }));
 
-      mockOctokit.pulls.createReview.mockResolvedValue({ data: { id: 123 } } as any);
+      mockOctokit.pulls.createReview.mockResolvedValue({ data: { id: 123 } });
       await githubClient.authenticate(789);
 
       // Act
@@ -320,4 +603,338 @@ describe('GitHubClient', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('createCheckRun', () => {
+    it('should create an in-progress check run on the head commit', async () => {
+      // Arrange
+      mockOctokit.checks.create.mockResolvedValue({ data: { id: 42 } });
+      await githubClient.authenticate(789);
+
+      // Act
+      const id = await githubClient.createCheckRun('test-owner', 'test-repo', 'abc123');
+
+      // Assert
+      expect(id).toBe(42);
+      expect(mockOctokit.checks.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          owner: 'test-owner',
+          repo: 'test-repo',
+          name: 'ReviewThor',
+          head_sha: 'abc123',
+          status: 'in_progress',
+        })
+      );
+    });
+
+    it('should throw error if not authenticated', async () => {
+      await expect(githubClient.createCheckRun('owner', 'repo', 'sha'))
+        .rejects.toThrow('GitHub client not authenticated');
+    });
+  });
+
+  describe('completeCheckRun', () => {
+    const annotation = (line: number): CheckRunAnnotation => ({
+      path: 'src/index.js',
+      start_line: line,
+      end_line: line,
+      annotation_level: 'warning' as const,
+      message: `Issue ${line}`,
+    });
+
+    it('should complete the check run in a single request without annotations', async () => {
+      // Arrange
+      await githubClient.authenticate(789);
+
+      // Act
+      await githubClient.completeCheckRun('test-owner', 'test-repo', 42, 'success', {
+        title: 'No issues found',
+        summary: 'All good',
+      });
+
+      // Assert
+      expect(mockOctokit.checks.update).toHaveBeenCalledTimes(1);
+      expect(mockOctokit.checks.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          check_run_id: 42,
+          status: 'completed',
+          conclusion: 'success',
+          output: { title: 'No issues found', summary: 'All good' },
+        })
+      );
+    });
+
+    it('should upload annotations in batches of 50', async () => {
+      // Arrange
+      await githubClient.authenticate(789);
+      const annotations = Array.from({ length: 120 }, (_, i) => annotation(i + 1));
+
+      // Act
+      await githubClient.completeCheckRun('test-owner', 'test-repo', 42, 'neutral', {
+        title: '120 issues found',
+        summary: 'Summary',
+        annotations,
+      });
+
+      // Assert
+      expect(mockOctokit.checks.update).toHaveBeenCalledTimes(3);
+      const calls = mockOctokit.checks.update.mock.calls
+        .map(([params]) => params as { status?: string; output: { annotations: CheckRunAnnotation[] } });
+      expect(calls.map(call => call.output.annotations.length)).toEqual([50, 50, 20]);
+      expect(calls[0].status).toBeUndefined();
+      expect(calls[2]).toEqual(expect.objectContaining({ status: 'completed', conclusion: 'neutral' }));
+    });
+
+    it('should throw error if not authenticated', async () => {
+      await expect(
+        githubClient.completeCheckRun('owner', 'repo', 1, 'success', { title: 't', summary: 's' })
+      ).rejects.toThrow('GitHub client not authenticated');
+    });
+  });
+
+  describe('compareCommits', () => {
+    it('should return comparison status and changed files', async () => {
+      // Arrange
+      const files = [{ filename: 'src/index.js', status: 'modified', patch: '@@ -1 +1 @@' }];
+      mockOctokit.repos.compareCommits.mockResolvedValue({ data: { status: 'ahead', files } });
+      await githubClient.authenticate(789);
+
+      // Act
+      const result = await githubClient.compareCommits('test-owner', 'test-repo', 'old', 'new');
+
+      // Assert
+      expect(mockOctokit.repos.compareCommits).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        base: 'old',
+        head: 'new',
+      });
+      expect(result).toEqual({ status: 'ahead', files });
+    });
+
+    it('should return null when a commit no longer exists', async () => {
+      // Arrange
+      mockOctokit.repos.compareCommits.mockRejectedValue({ status: 404 });
+      await githubClient.authenticate(789);
+
+      // Act & Assert
+      await expect(githubClient.compareCommits('o', 'r', 'gone', 'new')).resolves.toBeNull();
+    });
+
+    it('should rethrow other errors', async () => {
+      // Arrange
+      mockOctokit.repos.compareCommits.mockRejectedValue(new Error('Server error'));
+      await githubClient.authenticate(789);
+
+      // Act & Assert
+      await expect(githubClient.compareCommits('o', 'r', 'a', 'b')).rejects.toThrow('Server error');
+    });
+  });
+
+  describe('issue comments', () => {
+    it('should list comments across pages', async () => {
+      // Arrange
+      const page = (count: number): { data: IssueComment[] } => ({
+        data: Array.from({ length: count }, (_, i) => ({ id: i, body: 'text', user: { login: 'u', type: 'User' } })),
+      });
+      mockOctokit.issues.listComments.mockResolvedValueOnce(page(100)).mockResolvedValueOnce(page(3));
+      await githubClient.authenticate(789);
+
+      // Act
+      const comments = await githubClient.listIssueComments('test-owner', 'test-repo', 1);
+
+      // Assert
+      expect(comments).toHaveLength(103);
+      expect(mockOctokit.issues.listComments).toHaveBeenLastCalledWith(
+        expect.objectContaining({ issue_number: 1, page: 2 })
+      );
+    });
+
+    it('should create and update comments', async () => {
+      // Arrange
+      await githubClient.authenticate(789);
+
+      // Act
+      await githubClient.createIssueComment('test-owner', 'test-repo', 1, 'Hello');
+      await githubClient.updateIssueComment('test-owner', 'test-repo', 99, 'Updated');
+
+      // Assert
+      expect(mockOctokit.issues.createComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        issue_number: 1,
+        body: 'Hello',
+      });
+      expect(mockOctokit.issues.updateComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        comment_id: 99,
+        body: 'Updated',
+      });
+    });
+
+    it('should throw error if not authenticated', async () => {
+      await expect(githubClient.listIssueComments('o', 'r', 1)).rejects.toThrow('GitHub client not authenticated');
+      await expect(githubClient.createIssueComment('o', 'r', 1, 'b')).rejects.toThrow('GitHub client not authenticated');
+      await expect(githubClient.updateIssueComment('o', 'r', 1, 'b')).rejects.toThrow('GitHub client not authenticated');
+      await expect(githubClient.compareCommits('o', 'r', 'a', 'b')).rejects.toThrow('GitHub client not authenticated');
+    });
+  });
+
+  describe('review comments and threads', () => {
+    it('should list review comments across pages', async () => {
+      // Arrange
+      const page = (count: number): { data: { id: number }[] } => ({ data: Array.from({ length: count }, (_, i) => ({ id: i })) });
+      mockOctokit.pulls.listReviewComments.mockResolvedValueOnce(page(100)).mockResolvedValueOnce(page(1));
+      await githubClient.authenticate(789);
+
+      // Act
+      const comments = await githubClient.listReviewComments('test-owner', 'test-repo', 1);
+
+      // Assert
+      expect(comments).toHaveLength(101);
+      expect(mockOctokit.pulls.listReviewComments).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pull_number: 1,
+        per_page: 100,
+        page: 2,
+      });
+    });
+
+    it('should reply to a review comment', async () => {
+      // Arrange
+      await githubClient.authenticate(789);
+
+      // Act
+      await githubClient.replyToReviewComment('test-owner', 'test-repo', 1, 10, 'Reply');
+
+      // Assert
+      expect(mockOctokit.pulls.createReplyForReviewComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pull_number: 1,
+        comment_id: 10,
+        body: 'Reply',
+      });
+    });
+
+    it('should list review threads across GraphQL pages', async () => {
+      // Arrange
+      const page = (nodes: ThreadNode[], endCursor: string | null): object => ({
+        repository: {
+          pullRequest: {
+            reviewThreads: {
+              pageInfo: { hasNextPage: endCursor !== null, endCursor },
+              nodes,
+            },
+          },
+        },
+      });
+      mockOctokit.graphql
+        .mockResolvedValueOnce(page([{ id: 't1', isResolved: false, comments: { nodes: [{ databaseId: 1 }] } }], 'c1'))
+        .mockResolvedValueOnce(page([
+          { id: 't2', isResolved: true, comments: { nodes: [{ databaseId: 2 }] } },
+          { id: 't3', isResolved: false, comments: { nodes: [] } },
+        ], null));
+      await githubClient.authenticate(789);
+
+      // Act
+      const threads = await githubClient.listReviewThreads('test-owner', 'test-repo', 1);
+
+      // Assert
+      expect(threads).toEqual([
+        { id: 't1', isResolved: false, rootCommentId: 1 },
+        { id: 't2', isResolved: true, rootCommentId: 2 },
+      ]);
+      expect(mockOctokit.graphql).toHaveBeenLastCalledWith(expect.any(String), {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        number: 1,
+        cursor: 'c1',
+      });
+    });
+
+    it('should resolve a review thread', async () => {
+      // Arrange
+      await githubClient.authenticate(789);
+
+      // Act
+      await githubClient.resolveReviewThread('t1');
+
+      // Assert
+      expect(mockOctokit.graphql).toHaveBeenCalledWith(
+        expect.stringContaining('resolveReviewThread'),
+        { threadId: 't1' }
+      );
+    });
+
+    it('should throw error if not authenticated', async () => {
+      await expect(githubClient.listReviewComments('o', 'r', 1)).rejects.toThrow('GitHub client not authenticated');
+      await expect(githubClient.replyToReviewComment('o', 'r', 1, 1, 'b')).rejects.toThrow('GitHub client not authenticated');
+      await expect(githubClient.listReviewThreads('o', 'r', 1)).rejects.toThrow('GitHub client not authenticated');
+      await expect(githubClient.resolveReviewThread('t')).rejects.toThrow('GitHub client not authenticated');
+    });
+
+    it('should fetch a single review comment', async () => {
+      // Arrange
+      mockOctokit.pulls.getReviewComment.mockResolvedValue({ data: { id: 10, body: 'Finding' } });
+      await githubClient.authenticate(789);
+
+      // Act
+      const comment = await githubClient.getReviewComment('test-owner', 'test-repo', 10);
+
+      // Assert
+      expect(comment).toEqual({ id: 10, body: 'Finding' });
+      expect(mockOctokit.pulls.getReviewComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        comment_id: 10,
+      });
+    });
+
+    it('should return null for a deleted review comment', async () => {
+      // Arrange
+      mockOctokit.pulls.getReviewComment.mockRejectedValue({ status: 404 });
+      await githubClient.authenticate(789);
+
+      // Act
+      const comment = await githubClient.getReviewComment('test-owner', 'test-repo', 10);
+
+      // Assert
+      expect(comment).toBeNull();
+    });
+  });
+
+  describe('getCollaboratorPermission', () => {
+    it('should prefer the role name over the legacy permission', async () => {
+      // Arrange
+      mockOctokit.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+        data: { permission: 'write', role_name: 'maintain' },
+      });
+      await githubClient.authenticate(789);
+
+      // Act
+      const role = await githubClient.getCollaboratorPermission('test-owner', 'test-repo', 'octocat');
+
+      // Assert
+      expect(role).toBe('maintain');
+      expect(mockOctokit.repos.getCollaboratorPermissionLevel).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        username: 'octocat',
+      });
+    });
+
+    it('should return none for users who are not collaborators', async () => {
+      // Arrange
+      mockOctokit.repos.getCollaboratorPermissionLevel.mockRejectedValue({ status: 404 });
+      await githubClient.authenticate(789);
+
+      // Act
+      const role = await githubClient.getCollaboratorPermission('test-owner', 'test-repo', 'stranger');
+
+      // Assert
+      expect(role).toBe('none');
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { App } from '@octokit/app';
+import { defaultConfig } from '../config/default';
 
 export interface GitHubClientConfig {
   appId: number;
@@ -8,9 +9,12 @@ export interface GitHubClientConfig {
 export interface PullRequest {
   number: number;
   title: string;
+  body?: string | null;
   state: string;
-  head: { sha: string };
-  base: { sha: string };
+  draft?: boolean;
+  changed_files?: number;
+  head: { sha: string; ref?: string };
+  base: { sha: string; ref?: string };
   user: { login: string };
 }
 
@@ -26,12 +30,142 @@ export interface File {
 export interface Comment {
   path: string;
   line: number;
+  start_line?: number;
   body: string;
 }
 
+export interface CommitComparison {
+  status: 'ahead' | 'behind' | 'diverged' | 'identical';
+  files: File[];
+}
+
+export interface RepositoryTree {
+  paths: string[];
+  truncated: boolean;
+}
+
+export interface IssueComment {
+  id: number;
+  body: string;
+  user: { login: string; type: string };
+}
+
+export interface ReviewComment {
+  id: number;
+  path: string;
+  line: number | null;
+  body: string;
+  user: { login: string; type: string };
+  in_reply_to_id?: number;
+  commit_id: string;
+  diff_hunk: string;
+}
+
+export interface ReviewThread {
+  id: string;
+  isResolved: boolean;
+  rootCommentId: number;
+}
+
+export type CheckRunConclusion = 'success' | 'failure' | 'neutral';
+
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  message: string;
+  title?: string;
+  raw_details?: string;
+}
+
+export interface CheckRunOutput {
+  title: string;
+  summary: string;
+  annotations?: CheckRunAnnotation[];
+}
+
+export interface PullRequestFiles {
+  files: File[];
+  /** Every listed path, including files that are not reviewed */
+  paths: string[];
+  totalCount: number;
+  capReached: boolean;
+}
+
+type Endpoint<Response> = (params: Record<string, unknown>) => Promise<{ data: Response }>;
+
+interface ContentEntry {
+  type: string;
+  path: string;
+  content?: string;
+}
+
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: { id: string; isResolved: boolean; comments: { nodes: { databaseId: number }[] } }[];
+      };
+    };
+  };
+}
+
+// The REST and GraphQL endpoints of the installation client, typed only as far as this client uses them
+interface InstallationOctokit {
+  pulls: {
+    get: Endpoint<PullRequest>;
+    listFiles: Endpoint<File[]>;
+    createReview: Endpoint<unknown>;
+    listReviewComments: Endpoint<ReviewComment[]>;
+    createReplyForReviewComment: Endpoint<unknown>;
+    getReviewComment: Endpoint<ReviewComment>;
+  };
+  repos: {
+    getContent: Endpoint<ContentEntry | ContentEntry[]>;
+    compareCommits: Endpoint<{ status: CommitComparison['status']; files?: File[] }>;
+    getCollaboratorPermissionLevel: Endpoint<{ permission?: string; role_name?: string }>;
+  };
+  git: {
+    getTree: Endpoint<{ tree: ContentEntry[]; truncated?: boolean }>;
+  };
+  search: {
+    code: Endpoint<{ items: { path: string }[] }>;
+  };
+  checks: {
+    create: Endpoint<{ id: number }>;
+    update: Endpoint<unknown>;
+  };
+  issues: {
+    listComments: Endpoint<IssueComment[]>;
+    createComment: Endpoint<unknown>;
+    updateComment: Endpoint<unknown>;
+  };
+  graphql: <Response>(query: string, variables: Record<string, unknown>) => Promise<Response>;
+}
+
+/**
+ * Tells whether a request failed because GitHub answered with the given status
+ * @param error - Error thrown by the request
+ * @param status - HTTP status to look for
+ * @returns True if the error carries the status
+ */
+function hasStatus(error: unknown, status: number): boolean {
+  return typeof error === 'object' && error !== null && (error as { status?: unknown }).status === status;
+}
+
 export class GitHubClient {
+  // GitHub's list files endpoint stops returning results after 3000 files
+  static readonly MAX_LISTED_FILES = 3000;
+  static readonly CHECK_RUN_NAME = 'ReviewThor';
+  private static readonly FILES_PER_PAGE = 100;
+  // The Checks API accepts at most 50 annotations per request
+  private static readonly ANNOTATIONS_PER_REQUEST = 50;
+
   private app: App;
-  private octokit?: any; // Using any to avoid complex Octokit type issues
+  private octokit?: InstallationOctokit;
+  private appLogin?: string;
 
   constructor(config: GitHubClientConfig) {
     this.app = new App({
@@ -46,12 +180,28 @@ export class GitHubClient {
    */
   async authenticate(installationId: number): Promise<void> {
     try {
-      this.octokit = await this.app.getInstallationOctokit(installationId);
+      this.octokit = await this.app.getInstallationOctokit(installationId) as unknown as InstallationOctokit;
     } catch (error) {
       throw new Error(`Authentication failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Resolves the login the app posts comments under, so its own comments can be told apart from other bots
+   * @returns Bot login of the GitHub App, e.g. reviewthor[bot]
+   */
+  async getAppLogin(): Promise<string> {
+    if (!this.appLogin) {
+      const { data } = await this.app.octokit.request('GET /app');
+      if (!data?.slug) {
+        throw new Error('GitHub App slug not available');
+      }
+      this.appLogin = `${data.slug}[bot]`;
+    }
+
+    return this.appLogin;
+  }
+
   /**
    * Fetches pull request details
    * @param owner - Repository owner
@@ -70,32 +220,51 @@ export class GitHubClient {
       pull_number,
     });
 
-    return data as PullRequest;
+    return data;
   }
 
   /**
-   * Fetches files changed in a pull request
+   * Fetches files changed in a pull request, following pagination up to GitHub's file cap
    * @param owner - Repository owner
    * @param repo - Repository name
    * @param pull_number - Pull request number
-   * @returns Array of changed files (JavaScript/TypeScript only)
+   * @returns Changed files of the reviewed file types, every listed path and the total count of listed files
    */
-  async getFiles(owner: string, repo: string, pull_number: number): Promise<File[]> {
+  async getFiles(owner: string, repo: string, pull_number: number): Promise<PullRequestFiles> {
     if (!this.octokit) {
       throw new Error('GitHub client not authenticated');
     }
 
-    const { data } = await this.octokit.pulls.listFiles({
-      owner,
-      repo,
-      pull_number,
-      per_page: 100,
-    });
+    const allFiles: File[] = [];
+    const maxPages = GitHubClient.MAX_LISTED_FILES / GitHubClient.FILES_PER_PAGE;
 
-    // Filter for JavaScript/TypeScript files
-    return data.filter((file: any) => 
-      /\.(js|jsx|ts|tsx)$/.test(file.filename)
-    ) as File[];
+    for (let page = 1; page <= maxPages; page++) {
+      const { data } = await this.octokit.pulls.listFiles({
+        owner,
+        repo,
+        pull_number,
+        per_page: GitHubClient.FILES_PER_PAGE,
+        page,
+      });
+
+      allFiles.push(...data);
+
+      if (data.length < GitHubClient.FILES_PER_PAGE) {
+        break;
+      }
+    }
+
+    // Filter for the file types ReviewThor reviews
+    const files = allFiles.filter(file => 
+      defaultConfig.enabledFileTypes.some(extension => file.filename.endsWith(extension))
+    );
+
+    return {
+      files,
+      paths: allFiles.map(file => file.filename),
+      totalCount: allFiles.length,
+      capReached: allFiles.length >= GitHubClient.MAX_LISTED_FILES,
+    };
   }
 
   /**
@@ -120,33 +289,132 @@ export class GitHubClient {
       });
 
       // Check if it's a file (not a directory)
-      if ('type' in data && data.type === 'file' && 'content' in data) {
+      if (!Array.isArray(data) && data.type === 'file' && data.content !== undefined) {
         return Buffer.from(data.content, 'base64').toString('utf-8');
       }
 
       return null;
-    } catch (error: any) {
-      if (error.status === 404) {
+    } catch (error) {
+      if (hasStatus(error, 404)) {
         return null;
       }
       throw error;
     }
   }
 
+  /**
+   * Lists every file path in the repository at a commit
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Git reference (branch, tag, or commit)
+   * @returns File paths, flagged as truncated when GitHub did not list the whole tree, or null if the ref is unknown
+   */
+  async getTree(owner: string, repo: string, ref: string): Promise<RepositoryTree | null> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    try {
+      const { data } = await this.octokit.git.getTree({
+        owner,
+        repo,
+        tree_sha: ref,
+        recursive: 'true',
+      });
+
+      return {
+        paths: data.tree
+          .filter(entry => entry.type === 'blob')
+          .map(entry => entry.path),
+        truncated: Boolean(data.truncated),
+      };
+    } catch (error) {
+      if (hasStatus(error, 404)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the files directly inside a repository directory
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param path - Directory path
+   * @param ref - Git reference (branch, tag, or commit)
+   * @returns Paths of the files in the directory, empty if it does not exist
+   */
+  async listDirectory(owner: string, repo: string, path: string, ref: string): Promise<string[]> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    try {
+      const { data } = await this.octokit.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref,
+      });
+
+      // A path naming a file returns that file instead of a listing
+      if (!Array.isArray(data)) {
+        return [];
+      }
+
+      return data
+        .filter(entry => entry.type === 'file')
+        .map(entry => entry.path);
+    } catch (error) {
+      if (hasStatus(error, 404)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Searches the default branch of a repository for files containing a term
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param term - Text to search for
+   * @returns Paths of matching files, best match first
+   */
+  async searchCode(owner: string, repo: string, term: string): Promise<string[]> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    const { data } = await this.octokit.search.code({
+      q: `"${term.replace(/"/g, '')}" repo:${owner}/${repo}`,
+      per_page: GitHubClient.FILES_PER_PAGE,
+    });
+
+    return data.items.map(item => item.path);
+  }
+
   /**
    * Creates a review with comments on a pull request
    * @param owner - Repository owner
    * @param repo - Repository name
    * @param pull_number - Pull request number
    * @param comments - Array of review comments
+   * @param body - Optional review body, attached to the first batch only
+   * @returns Comments GitHub rejected, e.g. because their line is not part of the diff
    */
-  async createReview(owner: string, repo: string, pull_number: number, comments: Comment[]): Promise<void> {
+  async createReview(
+    owner: string,
+    repo: string,
+    pull_number: number,
+    comments: Comment[],
+    body?: string
+  ): Promise<Comment[]> {
     if (!this.octokit) {
       throw new Error('GitHub client not authenticated');
     }
 
     if (comments.length === 0) {
-      return;
+      return [];
     }
 
     // GitHub API has a limit of 100 comments per review
@@ -157,19 +425,440 @@ export class GitHubClient {
       batches.push(comments.slice(i, i + BATCH_SIZE));
     }
 
+    const rejected: Comment[] = [];
+    let pendingBody = body;
     for (const batch of batches) {
+      pendingBody = await this.postReviewBatch(owner, repo, pull_number, batch, pendingBody, rejected);
+    }
+
+    return rejected;
+  }
+
+  /**
+   * Posts one review, splitting it when GitHub rejects it until the offending comments are isolated
+   * @returns The review body if it still has to be posted with a later batch
+   */
+  private async postReviewBatch(
+    owner: string,
+    repo: string,
+    pull_number: number,
+    batch: Comment[],
+    body: string | undefined,
+    rejected: Comment[]
+  ): Promise<string | undefined> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    try {
       await this.octokit.pulls.createReview({
         owner,
         repo,
         pull_number,
         event: 'COMMENT',
+        ...(body ? { body } : {}),
         comments: batch.map(comment => ({
           path: comment.path,
           line: comment.line,
           body: comment.body,
           side: 'RIGHT',
+          // Multi-line comments span start_line..line, e.g. for suggested changes
+          ...(comment.start_line !== undefined
+            ? { start_line: comment.start_line, start_side: 'RIGHT' }
+            : {}),
         })),
       });
+      return undefined;
+    } catch (error) {
+      // A single unplaceable comment makes GitHub reject the whole review with 422
+      if (!hasStatus(error, 422)) {
+        throw error;
+      }
+
+      if (batch.length === 1) {
+        rejected.push(batch[0]);
+        return body;
+      }
+
+      const middle = Math.ceil(batch.length / 2);
+      const remainingBody = await this.postReviewBatch(
+        owner, repo, pull_number, batch.slice(0, middle), body, rejected
+      );
+      return this.postReviewBatch(owner, repo, pull_number, batch.slice(middle), remainingBody, rejected);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Creates an in-progress check run for a commit
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param headSha - Commit SHA the check run belongs to
+   * @returns ID of the created check run
+   */
+  async createCheckRun(owner: string, repo: string, headSha: string): Promise<number> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    const { data } = await this.octokit.checks.create({
+      owner,
+      repo,
+      name: GitHubClient.CHECK_RUN_NAME,
+      head_sha: headSha,
+      status: 'in_progress',
+      started_at: new Date().toISOString(),
+    });
+
+    return data.id;
+  }
+
+  /**
+   * Completes a check run, uploading annotations in batches the Checks API accepts
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param checkRunId - ID of the check run to complete
+   * @param conclusion - Final conclusion of the check run
+   * @param output - Title, summary and annotations for the check run
+   */
+  async completeCheckRun(
+    owner: string,
+    repo: string,
+    checkRunId: number,
+    conclusion: CheckRunConclusion,
+    output: CheckRunOutput
+  ): Promise<void> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    const annotations = output.annotations || [];
+    const BATCH_SIZE = GitHubClient.ANNOTATIONS_PER_REQUEST;
+    const batches: CheckRunAnnotation[][] = [];
+
+    for (let i = 0; i < annotations.length; i += BATCH_SIZE) {
+      batches.push(annotations.slice(i, i + BATCH_SIZE));
+    }
+
+    // Annotations are appended on every update, so all but the last batch go out first
+    for (const batch of batches.slice(0, -1)) {
+      await this.octokit.checks.update({
+        owner,
+        repo,
+        check_run_id: checkRunId,
+        output: { title: output.title, summary: output.summary, annotations: batch },
+      });
+    }
+
+    const lastBatch = batches[batches.length - 1];
+    await this.octokit.checks.update({
+      owner,
+      repo,
+      check_run_id: checkRunId,
+      status: 'completed',
+      conclusion,
+      completed_at: new Date().toISOString(),
+      output: {
+        title: output.title,
+        summary: output.summary,
+        ...(lastBatch ? { annotations: lastBatch } : {}),
+      },
+    });
+  }
+
+  /**
+   * Compares two commits and returns the files changed between them
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param base - Base commit SHA
+   * @param head - Head commit SHA
+   * @returns Comparison status and changed files, or null if either commit is unknown
+   */
+  async compareCommits(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string
+  ): Promise<CommitComparison | null> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    try {
+      const { data } = await this.octokit.repos.compareCommits({
+        owner,
+        repo,
+        base,
+        head,
+      });
+
+      return {
+        status: data.status,
+        files: data.files || [],
+      };
+    } catch (error) {
+      // Force pushes can remove the base commit from the repository entirely
+      if (hasStatus(error, 404)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists top-level comments on a pull request
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param issue_number - Pull request number
+   * @returns Issue comments in creation order
+   */
+  async listIssueComments(owner: string, repo: string, issue_number: number): Promise<IssueComment[]> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    const comments: IssueComment[] = [];
+
+    for (let page = 1; ; page++) {
+      const { data } = await this.octokit.issues.listComments({
+        owner,
+        repo,
+        issue_number,
+        per_page: 100,
+        page,
+      });
+
+      comments.push(...data);
+
+      if (data.length < 100) {
+        return comments;
+      }
+    }
+  }
+
+  /**
+   * Creates a top-level comment on a pull request
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param issue_number - Pull request number
+   * @param body - Comment body
+   */
+  async createIssueComment(owner: string, repo: string, issue_number: number, body: string): Promise<void> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    await this.octokit.issues.createComment({
+      owner,
+      repo,
+      issue_number,
+      body,
+    });
+  }
+
+  /**
+   * Replaces the body of an existing top-level comment
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param comment_id - Comment ID
+   * @param body - New comment body
+   */
+  async updateIssueComment(owner: string, repo: string, comment_id: number, body: string): Promise<void> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    await this.octokit.issues.updateComment({
+      owner,
+      repo,
+      comment_id,
+      body,
+    });
+  }
+
+  /**
+   * Lists review comments on a pull request, including replies
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pull_number - Pull request number
+   * @returns Review comments in creation order
+   */
+  async listReviewComments(owner: string, repo: string, pull_number: number): Promise<ReviewComment[]> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    const comments: ReviewComment[] = [];
+
+    for (let page = 1; ; page++) {
+      const { data } = await this.octokit.pulls.listReviewComments({
+        owner,
+        repo,
+        pull_number,
+        per_page: 100,
+        page,
+      });
+
+      comments.push(...data);
+
+      if (data.length < 100) {
+        return comments;
+      }
+    }
+  }
+
+  /**
+   * Replies to a review comment thread
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pull_number - Pull request number
+   * @param comment_id - ID of the top-level comment of the thread
+   * @param body - Reply body
+   */
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    pull_number: number,
+    comment_id: number,
+    body: string
+  ): Promise<void> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    await this.octokit.pulls.createReplyForReviewComment({
+      owner,
+      repo,
+      pull_number,
+      comment_id,
+      body,
+    });
+  }
+
+  /**
+   * Lists review threads on a pull request (only available through GraphQL)
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pull_number - Pull request number
+   * @returns Review threads with their resolution state and root comment ID
+   */
+  async listReviewThreads(owner: string, repo: string, pull_number: number): Promise<ReviewThread[]> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    const threads: ReviewThread[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const result: ReviewThreadsResponse = await this.octokit.graphql(
+        `query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              reviewThreads(first: 100, after: $cursor) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                  id
+                  isResolved
+                  comments(first: 1) { nodes { databaseId } }
+                }
+              }
+            }
+          }
+        }`,
+        { owner, repo, number: pull_number, cursor }
+      );
+
+      const connection = result.repository.pullRequest.reviewThreads;
+      for (const node of connection.nodes) {
+        const rootComment = node.comments.nodes[0];
+        if (rootComment) {
+          threads.push({
+            id: node.id,
+            isResolved: node.isResolved,
+            rootCommentId: rootComment.databaseId,
+          });
+        }
+      }
+
+      cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return threads;
+  }
+
+  /**
+   * Marks a review thread as resolved
+   * @param threadId - GraphQL node ID of the review thread
+   */
+  async resolveReviewThread(threadId: string): Promise<void> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    await this.octokit.graphql(
+      `mutation($threadId: ID!) {
+        resolveReviewThread(input: { threadId: $threadId }) {
+          thread { id }
+        }
+      }`,
+      { threadId }
+    );
+  }
+
+  /**
+   * Fetches a single review comment
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param comment_id - Review comment ID
+   * @returns Review comment or null if it was deleted
+   */
+  async getReviewComment(owner: string, repo: string, comment_id: number): Promise<ReviewComment | null> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    try {
+      const { data } = await this.octokit.pulls.getReviewComment({
+        owner,
+        repo,
+        comment_id,
+      });
+
+      return data;
+    } catch (error) {
+      if (hasStatus(error, 404)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches a user's role on a repository
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param username - GitHub login of the user
+   * @returns Role name (admin, maintain, write, triage, read) or none
+   */
+  async getCollaboratorPermission(owner: string, repo: string, username: string): Promise<string> {
+    if (!this.octokit) {
+      throw new Error('GitHub client not authenticated');
+    }
+
+    try {
+      const { data } = await this.octokit.repos.getCollaboratorPermissionLevel({
+        owner,
+        repo,
+        username,
+      });
+
+      // role_name distinguishes maintain and triage, which the legacy permission field folds away
+      return data.role_name || data.permission || 'none';
+    } catch (error) {
+      if (hasStatus(error, 404)) {
+        return 'none';
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { placeComments } from './comment-placement';
+
+describe('placeComments', () => {
+  const patch = '@@ -10,3 +10,4 @@\n const a = 1;\n+var b = 2;\n const c = 3;\n const d = 4;';
+  const files = [{ filename: 'src/index.js', patch }];
+
+  it('should keep comments on lines inside the diff', () => {
+    // Arrange
+    const comments = [
+      { path: 'src/index.js', line: 11, body: 'Added line' },
+      { path: 'src/index.js', line: 13, body: 'Context line' },
+    ];
+
+    // Act
+    const result = placeComments(comments, files);
+
+    // Assert
+    expect(result).toEqual({ placed: comments, unplaceable: [] });
+  });
+
+  it('should snap near misses to the closest added line', () => {
+    // Act
+    const result = placeComments([{ path: 'src/index.js', line: 14, body: 'Near miss' }], files);
+
+    // Assert
+    expect(result.placed).toEqual([{ path: 'src/index.js', line: 11, body: 'Near miss' }]);
+  });
+
+  it('should report comments that cannot be anchored', () => {
+    // Arrange
+    const farAway = { path: 'src/index.js', line: 40, body: 'Far away' };
+    const otherFile = { path: 'src/other.js', line: 1, body: 'Not reviewed' };
+
+    // Act
+    const result = placeComments([farAway, otherFile], files);
+
+    // Assert
+    expect(result).toEqual({ placed: [], unplaceable: [farAway, otherFile] });
+  });
+});
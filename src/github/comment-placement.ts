@@ -0,0 +1,38 @@
+import { Comment } from '../ai/engine';
+import { snapToRightSide } from './diff-parser';
+
+export interface PlacementResult {
+  placed: Comment[];
+  unplaceable: Comment[];
+}
+
+// Models often cite a line or two off; anything further away is likely about other code
+const MAX_SNAP_DISTANCE = 3;
+
+/**
+ * Moves comments onto lines GitHub accepts review comments on, so one bad line cannot fail the whole review
+ * @param comments - Generated comments
+ * @param files - Reviewed files with their patches
+ * @returns Comments anchored to lines in the diff, and those that could not be anchored
+ */
+export function placeComments(
+  comments: Comment[],
+  files: Array<{ filename: string; patch?: string }>
+): PlacementResult {
+  const patches = new Map(files.map(file => [file.filename, file.patch || '']));
+  const placed: Comment[] = [];
+  const unplaceable: Comment[] = [];
+
+  for (const comment of comments) {
+    // Lines already inside the diff, including validated suggested changes, are kept as they are
+    const patch = patches.get(comment.path);
+    const line = patch ? snapToRightSide(patch, comment.line, MAX_SNAP_DISTANCE) : undefined;
+    if (line === undefined) {
+      unplaceable.push(comment);
+    } else {
+      placed.push(line === comment.line ? comment : { ...comment, line });
+    }
+  }
+
+  return { placed, unplaceable };
+}
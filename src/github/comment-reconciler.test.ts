@@ -0,0 +1,289 @@
+import {
+  CommentReconciler,
+  decodeFinding,
+  encodeFinding,
+  fingerprintFinding,
+} from './comment-reconciler';
+import { GitHubClient, ReviewComment } from './client';
+import { Issue } from '../ai/engine';
+import { logger } from '../utils/logger';
+
+jest.mock('./client');
+jest.mock('../utils/logger');
+
+describe('CommentReconciler', () => {
+  let reconciler: CommentReconciler;
+  let mockGitHubClient: jest.Mocked<GitHubClient>;
+
+  const patch = '@@ -1,2 +1,3 @@\n const a = 1;\n+var b = 2;\n const c = 3;';
+  const files = [{ filename: 'src/index.js', patch }];
+
+  const issue: Issue = {
+    file: 'src/index.js',
+    line: 2,
+    severity: 'warning',
+    message: 'Use const instead of var',
+    category: 'code-quality',
+  };
+
+  const newComment = { path: 'src/index.js', line: 2, body: '⚠️ Use const', issue };
+  const fingerprint = fingerprintFinding('src/index.js', 'var b = 2;', 'code-quality', issue.message);
+
+  const priorComment = (overrides: Partial<ReviewComment> = {}): ReviewComment => ({
+    id: 10,
+    path: 'src/index.js',
+    line: 2,
+    body: `⚠️ Use const\n\n${encodeFinding({ fingerprint, issue })}`,
+    user: { login: 'reviewthor[bot]', type: 'Bot' },
+    commit_id: 'old-sha',
+    diff_hunk: '@@',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockGitHubClient = {
+      listReviewComments: jest.fn().mockResolvedValue([]),
+      listReviewThreads: jest.fn().mockResolvedValue([]),
+      replyToReviewComment: jest.fn().mockResolvedValue(undefined),
+      resolveReviewThread: jest.fn().mockResolvedValue(undefined),
+      getAppLogin: jest.fn().mockResolvedValue('reviewthor[bot]'),
+    } as unknown as jest.Mocked<GitHubClient>;
+
+    reconciler = new CommentReconciler(mockGitHubClient);
+  });
+
+  describe('finding markers', () => {
+    it('should round-trip a finding through the comment marker', () => {
+      // Arrange
+      const body = `Comment\n\n${encodeFinding({ fingerprint: 'abc', issue: { ...issue, message: 'a --> b' } })}`;
+
+      // Act
+      const finding = decodeFinding(body);
+
+      // Assert
+      expect(finding).toEqual({ fingerprint: 'abc', issue: { ...issue, message: 'a --> b' } });
+    });
+
+    it('should return null for bodies without a valid marker', () => {
+      expect(decodeFinding('plain comment')).toBeNull();
+      expect(decodeFinding('<!-- reviewthor:finding bm90LWpzb24 -->')).toBeNull();
+      expect(decodeFinding(`<!-- reviewthor:finding ${Buffer.from('{"issue":{}}').toString('base64url')} -->`)).toBeNull();
+    });
+
+    it('should ignore whitespace and message case in fingerprints', () => {
+      expect(fingerprintFinding('a.js', '  var b  = 2; ', 'bug', 'Some  Message')).toBe(
+        fingerprintFinding('a.js', 'var b = 2;', 'bug', 'some message')
+      );
+      expect(fingerprintFinding('a.js', 'x', 'bug', 'm')).not.toBe(fingerprintFinding('b.js', 'x', 'bug', 'm'));
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should post new comments with a finding marker', async () => {
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [newComment], files);
+
+      // Assert
+      expect(result.duplicates).toBe(0);
+      expect(result.comments).toHaveLength(1);
+      expect(decodeFinding(result.comments[0].body)).toEqual({ fingerprint, issue });
+      expect(mockGitHubClient.listReviewThreads.mock.calls).toHaveLength(0);
+    });
+
+    it('should skip findings that were already posted on current code', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([priorComment()]);
+
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [newComment], files);
+
+      // Assert
+      expect(result.comments).toEqual([]);
+      expect(result.duplicates).toBe(1);
+      expect(mockGitHubClient.replyToReviewComment.mock.calls).toHaveLength(0);
+    });
+
+    it('should skip findings whose earlier thread was resolved', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([priorComment({ line: null })]);
+      mockGitHubClient.listReviewThreads.mockResolvedValue([
+        { id: 'thread-1', isResolved: true, rootCommentId: 10 },
+      ]);
+
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [newComment], files);
+
+      // Assert
+      expect(result.duplicates).toBe(1);
+      expect(mockGitHubClient.resolveReviewThread.mock.calls).toHaveLength(0);
+    });
+
+    it('should not post the same finding twice in one review', async () => {
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [newComment, newComment], files);
+
+      // Assert
+      expect(result.comments).toHaveLength(1);
+      expect(result.duplicates).toBe(1);
+    });
+
+    it('should skip findings developers asked to ignore', async () => {
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [newComment], files, [fingerprint]);
+
+      // Assert
+      expect(result.comments).toEqual([]);
+      expect(result.suppressed).toBe(1);
+      expect(result.duplicates).toBe(0);
+    });
+
+    it('should post comments without an issue unchanged', async () => {
+      // Arrange
+      const plain = { path: 'src/index.js', line: 2, body: 'Plain' };
+
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [plain], files);
+
+      // Assert
+      expect(result.comments).toEqual([plain]);
+    });
+
+    it('should reply and resolve outdated findings that are no longer reported', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([
+        priorComment({ line: null }),
+        { ...priorComment(), id: 11, body: 'Thanks!', user: { login: 'dev', type: 'User' }, in_reply_to_id: 10 },
+      ]);
+      mockGitHubClient.listReviewThreads.mockResolvedValue([
+        { id: 'thread-1', isResolved: false, rootCommentId: 10 },
+      ]);
+
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'abcdef123456', [], files);
+
+      // Assert
+      expect(result.resolved).toBe(1);
+      expect(mockGitHubClient.replyToReviewComment.mock.calls).toContainEqual([
+        'owner',
+        'repo',
+        1,
+        10,
+        expect.stringContaining('Fixed in abcdef1')
+      ]);
+      expect(mockGitHubClient.resolveReviewThread.mock.calls).toContainEqual(['thread-1']);
+    });
+
+    it('should keep outdated threads open when the finding is reported again', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([priorComment({ line: null })]);
+      mockGitHubClient.listReviewThreads.mockResolvedValue([
+        { id: 'thread-1', isResolved: false, rootCommentId: 10 },
+      ]);
+
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [newComment], files);
+
+      // Assert
+      expect(result.comments).toHaveLength(1);
+      expect(result.resolved).toBe(0);
+      expect(mockGitHubClient.resolveReviewThread.mock.calls).toHaveLength(0);
+    });
+
+    it('should not reply twice when an earlier fixed reply exists', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([
+        priorComment({ line: null }),
+        { ...priorComment(), id: 12, body: '✅ Fixed\n\n<!-- reviewthor:fixed -->', in_reply_to_id: 10 },
+      ]);
+      mockGitHubClient.listReviewThreads.mockRejectedValue(new Error('GraphQL unavailable'));
+
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [], files);
+
+      // Assert
+      expect(jest.mocked(logger).warn.mock.calls).toContainEqual(['Failed to load review threads', expect.any(Object)]);
+      expect(mockGitHubClient.replyToReviewComment.mock.calls).toHaveLength(0);
+      expect(result.resolved).toBe(0);
+    });
+
+    it('should ignore comments posted by users', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([
+        priorComment({ user: { login: 'dev', type: 'User' } }),
+      ]);
+
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [newComment], files);
+
+      // Assert
+      expect(result.comments).toHaveLength(1);
+    });
+
+    it('should ignore comments posted by other bots', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([
+        priorComment({ user: { login: 'other-app[bot]', type: 'Bot' } }),
+      ]);
+
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [newComment], files);
+
+      // Assert
+      expect(result.comments).toHaveLength(1);
+      expect(result.duplicates).toBe(0);
+    });
+
+    it('should return the fingerprints of skipped findings too', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([priorComment()]);
+
+      // Act
+      const result = await reconciler.reconcile('owner', 'repo', 1, 'head-sha', [newComment], files);
+
+      // Assert
+      expect(result.fingerprints).toEqual([fingerprint]);
+    });
+  });
+
+  describe('listOpenFindings', () => {
+    it('should return findings on current code at their current line', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([priorComment({ line: 5 })]);
+
+      // Act
+      const findings = await reconciler.listOpenFindings('owner', 'repo', 1);
+
+      // Assert
+      expect(findings).toEqual([{ fingerprint, issue: { ...issue, line: 5 } }]);
+    });
+
+    it('should leave out outdated, resolved and suppressed findings', async () => {
+      // Arrange
+      mockGitHubClient.listReviewComments.mockResolvedValue([
+        priorComment({ id: 10, line: null }),
+        priorComment({ id: 11 }),
+        priorComment({ id: 12 }),
+      ]);
+      mockGitHubClient.listReviewThreads.mockResolvedValue([
+        { id: 'thread-2', isResolved: true, rootCommentId: 11 },
+      ]);
+
+      // Act
+      const withoutSuppressed = await reconciler.listOpenFindings('owner', 'repo', 1);
+      const withSuppressed = await reconciler.listOpenFindings('owner', 'repo', 1, [fingerprint]);
+
+      // Assert
+      expect(withoutSuppressed).toHaveLength(1);
+      expect(withSuppressed).toEqual([]);
+    });
+
+    it('should not load threads when there are no earlier findings', async () => {
+      // Act
+      const findings = await reconciler.listOpenFindings('owner', 'repo', 1);
+
+      // Assert
+      expect(findings).toEqual([]);
+      expect(mockGitHubClient.listReviewThreads.mock.calls).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import { GitHubClient, ReviewComment, ReviewThread } from './client';
+import { getRightSideLine } from './diff-parser';
+import { Comment, Issue } from '../ai/engine';
+import { logger } from '../utils/logger';
+
+export interface Finding {
+  fingerprint: string;
+  issue: Issue;
+}
+
+export interface ReconcileResult {
+  comments: Comment[];
+  /** Fingerprints of all new findings, including the ones that were not posted again */
+  fingerprints: string[];
+  duplicates: number;
+  suppressed: number;
+  resolved: number;
+}
+
+const FINDING_PATTERN = /<!-- reviewthor:finding ([A-Za-z0-9_-]+) -->/;
+const FIXED_MARKER = '<!-- reviewthor:fixed -->';
+
+/**
+ * Computes a stable fingerprint for a finding so it can be recognised across reviews
+ * @param path - File the finding belongs to
+ * @param anchoredCode - Content of the line the finding is anchored to
+ * @param category - Finding category
+ * @param message - Finding message
+ * @returns Hex fingerprint
+ */
+export function fingerprintFinding(
+  path: string,
+  anchoredCode: string,
+  category: string,
+  message: string
+): string {
+  const normalize = (text: string): string => text.trim().replace(/\s+/g, ' ');
+
+  return crypto
+    .createHash('sha256')
+    .update([path, normalize(anchoredCode), category, normalize(message).toLowerCase()].join('\0'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Encodes a finding as a hidden marker appended to the comment body
+ * @param finding - Finding to encode
+ * @returns HTML comment marker
+ */
+export function encodeFinding(finding: Finding): string {
+  // base64url keeps arbitrary messages from terminating the HTML comment early
+  const payload = Buffer.from(JSON.stringify(finding), 'utf-8').toString('base64url');
+  return `<!-- reviewthor:finding ${payload} -->`;
+}
+
+/**
+ * Decodes the finding marker from a comment body
+ * @param body - Comment body
+ * @returns Decoded finding, or null if the body carries no valid marker
+ */
+export function decodeFinding(body: string): Finding | null {
+  const match = body.match(FINDING_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const finding = JSON.parse(Buffer.from(match[1], 'base64url').toString('utf-8')) as Finding;
+    if (typeof finding.fingerprint !== 'string' || !finding.issue) {
+      return null;
+    }
+    return finding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reconciles newly generated comments with the ones ReviewThor posted on earlier reviews:
+ * identical findings are not posted twice, and findings whose lines changed are resolved.
+ */
+export class CommentReconciler {
+  constructor(private readonly githubClient: GitHubClient) {}
+
+  /**
+   * Reconciles new comments with earlier ReviewThor comments on the pull request
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param headSha - Commit being reviewed
+   * @param comments - Newly generated comments
+   * @param files - Reviewed files with the patches the comments are anchored to
+   * @param suppressedFingerprints - Findings developers asked ReviewThor to ignore
+   * @returns Comments still to post (with finding markers) and reconciliation counts
+   */
+  async reconcile(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    headSha: string,
+    comments: Comment[],
+    files: Array<{ filename: string; patch?: string }>,
+    suppressedFingerprints: string[] = []
+  ): Promise<ReconcileResult> {
+    const { priorComments, priorFindings } = await this.loadPriorFindings(owner, repo, pullNumber);
+    const threads = priorFindings.length > 0
+      ? await this.loadThreads(owner, repo, pullNumber)
+      : new Map<number, ReviewThread>();
+
+    // Findings the developer already saw on current code, or dismissed by resolving the thread
+    const knownFingerprints = new Set(
+      priorFindings
+        .filter(({ comment }) => comment.line !== null || threads.get(comment.id)?.isResolved)
+        .map(({ finding }) => finding.fingerprint)
+    );
+
+    const patches = new Map(files.map(file => [file.filename, file.patch || '']));
+    const suppressedSet = new Set(suppressedFingerprints);
+    const newFingerprints = new Set<string>();
+    const fingerprints: string[] = [];
+    const toPost: Comment[] = [];
+    let duplicates = 0;
+    let suppressed = 0;
+
+    for (const comment of comments) {
+      const anchoredCode = getRightSideLine(patches.get(comment.path) || '', comment.line) || '';
+      const fingerprint = fingerprintFinding(
+        comment.path,
+        anchoredCode,
+        comment.issue?.category || '',
+        comment.issue?.message || comment.body
+      );
+      fingerprints.push(fingerprint);
+
+      if (suppressedSet.has(fingerprint)) {
+        suppressed++;
+        continue;
+      }
+
+      if (knownFingerprints.has(fingerprint) || newFingerprints.has(fingerprint)) {
+        duplicates++;
+        continue;
+      }
+
+      newFingerprints.add(fingerprint);
+      toPost.push({
+        ...comment,
+        body: comment.issue
+          ? `${comment.body}\n\n${encodeFinding({ fingerprint, issue: comment.issue })}`
+          : comment.body,
+      });
+    }
+
+    let resolved = 0;
+    for (const { comment, finding } of priorFindings) {
+      const outdated = comment.line === null;
+      const thread = threads.get(comment.id);
+      if (!outdated || thread?.isResolved || newFingerprints.has(finding.fingerprint)) {
+        continue;
+      }
+
+      if (await this.markFixed(owner, repo, pullNumber, headSha, comment, thread, priorComments)) {
+        resolved++;
+      }
+    }
+
+    return { comments: toPost, fingerprints, duplicates, suppressed, resolved };
+  }
+
+  /**
+   * Lists the findings ReviewThor posted on earlier reviews that are still open on current code
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param suppressedFingerprints - Findings developers asked ReviewThor to ignore
+   * @returns Findings whose thread is neither outdated nor resolved, anchored to their current line
+   */
+  async listOpenFindings(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    suppressedFingerprints: string[] = []
+  ): Promise<Finding[]> {
+    const { priorFindings } = await this.loadPriorFindings(owner, repo, pullNumber);
+    if (priorFindings.length === 0) {
+      return [];
+    }
+
+    const threads = await this.loadThreads(owner, repo, pullNumber);
+    const suppressedSet = new Set(suppressedFingerprints);
+
+    return priorFindings
+      .filter(({ comment, finding }) =>
+        comment.line !== null && !threads.get(comment.id)?.isResolved && !suppressedSet.has(finding.fingerprint)
+      )
+      .map(({ comment, finding }) => ({
+        fingerprint: finding.fingerprint,
+        issue: { ...finding.issue, line: comment.line ?? finding.issue.line },
+      }));
+  }
+
+  private async loadPriorFindings(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<{ priorComments: ReviewComment[]; priorFindings: Array<{ comment: ReviewComment; finding: Finding }> }> {
+    const [priorComments, appLogin] = await Promise.all([
+      this.githubClient.listReviewComments(owner, repo, pullNumber),
+      this.githubClient.getAppLogin(),
+    ]);
+    // Only ReviewThor's own comments count, so nobody else can pass off a finding marker as prior feedback
+    const priorFindings = priorComments
+      .filter(comment => comment.user?.login === appLogin && !comment.in_reply_to_id)
+      .map(comment => ({ comment, finding: decodeFinding(comment.body || '') }))
+      .filter((prior): prior is { comment: ReviewComment; finding: Finding } => prior.finding !== null);
+
+    return { priorComments, priorFindings };
+  }
+
+  private async loadThreads(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<Map<number, ReviewThread>> {
+    try {
+      const threads = await this.githubClient.listReviewThreads(owner, repo, pullNumber);
+      return new Map(threads.map(thread => [thread.rootCommentId, thread]));
+    } catch (error) {
+      // Without thread state we can still de-duplicate and reply, just not resolve
+      logger.warn('Failed to load review threads', {
+        pr: pullNumber,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return new Map();
+    }
+  }
+
+  private async markFixed(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    headSha: string,
+    comment: ReviewComment,
+    thread: ReviewThread | undefined,
+    priorComments: ReviewComment[]
+  ): Promise<boolean> {
+    const alreadyReplied = priorComments.some(reply =>
+      reply.in_reply_to_id === comment.id && reply.body?.includes(FIXED_MARKER)
+    );
+
+    if (!alreadyReplied) {
+      await this.githubClient.replyToReviewComment(
+        owner,
+        repo,
+        pullNumber,
+        comment.id,
+        `✅ Fixed in ${headSha.slice(0, 7)}.\n\n${FIXED_MARKER}`
+      );
+    }
+
+    if (thread) {
+      await this.githubClient.resolveReviewThread(thread.id);
+    }
+
+    return !alreadyReplied || thread !== undefined;
+  }
+}
@@ -0,0 +1,124 @@
+import { parsePatch, getRightSideLine, isRightSideRange, revertPatch, snapToRightSide } from './diff-parser';
+
+describe('diff-parser', () => {
+  const patch = [
+    '@@ -1,4 +1,5 @@',
+    ' import a from "a";',
+    '-let x = 1;',
+    '+const x = 1;',
+    '+const y = 2;',
+    ' ',
+    ' export default x;',
+    '@@ -20 +21,2 @@ function tail() {',
+    '-  return;',
+    '+  return x;',
+    '+}',
+    '\\ No newline at end of file',
+    '',
+  ].join('\n');
+
+  describe('parsePatch', () => {
+    it('should parse hunk headers and line numbers on both sides', () => {
+      // Act
+      const hunks = parsePatch(patch);
+
+      // Assert
+      expect(hunks).toHaveLength(2);
+      expect(hunks[0]).toEqual(
+        expect.objectContaining({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 5 })
+      );
+      expect(hunks[0].lines).toEqual([
+        { type: 'context', content: 'import a from "a";', oldLine: 1, newLine: 1 },
+        { type: 'removed', content: 'let x = 1;', oldLine: 2 },
+        { type: 'added', content: 'const x = 1;', newLine: 2 },
+        { type: 'added', content: 'const y = 2;', newLine: 3 },
+        { type: 'context', content: '', oldLine: 3, newLine: 4 },
+        { type: 'context', content: 'export default x;', oldLine: 4, newLine: 5 },
+      ]);
+    });
+
+    it('should default omitted hunk lengths to one and skip no-newline markers', () => {
+      // Act
+      const [, tail] = parsePatch(patch);
+
+      // Assert
+      expect(tail).toEqual(
+        expect.objectContaining({ oldStart: 20, oldLines: 1, newStart: 21, newLines: 2 })
+      );
+      expect(tail.lines.map(line => line.type)).toEqual(['removed', 'added', 'added']);
+    });
+
+    it('should return no hunks for an empty patch', () => {
+      expect(parsePatch('')).toEqual([]);
+    });
+  });
+
+  describe('isRightSideRange', () => {
+    it('should accept ranges within a single hunk', () => {
+      expect(isRightSideRange(patch, 1, 5)).toBe(true);
+      expect(isRightSideRange(patch, 21, 22)).toBe(true);
+    });
+
+    it('should reject ranges spanning hunks or leaving the diff', () => {
+      expect(isRightSideRange(patch, 5, 21)).toBe(false);
+      expect(isRightSideRange(patch, 22, 23)).toBe(false);
+      expect(isRightSideRange(patch, 3, 2)).toBe(false);
+    });
+  });
+
+  describe('snapToRightSide', () => {
+    it('should keep lines on the RIGHT side of a hunk', () => {
+      expect(snapToRightSide(patch, 4, 3)).toBe(4);
+    });
+
+    it('should move lines to the closest added line within the distance', () => {
+      expect(snapToRightSide(patch, 6, 3)).toBe(3);
+      expect(snapToRightSide(patch, 24, 3)).toBe(22);
+    });
+
+    it('should give up on lines too far from any added line', () => {
+      expect(snapToRightSide(patch, 12, 3)).toBeUndefined();
+    });
+  });
+
+  describe('getRightSideLine', () => {
+    it('should return the content of added and context lines', () => {
+      expect(getRightSideLine(patch, 2)).toBe('const x = 1;');
+      expect(getRightSideLine(patch, 5)).toBe('export default x;');
+      expect(getRightSideLine(patch, 22)).toBe('}');
+    });
+
+    it('should return undefined for lines outside the diff', () => {
+      expect(getRightSideLine(patch, 10)).toBeUndefined();
+    });
+  });
+
+  describe('revertPatch', () => {
+    it('should rebuild the old version of a file', () => {
+      // Arrange
+      const newContent = ['const a = 1;', 'const b = 3;', 'const c = 4;', 'const d = 5;', 'const e = 6;'].join('\n');
+      const filePatch = [
+        '@@ -1,3 +1,3 @@',
+        ' const a = 1;',
+        '-const b = 2;',
+        '+const b = 3;',
+        ' const c = 4;',
+        '@@ -5,2 +4,0 @@',
+        '-const x = 0;',
+        '-const y = 0;',
+      ].join('\n');
+
+      // Act
+      const oldContent = revertPatch(newContent, filePatch);
+
+      // Assert
+      expect(oldContent).toBe(
+        ['const a = 1;', 'const b = 2;', 'const c = 4;', 'const d = 5;', 'const x = 0;', 'const y = 0;', 'const e = 6;'].join('\n')
+      );
+    });
+
+    it('should return undefined when the patch does not match the content', () => {
+      expect(revertPatch('something else', '@@ -1 +1 @@\n-old\n+new')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,175 @@
+export interface DiffLine {
+  type: 'added' | 'removed' | 'context';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses a unified diff patch as returned by the GitHub API into hunks
+ * @param patch - Patch text for a single file
+ * @returns Hunks with old (LEFT) and new (RIGHT) line numbers for every line
+ */
+export function parsePatch(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const raw of patch.split('\n')) {
+    const header = raw.match(HUNK_HEADER);
+    if (header) {
+      current = {
+        header: raw,
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+        lines: [],
+      };
+      hunks.push(current);
+      oldLine = current.oldStart;
+      newLine = current.newStart;
+      continue;
+    }
+
+    // Text before the first hunk header, trailing blank lines and "\ No newline at end of file"
+    // markers carry no lines (an empty context line is a single space, never an empty string)
+    if (!current || raw === '' || raw.startsWith('\\')) {
+      continue;
+    }
+
+    if (raw.startsWith('+')) {
+      current.lines.push({ type: 'added', content: raw.slice(1), newLine: newLine++ });
+    } else if (raw.startsWith('-')) {
+      current.lines.push({ type: 'removed', content: raw.slice(1), oldLine: oldLine++ });
+    } else {
+      current.lines.push({
+        type: 'context',
+        content: raw.slice(1),
+        oldLine: oldLine++,
+        newLine: newLine++,
+      });
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Checks whether a line range can be commented on as a whole on the RIGHT (new) side of a patch
+ * @param patch - Patch text for a single file
+ * @param startLine - First line of the range in the new version of the file
+ * @param endLine - Last line of the range in the new version of the file
+ * @returns true if every line of the range is part of the same hunk
+ */
+export function isRightSideRange(patch: string, startLine: number, endLine: number): boolean {
+  if (startLine > endLine) {
+    return false;
+  }
+
+  // GitHub only accepts multi-line comments that stay within a single hunk
+  return parsePatch(patch).some(hunk => {
+    const newLines = new Set(hunk.lines.map(diffLine => diffLine.newLine));
+    for (let line = startLine; line <= endLine; line++) {
+      if (!newLines.has(line)) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * Maps a line number onto a line that can be commented on in the patch
+ * @param patch - Patch text for a single file
+ * @param line - Line number in the new version of the file
+ * @param maxDistance - How far a line outside the diff may be moved
+ * @returns The line itself if it is on the RIGHT side of a hunk, otherwise the closest added line
+ * within maxDistance, or undefined if there is none
+ */
+export function snapToRightSide(patch: string, line: number, maxDistance: number): number | undefined {
+  const hunks = parsePatch(patch);
+  const rightSide = hunks.flatMap(hunk => hunk.lines.filter(diffLine => diffLine.newLine !== undefined));
+
+  if (rightSide.some(diffLine => diffLine.newLine === line)) {
+    return line;
+  }
+
+  let closest: number | undefined;
+  for (const diffLine of rightSide) {
+    if (diffLine.type !== 'added') {
+      continue;
+    }
+
+    const distance = Math.abs((diffLine.newLine as number) - line);
+    if (distance <= maxDistance && (closest === undefined || distance < Math.abs(closest - line))) {
+      closest = diffLine.newLine;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Looks up the content of a line on the RIGHT (new) side of a patch
+ * @param patch - Patch text for a single file
+ * @param line - Line number in the new version of the file
+ * @returns Line content, or undefined if the line is not part of the diff
+ */
+export function getRightSideLine(patch: string, line: number): string | undefined {
+  for (const hunk of parsePatch(patch)) {
+    const match = hunk.lines.find(diffLine => diffLine.newLine === line);
+    if (match) {
+      return match.content;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Rebuilds the old version of a file by reverting a patch on its new version
+ * @param newContent - Content of the new version of the file
+ * @param patch - Patch text for the file
+ * @returns Content of the old version, or undefined if the patch does not match the content
+ */
+export function revertPatch(newContent: string, patch: string): string | undefined {
+  const newLines = newContent.split('\n');
+  const oldLines: string[] = [];
+  let nextLine = 1;
+
+  for (const hunk of parsePatch(patch)) {
+    // A hunk without new lines starts after its newStart line instead of at it
+    const firstLine = hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart;
+    if (firstLine < nextLine || firstLine - 1 > newLines.length) {
+      return undefined;
+    }
+
+    oldLines.push(...newLines.slice(nextLine - 1, firstLine - 1));
+    for (const diffLine of hunk.lines) {
+      if (diffLine.type !== 'removed' && newLines[(diffLine.newLine as number) - 1] !== diffLine.content) {
+        return undefined;
+      }
+      if (diffLine.type !== 'added') {
+        oldLines.push(diffLine.content);
+      }
+    }
+
+    nextLine = firstLine + hunk.newLines;
+  }
+
+  oldLines.push(...newLines.slice(nextLine - 1));
+  return oldLines.join('\n');
+}
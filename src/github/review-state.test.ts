@@ -0,0 +1,181 @@
+import { ReviewStateStore } from './review-state';
+import { GitHubClient, IssueComment } from './client';
+
+jest.mock('./client');
+
+describe('ReviewStateStore', () => {
+  let store: ReviewStateStore;
+  let mockGitHubClient: jest.Mocked<GitHubClient>;
+
+  const botComment = (id: number, body: string): IssueComment => ({
+    id,
+    body,
+    user: { login: 'reviewthor[bot]', type: 'Bot' },
+  });
+
+  beforeEach(() => {
+    mockGitHubClient = {
+      listIssueComments: jest.fn().mockResolvedValue([]),
+      createIssueComment: jest.fn().mockResolvedValue(undefined),
+      updateIssueComment: jest.fn().mockResolvedValue(undefined),
+      getAppLogin: jest.fn().mockResolvedValue('reviewthor[bot]'),
+    } as unknown as jest.Mocked<GitHubClient>;
+
+    store = new ReviewStateStore(mockGitHubClient);
+  });
+
+  describe('load', () => {
+    it('should return null when the pull request has no state comment', async () => {
+      // Act
+      const state = await store.load('owner', 'repo', 1);
+
+      // Assert
+      expect(state).toBeNull();
+      expect(mockGitHubClient.listIssueComments.mock.calls).toContainEqual(['owner', 'repo', 1]);
+    });
+
+    it('should parse the state marker from a bot comment', async () => {
+      // Arrange
+      mockGitHubClient.listIssueComments.mockResolvedValue([
+        { id: 1, body: 'LGTM', user: { login: 'dev', type: 'User' } },
+        botComment(2, 'Reviewed\n\n<!-- reviewthor:state {"lastReviewedSha":"abc123"} -->'),
+      ]);
+
+      // Act
+      const state = await store.load('owner', 'repo', 1);
+
+      // Assert
+      expect(state).toEqual({ lastReviewedSha: 'abc123' });
+    });
+
+    it('should ignore state markers posted by users', async () => {
+      // Arrange
+      mockGitHubClient.listIssueComments.mockResolvedValue([
+        { id: 1, body: '<!-- reviewthor:state {"lastReviewedSha":"fake"} -->', user: { login: 'dev', type: 'User' } },
+      ]);
+
+      // Act & Assert
+      await expect(store.load('owner', 'repo', 1)).resolves.toBeNull();
+    });
+
+    it('should ignore state markers posted by other bots', async () => {
+      // Arrange
+      mockGitHubClient.listIssueComments.mockResolvedValue([
+        {
+          id: 1,
+          body: '<!-- reviewthor:state {"lastReviewedSha":"fake"} -->',
+          user: { login: 'other-app[bot]', type: 'Bot' },
+        },
+      ]);
+
+      // Act & Assert
+      await expect(store.load('owner', 'repo', 1)).resolves.toBeNull();
+    });
+
+    it('should return null for malformed state', async () => {
+      // Arrange
+      mockGitHubClient.listIssueComments.mockResolvedValue([
+        botComment(1, '<!-- reviewthor:state {not json} -->'),
+      ]);
+
+      // Act & Assert
+      await expect(store.load('owner', 'repo', 1)).resolves.toBeNull();
+    });
+
+    it('should return null when the stored SHA is missing', async () => {
+      // Arrange
+      mockGitHubClient.listIssueComments.mockResolvedValue([
+        botComment(1, '<!-- reviewthor:state {"lastReviewedSha":""} -->'),
+      ]);
+
+      // Act & Assert
+      await expect(store.load('owner', 'repo', 1)).resolves.toBeNull();
+    });
+  });
+
+  describe('save', () => {
+    it('should create a state comment when none exists', async () => {
+      // Act
+      await store.save('owner', 'repo', 1, { lastReviewedSha: 'abcdef123456' });
+
+      // Assert
+      expect(mockGitHubClient.createIssueComment.mock.calls).toContainEqual([
+        'owner',
+        'repo',
+        1,
+        '🔍 ReviewThor has reviewed this pull request up to abcdef1.\n\n<!-- reviewthor:state {"lastReviewedSha":"abcdef123456"} -->'
+      ]);
+      expect(mockGitHubClient.updateIssueComment.mock.calls).toHaveLength(0);
+    });
+
+    it('should update the existing state comment in place', async () => {
+      // Arrange
+      mockGitHubClient.listIssueComments.mockResolvedValue([
+        botComment(7, '<!-- reviewthor:state {"lastReviewedSha":"old"} -->'),
+      ]);
+
+      // Act
+      await store.save('owner', 'repo', 1, { lastReviewedSha: 'new' }, 'Custom body');
+
+      // Assert
+      expect(mockGitHubClient.updateIssueComment.mock.calls).toContainEqual([
+        'owner',
+        'repo',
+        7,
+        'Custom body\n\n<!-- reviewthor:state {"lastReviewedSha":"new"} -->'
+      ]);
+      expect(mockGitHubClient.createIssueComment.mock.calls).toHaveLength(0);
+    });
+  });
+
+  describe('suppress', () => {
+    it('should add the fingerprint while keeping the rest of the state', async () => {
+      // Arrange
+      mockGitHubClient.listIssueComments.mockResolvedValue([
+        botComment(7, '<!-- reviewthor:state {"lastReviewedSha":"abcdef123456","suppressedFingerprints":["fp-1"]} -->'),
+      ]);
+
+      // Act
+      await store.suppress('owner', 'repo', 1, 'fp-2');
+
+      // Assert
+      expect(mockGitHubClient.updateIssueComment.mock.calls).toContainEqual([
+        'owner',
+        'repo',
+        7,
+        '🔍 ReviewThor has reviewed this pull request up to abcdef1.\n\n<!-- reviewthor:state {"lastReviewedSha":"abcdef123456","suppressedFingerprints":["fp-1","fp-2"]} -->'
+      ]);
+    });
+
+    it('should keep the visible summary of the state comment', async () => {
+      // Arrange
+      mockGitHubClient.listIssueComments.mockResolvedValue([
+        botComment(7, '## Summary\n\n<!-- reviewthor:state {"lastReviewedSha":"abcdef123456"} -->'),
+      ]);
+
+      // Act
+      await store.suppress('owner', 'repo', 1, 'fp-1');
+
+      // Assert
+      expect(mockGitHubClient.updateIssueComment.mock.calls).toContainEqual([
+        'owner',
+        'repo',
+        7,
+        '## Summary\n\n<!-- reviewthor:state {"lastReviewedSha":"abcdef123456","suppressedFingerprints":["fp-1"]} -->'
+      ]);
+    });
+
+    it('should start tracking a pull request that was never reviewed', async () => {
+      // Act
+      await store.suppress('owner', 'repo', 1, 'fp-1');
+
+      // Assert
+      expect(mockGitHubClient.createIssueComment.mock.calls).toContainEqual([
+        'owner',
+        'repo',
+        1,
+        '🔍 ReviewThor is tracking this pull request.\n\n<!-- reviewthor:state {"suppressedFingerprints":["fp-1"]} -->'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { GitHubClient, IssueComment } from './client';
+
+export interface ReviewState {
+  lastReviewedSha?: string;
+  suppressedFingerprints?: string[];
+}
+
+/**
+ * Persists per-pull-request review state in a hidden marker inside a PR comment posted by the app,
+ * so the stateless function can pick up where the previous invocation left off.
+ */
+export class ReviewStateStore {
+  private static readonly MARKER = 'reviewthor:state';
+  private static readonly MARKER_PATTERN = /<!-- reviewthor:state (.*?) -->/;
+
+  constructor(private readonly githubClient: GitHubClient) {}
+
+  /**
+   * Loads the stored review state for a pull request
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @returns Stored review state or null if the pull request was never reviewed
+   */
+  async load(owner: string, repo: string, pullNumber: number): Promise<ReviewState | null> {
+    const comment = await this.findStateComment(owner, repo, pullNumber);
+    if (!comment) {
+      return null;
+    }
+
+    return ReviewStateStore.parseState(comment.body);
+  }
+
+  /**
+   * Stores review state, editing the existing state comment in place when there is one
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param state - Review state to store
+   * @param body - Visible comment body rendered above the hidden state marker; the existing body is kept when omitted
+   */
+  async save(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    state: ReviewState,
+    body?: string
+  ): Promise<void> {
+    const existing = await this.findStateComment(owner, repo, pullNumber);
+    const existingBody = existing?.body.replace(ReviewStateStore.MARKER_PATTERN, '').trim();
+
+    const visibleBody = body ?? (existingBody || (state.lastReviewedSha
+      ? `🔍 ReviewThor has reviewed this pull request up to ${state.lastReviewedSha.slice(0, 7)}.`
+      : '🔍 ReviewThor is tracking this pull request.'));
+    const fullBody = `${visibleBody}\n\n<!-- ${ReviewStateStore.MARKER} ${JSON.stringify(state)} -->`;
+
+    if (existing) {
+      await this.githubClient.updateIssueComment(owner, repo, existing.id, fullBody);
+    } else {
+      await this.githubClient.createIssueComment(owner, repo, pullNumber, fullBody);
+    }
+  }
+
+  /**
+   * Records a finding fingerprint that should no longer be reported on this pull request
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param fingerprint - Fingerprint of the suppressed finding
+   */
+  async suppress(owner: string, repo: string, pullNumber: number, fingerprint: string): Promise<void> {
+    const state = (await this.load(owner, repo, pullNumber)) || {};
+    const suppressed = new Set(state.suppressedFingerprints || []);
+    suppressed.add(fingerprint);
+
+    await this.save(owner, repo, pullNumber, {
+      ...state,
+      suppressedFingerprints: [...suppressed],
+    });
+  }
+
+  private async findStateComment(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<IssueComment | undefined> {
+    const [comments, appLogin] = await Promise.all([
+      this.githubClient.listIssueComments(owner, repo, pullNumber),
+      this.githubClient.getAppLogin(),
+    ]);
+
+    // Only trust markers ReviewThor wrote itself, never ones pasted by users or other bots
+    return comments.find(comment =>
+      comment.user?.login === appLogin && ReviewStateStore.MARKER_PATTERN.test(comment.body || '')
+    );
+  }
+
+  private static parseState(body: string): ReviewState | null {
+    const match = body.match(ReviewStateStore.MARKER_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(match[1]) as ReviewState;
+      const state: ReviewState = {};
+
+      if (typeof parsed.lastReviewedSha === 'string' && parsed.lastReviewedSha.length > 0) {
+        state.lastReviewedSha = parsed.lastReviewedSha;
+      }
+      if (Array.isArray(parsed.suppressedFingerprints)) {
+        state.suppressedFingerprints = parsed.suppressedFingerprints.filter(
+          (fingerprint): fingerprint is string => typeof fingerprint === 'string'
+        );
+      }
+
+      return Object.keys(state).length > 0 ? state : null;
+    } catch {
+      return null;
+    }
+  }
+}
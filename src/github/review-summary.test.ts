@@ -0,0 +1,183 @@
+import { computeStats, renderReviewSummary, ReviewSummary } from './review-summary';
+import { Issue } from '../ai/engine';
+
+describe('review summary', () => {
+  const issues: Issue[] = [
+    { file: 'src/a.js', line: 1, severity: 'error', message: 'Null dereference', category: 'bug' },
+    { file: 'src/a.js', line: 5, severity: 'warning', message: 'Unused variable', category: 'code-quality' },
+    { file: 'src/b.js', line: 2, severity: 'warning', message: 'Possible race', category: 'bug' },
+  ];
+
+  const summary = (overrides: Partial<ReviewSummary> = {}): ReviewSummary => ({
+    analysis: { issues, summary: 'Looks mostly fine', stats: computeStats(issues) },
+    headSha: 'abcdef123456',
+    incremental: false,
+    reviewedFiles: ['src/a.js', 'src/b.js'],
+    skippedFiles: [],
+    filesBeyondCap: 0,
+    droppedComments: [],
+    unplacedComments: [],
+    maxComments: 20,
+    ...overrides,
+  });
+
+  describe('computeStats', () => {
+    it('should count issues per category and severity', () => {
+      expect(computeStats(issues)).toEqual({
+        total: 3,
+        byCategory: { bug: 2, 'code-quality': 1 },
+        bySeverity: { error: 1, warning: 2 },
+      });
+    });
+  });
+
+  describe('renderReviewSummary', () => {
+    it('should render the summary with severity and category tables', () => {
+      // Act
+      const body = renderReviewSummary(summary());
+
+      // Assert
+      expect(body).toContain('Reviewed the full pull request up to abcdef1.');
+      expect(body).toContain('Looks mostly fine');
+      expect(body).toContain('### Findings (3)');
+      expect(body).toContain('| ❌ error | 1 |\n| ⚠️ warning | 2 |');
+      expect(body).toContain('| bug | 2 |\n| code-quality | 1 |');
+      expect(body).toContain('✅ 2 reviewed, ⏭️ 0 skipped');
+      expect(body).not.toContain('Findings not posted inline');
+    });
+
+    it('should list skipped files with their reason', () => {
+      // Act
+      const body = renderReviewSummary(summary({
+        incremental: true,
+        skippedFiles: [
+          { path: 'src/huge.js', reason: 'large' },
+          { path: 'dist/out.js', reason: 'ignored' },
+          { path: 'src/z.js', reason: 'limit' },
+        ],
+        filesBeyondCap: 4,
+      }));
+
+      // Assert
+      expect(body).toContain('Reviewed changes since the last review up to abcdef1.');
+      expect(body).toContain('✅ 2 reviewed, ⏭️ 7 skipped');
+      expect(body).toContain('| `src/huge.js` | Diff too large |');
+      expect(body).toContain('| `dist/out.js` | Matches an ignored path |');
+      expect(body).toContain('| `src/z.js` | Over the per-review file limit |');
+      expect(body).toContain('4 more changed files were not listed by GitHub');
+    });
+
+    it('should list findings dropped by the inline comment limit', () => {
+      // Act
+      const body = renderReviewSummary(summary({
+        droppedComments: [
+          { path: 'src/b.js', line: 2, body: '⚠️ Possible race', issue: issues[2] },
+          { path: 'src/c.js', line: 9, body: 'Plain comment\nwith details' },
+        ],
+      }));
+
+      // Assert
+      expect(body).toContain('### Findings not posted inline (2)');
+      expect(body).toContain('- ⚠️ `src/b.js:2` Possible race');
+      expect(body).toContain('- `src/c.js:9` Plain comment');
+    });
+
+    it('should list findings that could not be placed on the diff', () => {
+      // Act
+      const body = renderReviewSummary(summary({
+        unplacedComments: [{ path: 'src/a.js', line: 40, body: '❌ Null dereference', issue: issues[0] }],
+      }));
+
+      // Assert
+      expect(body).toContain('### Findings outside the diff (1)');
+      expect(body).toContain('- ❌ `src/a.js:40` Null dereference');
+    });
+
+    it('should truncate long file lists', () => {
+      // Arrange
+      const reviewedFiles = Array.from({ length: 150 }, (_, i) => `src/file-${i}.js`);
+
+      // Act
+      const body = renderReviewSummary(summary({ reviewedFiles }));
+
+      // Assert
+      expect(body).toContain('`src/file-99.js`');
+      expect(body).not.toContain('`src/file-100.js`');
+      expect(body).toContain('…and 50 more');
+    });
+
+    it('should shorten the summary to fit a GitHub comment', () => {
+      // Arrange
+      const message = 'x'.repeat(2000);
+      const droppedComments = Array.from({ length: 100 }, (_, i) => ({
+        path: `src/file-${i}.js`,
+        line: 1,
+        body: message,
+        issue: { ...issues[0], message },
+      }));
+
+      // Act
+      const body = renderReviewSummary(summary({ droppedComments }));
+
+      // Assert
+      expect(body.length).toBeLessThanOrEqual(60000);
+      expect(body).toContain('`src/file-0.js:1`');
+      expect(body).not.toContain('`src/file-99.js:1`');
+      expect(body.endsWith('\n\n…summary shortened to fit the GitHub comment size limit.')).toBe(true);
+    });
+
+    it('should list configuration problems with their location', () => {
+      // Act
+      const body = renderReviewSummary(summary({
+        configurationErrors: [
+          { path: '.reviewthor/templates/api.md', line: 3, message: 'version must look like 1.0.0' },
+          { path: '.reviewthor/templates/db.md', message: 'files is required for new templates' },
+        ],
+      }));
+
+      // Assert
+      expect(body).toContain('### ⚠️ Configuration problems (2)');
+      expect(body).toContain(
+        '- `.reviewthor/templates/api.md:3` version must look like 1.0.0\n' +
+        '- `.reviewthor/templates/db.md` files is required for new templates'
+      );
+    });
+
+    it('should list the settings a pull request changes', () => {
+      // Act
+      const body = renderReviewSummary(summary({
+        configurationChanges: {
+          files: ['.reviewthor.yml', 'packages/api/.reviewthor.yml'],
+          settings: [
+            { setting: 'maxCommentsPerPR', before: 20, after: 5 },
+            { setting: 'focusAreas', before: ['Security', 'Performance'], after: ['Security', 'Accessibility'] },
+            { setting: 'reactSettings.enabled', before: true, after: undefined },
+          ],
+          errors: [{ path: '.reviewthor.yml', line: 4, message: 'Unknown setting "maxComments".' }],
+          previewed: false,
+        },
+      }));
+
+      // Assert
+      expect(body).toContain('### Configuration changes (3)');
+      expect(body).toContain('apply once the pull request is merged');
+      expect(body).toContain('Changed files: `.reviewthor.yml`, `packages/api/.reviewthor.yml`');
+      expect(body).toContain(
+        '- `maxCommentsPerPR`: `20` → `5`\n' +
+        '- `focusAreas`: added `"Accessibility"`; removed `"Performance"`\n' +
+        '- `reactSettings.enabled`: `true` → not set'
+      );
+      expect(body).toContain('Problems in the new configuration:\n\n- `.reviewthor.yml:4` Unknown setting "maxComments".');
+    });
+
+    it('should report when no issues were found', () => {
+      // Act
+      const body = renderReviewSummary(summary({
+        analysis: { issues: [], summary: 'All good', stats: computeStats([]) },
+      }));
+
+      // Assert
+      expect(body).toContain('### Findings\n\nNo issues found.');
+    });
+  });
+});
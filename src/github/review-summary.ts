@@ -0,0 +1,313 @@
+import { Comment, Issue, ReviewAnalysis } from '../ai/engine';
+import { CheckRunAnnotation, CheckRunConclusion } from './client';
+
+export type SkipReason = 'large' | 'ignored' | 'limit';
+
+export interface SkippedFile {
+  path: string;
+  reason: SkipReason;
+}
+
+export interface ConfigurationError {
+  /** Repository file the problem is in */
+  path: string;
+  line?: number;
+  message: string;
+}
+
+export interface ConfigurationChange {
+  /** Setting name, such as maxCommentsPerPR or reactSettings.enabled */
+  setting: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ConfigurationChanges {
+  /** ReviewThor files the pull request changes */
+  files: string[];
+  /** Effective settings that differ from the base branch */
+  settings: ConfigurationChange[];
+  /** Problems in the changed configuration */
+  errors: ConfigurationError[];
+  /** Whether the review used the changed configuration instead of the base branch's */
+  previewed: boolean;
+}
+
+export interface ReviewSummary {
+  analysis: ReviewAnalysis;
+  /** Findings from earlier reviews that are still open, included in the analysis */
+  openFindings?: number;
+  headSha: string;
+  incremental: boolean;
+  reviewedFiles: string[];
+  skippedFiles: SkippedFile[];
+  filesBeyondCap: number;
+  droppedComments: Comment[];
+  unplacedComments: Comment[];
+  maxComments: number;
+  /** Most comments posted inline on one file */
+  maxCommentsPerFile?: number;
+  /** Problems in the repository's ReviewThor files, which were ignored in part or whole */
+  configurationErrors?: ConfigurationError[];
+  /** Changes the pull request makes to the repository's ReviewThor files */
+  configurationChanges?: ConfigurationChanges;
+}
+
+const SEVERITY_ICONS: Record<Issue['severity'], string> = {
+  error: '❌',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
+
+const SKIP_REASONS: Record<SkipReason, string> = {
+  large: 'Diff too large',
+  ignored: 'Matches an ignored path',
+  limit: 'Over the per-review file limit',
+};
+
+// Keeps the comment well below GitHub's 65536 character limit on large pull requests
+const MAX_LISTED_ENTRIES = 100;
+
+// Leaves room for the review state marker stored in the same comment
+const MAX_SUMMARY_LENGTH = 60000;
+
+/**
+ * Computes finding counts per category and severity
+ * @param issues - Issues to count
+ * @returns Stats in the ReviewAnalysis format
+ */
+export function computeStats(issues: Issue[]): ReviewAnalysis['stats'] {
+  const byCategory: Record<string, number> = {};
+  const bySeverity: Record<string, number> = {};
+
+  for (const issue of issues) {
+    byCategory[issue.category] = (byCategory[issue.category] || 0) + 1;
+    bySeverity[issue.severity] = (bySeverity[issue.severity] || 0) + 1;
+  }
+
+  return { total: issues.length, byCategory, bySeverity };
+}
+
+/**
+ * Builds check run annotations for issues
+ * @param issues - Issues to annotate
+ * @returns One annotation per issue
+ */
+export function annotateIssues(issues: Issue[]): CheckRunAnnotation[] {
+  const levels: Record<Issue['severity'], CheckRunAnnotation['annotation_level']> = {
+    error: 'failure',
+    warning: 'warning',
+    info: 'notice',
+  };
+
+  return issues.map(issue => ({
+    path: issue.file,
+    start_line: issue.line,
+    end_line: issue.line,
+    annotation_level: levels[issue.severity],
+    message: issue.message,
+    title: issue.category,
+    ...(issue.suggestion ? { raw_details: issue.suggestion } : {}),
+  }));
+}
+
+/**
+ * Derives the check run conclusion from the severities of issues
+ * @param issues - Issues found
+ * @returns failure if any is an error, neutral for warnings only, success otherwise
+ */
+export function concludeReview(issues: Issue[]): CheckRunConclusion {
+  if (issues.some(issue => issue.severity === 'error')) {
+    return 'failure';
+  }
+
+  if (issues.some(issue => issue.severity === 'warning')) {
+    return 'neutral';
+  }
+
+  return 'success';
+}
+
+/**
+ * Renders the pull request summary comment
+ * @param summary - Outcome of the review
+ * @returns Markdown comment body
+ */
+export function renderReviewSummary(summary: ReviewSummary): string {
+  const { analysis, headSha, incremental } = summary;
+  const scope = incremental ? 'changes since the last review' : 'the full pull request';
+
+  const sections = [
+    '## 🔍 ReviewThor Summary',
+    `Reviewed ${scope} up to ${headSha.slice(0, 7)}.`,
+    analysis.summary,
+    renderFindings(analysis.stats, summary.openFindings ?? 0),
+    renderFiles(summary),
+  ];
+
+  if (summary.unplacedComments.length > 0) {
+    sections.push(renderCommentList(
+      `### Findings outside the diff (${summary.unplacedComments.length})`,
+      'These findings point at lines GitHub does not accept review comments on.',
+      summary.unplacedComments
+    ));
+  }
+
+  if (summary.droppedComments.length > 0) {
+    sections.push(renderCommentList(
+      `### Findings not posted inline (${summary.droppedComments.length})`,
+      summary.maxCommentsPerFile === undefined
+        ? `Only ${summary.maxComments} comments are posted inline per review.`
+        : `Only ${summary.maxComments} comments are posted inline per review, and at most ${summary.maxCommentsPerFile} per file.`,
+      summary.droppedComments
+    ));
+  }
+
+  if (summary.configurationErrors && summary.configurationErrors.length > 0) {
+    sections.push(renderConfigurationErrors(summary.configurationErrors));
+  }
+
+  if (summary.configurationChanges) {
+    sections.push(renderConfigurationChanges(summary.configurationChanges));
+  }
+
+  return limitLength(sections.filter(section => section.length > 0).join('\n\n'));
+}
+
+function renderConfigurationErrors(errors: ConfigurationError[]): string {
+  return [
+    `### ⚠️ Configuration problems (${errors.length})`,
+    'The review ran without the parts of these files that could not be used.',
+    limitEntries(errors.map(renderConfigurationError)).join('\n'),
+  ].join('\n\n');
+}
+
+function renderConfigurationError(error: ConfigurationError): string {
+  const location = error.line ? `${error.path}:${error.line}` : error.path;
+  return `- \`${location}\` ${error.message}`;
+}
+
+function renderConfigurationChanges(changes: ConfigurationChanges): string {
+  const note = changes.previewed
+    ? 'This review used the configuration from this pull request, as requested.'
+    : 'This review used the configuration of the base branch; these changes apply once the pull request is merged. ' +
+      'Comment `/reviewthor preview` to review it with them.';
+  const settings = changes.settings.length > 0
+    ? limitEntries(changes.settings.map(renderSettingChange)).join('\n')
+    : 'No effective setting changes.';
+
+  const parts = [
+    `### Configuration changes (${changes.settings.length})`,
+    note,
+    `Changed files: ${changes.files.map(path => `\`${path}\``).join(', ')}`,
+    settings,
+  ];
+  if (changes.errors.length > 0) {
+    parts.push(`Problems in the new configuration:\n\n${limitEntries(changes.errors.map(renderConfigurationError)).join('\n')}`);
+  }
+
+  return parts.join('\n\n');
+}
+
+function renderSettingChange(change: ConfigurationChange): string {
+  const { setting, before, after } = change;
+  if (!Array.isArray(before) || !Array.isArray(after)) {
+    return `- \`${setting}\`: ${formatSettingValue(before)} → ${formatSettingValue(after)}`;
+  }
+
+  // Lists are compared item by item, since most changes add or remove a few entries
+  const keys = (items: unknown[]): Set<string> => new Set(items.map(item => JSON.stringify(item)));
+  const beforeKeys = keys(before);
+  const afterKeys = keys(after);
+  const added = after.filter(item => !beforeKeys.has(JSON.stringify(item)));
+  const removed = before.filter(item => !afterKeys.has(JSON.stringify(item)));
+
+  const parts = [
+    added.length > 0 ? `added ${added.map(formatSettingValue).join(', ')}` : '',
+    removed.length > 0 ? `removed ${removed.map(formatSettingValue).join(', ')}` : '',
+  ].filter(part => part.length > 0);
+  return `- \`${setting}\`: ${parts.join('; ') || 'reordered'}`;
+}
+
+function formatSettingValue(value: unknown): string {
+  return value === undefined ? 'not set' : `\`${JSON.stringify(value)}\``;
+}
+
+function renderFindings(stats: ReviewAnalysis['stats'], openFindings: number): string {
+  if (stats.total === 0) {
+    return '### Findings\n\nNo issues found.';
+  }
+
+  const severityRows = (['error', 'warning', 'info'] as const)
+    .filter(severity => stats.bySeverity[severity])
+    .map(severity => `| ${SEVERITY_ICONS[severity]} ${severity} | ${stats.bySeverity[severity]} |`);
+
+  const categoryRows = Object.entries(stats.byCategory)
+    .sort(([, a], [, b]) => b - a)
+    .map(([category, count]) => `| ${category} | ${count} |`);
+
+  return [
+    `### Findings (${stats.total})`,
+    openFindings > 0
+      ? `Includes ${openFindings} finding${openFindings === 1 ? '' : 's'} from earlier reviews that ${openFindings === 1 ? 'is' : 'are'} still open.`
+      : '',
+    ['| Severity | Count |', '|----------|-------|', ...severityRows].join('\n'),
+    ['| Category | Count |', '|----------|-------|', ...categoryRows].join('\n'),
+  ].filter(part => part.length > 0).join('\n\n');
+}
+
+function renderFiles(summary: ReviewSummary): string {
+  const { reviewedFiles, skippedFiles, filesBeyondCap } = summary;
+  const parts = [`### Files\n\n✅ ${reviewedFiles.length} reviewed, ⏭️ ${skippedFiles.length + filesBeyondCap} skipped`];
+
+  if (reviewedFiles.length > 0) {
+    const items = limitEntries(reviewedFiles.map(path => `- \`${path}\``));
+    parts.push(`<details>\n<summary>Reviewed files</summary>\n\n${items.join('\n')}\n\n</details>`);
+  }
+
+  if (skippedFiles.length > 0) {
+    const rows = limitEntries(
+      skippedFiles.map(file => `| \`${file.path}\` | ${SKIP_REASONS[file.reason]} |`)
+    );
+    parts.push(['| Skipped file | Reason |', '|--------------|--------|', ...rows].join('\n'));
+  }
+
+  if (filesBeyondCap > 0) {
+    parts.push(`${filesBeyondCap} more changed files were not listed by GitHub and could not be reviewed.`);
+  }
+
+  return parts.join('\n\n');
+}
+
+function renderCommentList(heading: string, note: string, comments: Comment[]): string {
+  const items = limitEntries(comments.map(comment => {
+    const icon = comment.issue ? `${SEVERITY_ICONS[comment.issue.severity]} ` : '';
+    const message = comment.issue?.message || comment.body.split('\n')[0];
+    return `- ${icon}\`${comment.path}:${comment.line}\` ${message}`;
+  }));
+
+  return [heading, note, items.join('\n')].join('\n\n');
+}
+
+function limitLength(body: string): string {
+  if (body.length <= MAX_SUMMARY_LENGTH) {
+    return body;
+  }
+
+  const note = '…summary shortened to fit the GitHub comment size limit.';
+  const kept = body.slice(0, MAX_SUMMARY_LENGTH - note.length - 2);
+  // Cut at a line break so a table row or list item is not left half written
+  const lineEnd = kept.lastIndexOf('\n');
+  return `${lineEnd > 0 ? kept.slice(0, lineEnd) : kept}\n\n${note}`;
+}
+
+function limitEntries(entries: string[]): string[] {
+  if (entries.length <= MAX_LISTED_ENTRIES) {
+    return entries;
+  }
+
+  return [
+    ...entries.slice(0, MAX_LISTED_ENTRIES),
+    `…and ${entries.length - MAX_LISTED_ENTRIES} more`,
+  ];
+}
@@ -27,6 +27,7 @@ export interface PullRequestEvent {
     };
     draft: boolean;
     merged: boolean;
+    changed_files?: number;
   };
   repository: {
     id: number;
@@ -0,0 +1,362 @@
+import { handleCommand, parseCommand } from './command';
+import { handlePullRequest } from './pull-request';
+import { GitHubEvent } from '../webhook';
+import { GitHubClient, ReviewComment } from '../../github/client';
+import { ReviewStateStore } from '../../github/review-state';
+import { encodeFinding } from '../../github/comment-reconciler';
+import { AIReviewEngine, Issue } from '../../ai/engine';
+import { logger } from '../../utils/logger';
+import { getConfig } from '../../config/loader';
+
+// Mock all dependencies
+jest.mock('./pull-request');
+jest.mock('../../github/client');
+jest.mock('../../github/review-state');
+jest.mock('../../ai/engine');
+jest.mock('../../ai/anthropic-client');
+jest.mock('../../ai/prompt-manager');
+jest.mock('../../ai/context-builder');
+jest.mock('../../utils/logger');
+jest.mock('../../config/loader');
+
+describe('handleCommand', () => {
+  let mockGitHubClient: jest.Mocked<GitHubClient>;
+  let mockStateStore: jest.Mocked<ReviewStateStore>;
+  let mockAIEngine: jest.Mocked<AIReviewEngine>;
+  const correlationId = 'test-correlation-id';
+
+  const issue: Issue = {
+    file: 'src/index.js',
+    line: 2,
+    severity: 'warning',
+    message: 'Use const instead of var',
+    category: 'code-quality',
+  };
+
+  const reviewCommentEvent = (body: string, overrides: Record<string, unknown> = {}): GitHubEvent => ({
+    type: 'pull_request_review_comment.created',
+    payload: {
+      action: 'created',
+      comment: {
+        id: 20,
+        in_reply_to_id: 10,
+        body,
+        user: { login: 'octocat', type: 'User' },
+        ...overrides,
+      },
+      pull_request: { number: 1 },
+    },
+    repository: { name: 'test-repo', owner: 'test-owner' },
+    installationId: 789,
+  });
+
+  const issueCommentEvent = (body: string, pullRequest: unknown = { url: 'https://api.github.com/pulls/1' }): GitHubEvent => ({
+    type: 'issue_comment.created',
+    payload: {
+      action: 'created',
+      comment: { id: 30, body, user: { login: 'octocat', type: 'User' } },
+      issue: { number: 1, pull_request: pullRequest },
+    },
+    repository: { name: 'test-repo', owner: 'test-owner' },
+    installationId: 789,
+  });
+
+  beforeEach(() => {
+    mockGitHubClient = {
+      authenticate: jest.fn().mockResolvedValue(undefined),
+      getPullRequest: jest.fn().mockResolvedValue({ number: 1, draft: true, head: { sha: 'abc123' } }),
+      getReviewComment: jest.fn().mockResolvedValue({
+        id: 10,
+        body: `⚠️ Use const\n\n${encodeFinding({ fingerprint: 'fp-1', issue })}`,
+        user: { login: 'reviewthor[bot]', type: 'Bot' },
+      }),
+      getCollaboratorPermission: jest.fn().mockResolvedValue('write'),
+      getAppLogin: jest.fn().mockResolvedValue('reviewthor[bot]'),
+      replyToReviewComment: jest.fn().mockResolvedValue(undefined),
+      createIssueComment: jest.fn().mockResolvedValue(undefined),
+      listReviewThreads: jest.fn().mockResolvedValue([
+        { id: 'thread-1', isResolved: false, rootCommentId: 10 },
+      ]),
+      resolveReviewThread: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<GitHubClient>;
+
+    mockStateStore = {
+      suppress: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<ReviewStateStore>;
+
+    mockAIEngine = {
+      explainReasoning: jest.fn().mockResolvedValue('Detailed explanation'),
+    } as unknown as jest.Mocked<AIReviewEngine>;
+
+    (GitHubClient as jest.MockedClass<typeof GitHubClient>).mockImplementation(() => mockGitHubClient);
+    (ReviewStateStore as jest.MockedClass<typeof ReviewStateStore>).mockImplementation(() => mockStateStore);
+    (AIReviewEngine as jest.MockedClass<typeof AIReviewEngine>).mockImplementation(() => mockAIEngine);
+
+    (getConfig as jest.Mock).mockResolvedValue({
+      githubAppId: 123456,
+      githubPrivateKey: 'test-key',
+      anthropicApiKey: 'test-api-key',
+      anthropicModel: 'claude-3-opus',
+      maxRetries: 3,
+      aiTimeoutMs: 30000,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseCommand', () => {
+    it('should parse a command on its own line', () => {
+      expect(parseCommand('Thanks!\n/reviewthor Explain please')).toEqual({ name: 'explain', args: 'please' });
+    });
+
+    it('should return null for comments without a command', () => {
+      expect(parseCommand('Mentioning /reviewthor review inline')).toBeNull();
+      expect(parseCommand('/reviewthor')).toBeNull();
+    });
+  });
+
+  describe('filtering', () => {
+    it('should ignore comments written by bots', async () => {
+      // Act
+      await handleCommand(reviewCommentEvent('/reviewthor review', { user: { login: 'reviewthor[bot]', type: 'Bot' } }), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.authenticate.mock.calls).toHaveLength(0);
+    });
+
+    it('should ignore comments without a command', async () => {
+      // Act
+      await handleCommand(reviewCommentEvent('Looks good to me'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.authenticate.mock.calls).toHaveLength(0);
+    });
+
+    it('should ignore comments on issues that are not pull requests', async () => {
+      // Act
+      await handleCommand(issueCommentEvent('/reviewthor review', null), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.authenticate.mock.calls).toHaveLength(0);
+    });
+
+    it('should reply with usage for unknown commands', async () => {
+      // Act
+      await handleCommand(issueCommentEvent('/reviewthor dance'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.createIssueComment.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        expect.stringContaining('Unknown command `dance`')
+      ]);
+    });
+
+    it('should not reply to unknown commands from users without access', async () => {
+      // Arrange
+      mockGitHubClient.getCollaboratorPermission.mockResolvedValue('read');
+
+      // Act
+      await handleCommand(issueCommentEvent('/reviewthor dance'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.createIssueComment.mock.calls).toHaveLength(0);
+    });
+
+    it('should not treat object prototype keys as commands', async () => {
+      // Act
+      await handleCommand(issueCommentEvent('/reviewthor constructor'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.createIssueComment.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        expect.stringContaining('Unknown command `constructor`')
+      ]);
+    });
+  });
+
+  describe('permissions', () => {
+    it('should reject commands from users without the required role', async () => {
+      // Arrange
+      mockGitHubClient.getCollaboratorPermission.mockResolvedValue('triage');
+
+      // Act
+      await handleCommand(reviewCommentEvent('/reviewthor ignore'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.getCollaboratorPermission.mock.calls).toContainEqual(['test-owner', 'test-repo', 'octocat']);
+      expect(mockStateStore.suppress.mock.calls).toHaveLength(0);
+      expect(mockGitHubClient.replyToReviewComment.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        10,
+        '@octocat `/reviewthor ignore` requires write access to this repository.'
+      ]);
+    });
+
+    it('should allow triage users to ask for explanations', async () => {
+      // Arrange
+      mockGitHubClient.getCollaboratorPermission.mockResolvedValue('triage');
+
+      // Act
+      await handleCommand(reviewCommentEvent('/reviewthor explain'), correlationId);
+
+      // Assert
+      expect(mockAIEngine.explainReasoning.mock.calls).toContainEqual([issue]);
+    });
+  });
+
+  describe('review', () => {
+    it('should run a full review of the pull request', async () => {
+      // Act
+      await handleCommand(issueCommentEvent('/reviewthor review'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.createIssueComment.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        '🔍 Starting a full review as requested by @octocat.'
+      ]);
+      expect(jest.mocked(handlePullRequest).mock.calls).toMatchObject([[
+        {
+          type: 'pull_request.opened',
+          payload: {
+            action: 'opened',
+            pull_request: { number: 1, draft: false, head: { sha: 'abc123' } },
+          },
+          installationId: 789,
+        },
+        correlationId,
+        { previewConfig: false },
+      ]]);
+    });
+
+    it('should review with the configuration from the pull request when a preview is requested', async () => {
+      // Act
+      await handleCommand(issueCommentEvent('/reviewthor preview'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.createIssueComment.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        '🔍 Starting a full review with the configuration from this pull request as requested by @octocat.'
+      ]);
+      expect(handlePullRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'pull_request.opened' }),
+        correlationId,
+        { previewConfig: true }
+      );
+    });
+  });
+
+  describe('explain', () => {
+    it('should reply in the thread with an explanation of the finding', async () => {
+      // Act
+      await handleCommand(reviewCommentEvent('/reviewthor explain'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.getReviewComment.mock.calls).toContainEqual(['test-owner', 'test-repo', 10]);
+      expect(mockGitHubClient.replyToReviewComment.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        10,
+        'Detailed explanation'
+      ]);
+    });
+
+    it('should explain how to use the command outside a ReviewThor thread', async () => {
+      // Arrange
+      mockGitHubClient.getReviewComment.mockResolvedValue({
+        id: 10,
+        body: 'Human comment',
+        user: { login: 'someone', type: 'User' },
+      } as ReviewComment);
+
+      // Act
+      await handleCommand(reviewCommentEvent('/reviewthor explain'), correlationId);
+
+      // Assert
+      expect(mockAIEngine.explainReasoning.mock.calls).toHaveLength(0);
+      expect(mockGitHubClient.replyToReviewComment.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        10,
+        expect.stringContaining('Reply to a ReviewThor comment')
+      ]);
+    });
+
+    it('should not explain findings posted by other bots', async () => {
+      // Arrange
+      mockGitHubClient.getReviewComment.mockResolvedValue({
+        id: 10,
+        body: `Copied\n\n${encodeFinding({ fingerprint: 'fp-1', issue })}`,
+        user: { login: 'other-app[bot]', type: 'Bot' },
+      } as ReviewComment);
+
+      // Act
+      await handleCommand(reviewCommentEvent('/reviewthor explain'), correlationId);
+
+      // Assert
+      expect(mockAIEngine.explainReasoning.mock.calls).toHaveLength(0);
+    });
+  });
+
+  describe('ignore', () => {
+    it('should suppress the finding and resolve its thread', async () => {
+      // Act
+      await handleCommand(reviewCommentEvent('/reviewthor ignore'), correlationId);
+
+      // Assert
+      expect(mockStateStore.suppress.mock.calls).toContainEqual(['test-owner', 'test-repo', 1, 'fp-1']);
+      expect(mockGitHubClient.resolveReviewThread.mock.calls).toContainEqual(['thread-1']);
+      expect(mockGitHubClient.replyToReviewComment.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        10,
+        expect.stringContaining('will no longer be reported')
+      ]);
+    });
+
+    it('should require a review thread', async () => {
+      // Act
+      await handleCommand(issueCommentEvent('/reviewthor ignore'), correlationId);
+
+      // Assert
+      expect(mockStateStore.suppress.mock.calls).toHaveLength(0);
+      expect(mockGitHubClient.createIssueComment.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        expect.stringContaining('Reply to a ReviewThor comment')
+      ]);
+    });
+  });
+
+  describe('error handling', () => {
+    it('should log and swallow errors', async () => {
+      // Arrange
+      mockGitHubClient.getCollaboratorPermission.mockRejectedValue(new Error('API down'));
+
+      // Act
+      await handleCommand(reviewCommentEvent('/reviewthor ignore'), correlationId);
+
+      // Assert
+      expect(jest.mocked(logger).error.mock.calls).toContainEqual(['Error processing command', expect.objectContaining({
+        correlationId,
+        command: 'ignore',
+        error: 'API down',
+      })]);
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import { GitHubEvent } from '../webhook';
+import { GitHubClient } from '../../github/client';
+import { ReviewStateStore } from '../../github/review-state';
+import { decodeFinding, Finding } from '../../github/comment-reconciler';
+import { AIReviewEngine } from '../../ai/engine';
+import { AnthropicClient } from '../../ai/anthropic-client';
+import { PromptManager } from '../../ai/prompt-manager';
+import { ContextBuilder } from '../../ai/context-builder';
+import { handlePullRequest } from './pull-request';
+import { logger } from '../../utils/logger';
+import { getConfig, Config } from '../../config/loader';
+
+export type CommandName = 'review' | 'preview' | 'explain' | 'ignore';
+
+export interface ParsedCommand {
+  name: string;
+  args: string;
+}
+
+// Fields of the issue or review comment payload the commands rely on
+interface CommandComment {
+  id: number;
+  body?: string;
+  user: { login: string; type: string };
+  in_reply_to_id?: number;
+}
+
+// Fields of the issue_comment and pull_request_review_comment webhook payloads the handler relies on
+interface CommandPayload {
+  comment?: CommandComment;
+  pull_request?: { number: number };
+  issue?: { number: number; pull_request?: unknown };
+  repository?: unknown;
+  installation?: unknown;
+}
+
+interface CommandContext {
+  event: GitHubEvent;
+  githubClient: GitHubClient;
+  config: Config;
+  pullNumber: number;
+  comment: CommandComment;
+  correlationId: string;
+  reply: (body: string) => Promise<void>;
+}
+
+const COMMAND_PATTERN = /^\/reviewthor[ \t]+(\S+)(?:[ \t]+(.*))?$/m;
+
+// Repository roles in ascending order of access
+const ROLE_RANK: Record<string, number> = {
+  none: 0,
+  read: 1,
+  triage: 2,
+  write: 3,
+  maintain: 4,
+  admin: 5,
+};
+
+// Minimum role for each command; explain only costs tokens, the others change review output
+const REQUIRED_ROLE: Record<CommandName, string> = {
+  review: 'write',
+  preview: 'write',
+  explain: 'triage',
+  ignore: 'write',
+};
+
+// Users below the lowest command role get no reply at all, not even usage help
+const MINIMUM_ROLE = 'triage';
+
+const USAGE = `Available commands:
+- \`/reviewthor review\` - run a full review of this pull request
+- \`/reviewthor preview\` - run a full review with the ReviewThor configuration from this pull request
+- \`/reviewthor explain\` - reply to a ReviewThor comment to get a detailed explanation
+- \`/reviewthor ignore\` - reply to a ReviewThor comment to stop reporting that finding`;
+
+/**
+ * Parses the first /reviewthor command in a comment body
+ * @param body - Comment body
+ * @returns Parsed command or null if the comment contains no command
+ */
+export function parseCommand(body: string): ParsedCommand | null {
+  const match = body.match(COMMAND_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    name: match[1].toLowerCase(),
+    args: (match[2] || '').trim(),
+  };
+}
+
+/**
+ * Checks whether a repository role grants at least the access of another role
+ * @param role - Role of the user (admin, maintain, write, triage, read or none)
+ * @param requiredRole - Lowest role that is allowed
+ * @returns True when the role is at least the required one
+ */
+export function hasRole(role: string, requiredRole: string): boolean {
+  return (ROLE_RANK[role] ?? 0) >= ROLE_RANK[requiredRole];
+}
+
+/**
+ * Handles /reviewthor slash commands posted as pull request or review comments
+ * @param event - GitHub webhook event
+ * @param correlationId - Request correlation ID for tracking
+ */
+export async function handleCommand(event: GitHubEvent, correlationId: string): Promise<void> {
+  const { repository, installationId } = event;
+  const payload = event.payload as CommandPayload;
+  const comment = payload.comment;
+
+  // Never react to bots, including ReviewThor's own comments
+  if (!comment || comment.user.type === 'Bot') {
+    return;
+  }
+
+  const command = parseCommand(comment.body || '');
+  if (!command) {
+    return;
+  }
+
+  const pullNumber: number | undefined = event.type === 'pull_request_review_comment.created'
+    ? payload.pull_request?.number
+    : payload.issue?.pull_request ? payload.issue.number : undefined;
+
+  if (!pullNumber) {
+    logger.debug('Ignoring command outside a pull request', { correlationId });
+    return;
+  }
+
+  logger.info('Processing command', {
+    correlationId,
+    command: command.name,
+    repository: `${repository.owner}/${repository.name}`,
+    pr: pullNumber,
+    user: comment.user.login,
+  });
+
+  try {
+    const config = await getConfig();
+    const githubClient = new GitHubClient({
+      appId: config.githubAppId,
+      privateKey: config.githubPrivateKey,
+    });
+
+    await githubClient.authenticate(installationId);
+
+    // Review comment replies must go to the top-level comment of the thread
+    const threadRootId: number = comment.in_reply_to_id ?? comment.id;
+    const reply = async (body: string): Promise<void> => {
+      if (event.type === 'pull_request_review_comment.created') {
+        await githubClient.replyToReviewComment(repository.owner, repository.name, pullNumber, threadRootId, body);
+      } else {
+        await githubClient.createIssueComment(repository.owner, repository.name, pullNumber, body);
+      }
+    };
+
+    const role = await githubClient.getCollaboratorPermission(
+      repository.owner,
+      repository.name,
+      comment.user.login
+    );
+
+    if (!isCommandName(command.name)) {
+      if (!hasRole(role, MINIMUM_ROLE)) {
+        logger.debug('Ignoring unknown command from user without access', {
+          correlationId,
+          command: command.name,
+          user: comment.user.login,
+        });
+        return;
+      }
+
+      await reply(`Unknown command \`${command.name}\`.\n\n${USAGE}`);
+      return;
+    }
+
+    const requiredRole = REQUIRED_ROLE[command.name];
+
+    if (!hasRole(role, requiredRole)) {
+      logger.warn('Command rejected due to insufficient permissions', {
+        correlationId,
+        command: command.name,
+        user: comment.user.login,
+        role,
+      });
+      await reply(`@${comment.user.login} \`/reviewthor ${command.name}\` requires ${requiredRole} access to this repository.`);
+      return;
+    }
+
+    const context: CommandContext = {
+      event,
+      githubClient,
+      config,
+      pullNumber,
+      comment,
+      correlationId,
+      reply,
+    };
+
+    switch (command.name) {
+      case 'review':
+        await runReview(context, false);
+        break;
+      case 'preview':
+        await runReview(context, true);
+        break;
+      case 'explain':
+        await runExplain(context);
+        break;
+      case 'ignore':
+        await runIgnore(context);
+        break;
+    }
+  } catch (error) {
+    logger.error('Error processing command', {
+      correlationId,
+      command: command.name,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    // Don't throw - we've logged the error and don't want to retry
+  }
+}
+
+/**
+ * Runs a full review of the pull request on request
+ * @param context - Command context
+ * @param previewConfig - Whether to review with the configuration from the pull request instead of its base commit
+ */
+async function runReview(context: CommandContext, previewConfig: boolean): Promise<void> {
+  const { event, githubClient, pullNumber, comment, correlationId } = context;
+  const payload = event.payload as CommandPayload;
+  const pullRequest = await githubClient.getPullRequest(
+    event.repository.owner,
+    event.repository.name,
+    pullNumber
+  );
+
+  const configNote = previewConfig ? ' with the configuration from this pull request' : '';
+  await context.reply(`🔍 Starting a full review${configNote} as requested by @${comment.user.login}.`);
+
+  // A requested review always covers the whole pull request, drafts included
+  await handlePullRequest(
+    {
+      type: 'pull_request.opened',
+      payload: {
+        action: 'opened',
+        pull_request: { ...pullRequest, draft: false },
+        repository: payload.repository,
+        installation: payload.installation,
+      },
+      repository: event.repository,
+      installationId: event.installationId,
+    },
+    correlationId,
+    { previewConfig }
+  );
+}
+
+/**
+ * Explains the finding of the ReviewThor comment the command replies to
+ * @param context - Command context
+ */
+async function runExplain(context: CommandContext): Promise<void> {
+  const finding = await findThreadFinding(context);
+  if (!finding) {
+    await context.reply('Reply to a ReviewThor comment with `/reviewthor explain` to get an explanation of that finding.');
+    return;
+  }
+
+  const { config } = context;
+  const anthropicClient = new AnthropicClient({
+    apiKey: config.anthropicApiKey,
+    model: config.anthropicModel,
+    maxRetries: config.maxRetries,
+    timeout: config.aiTimeoutMs,
+  });
+
+  const aiEngine = new AIReviewEngine(
+    anthropicClient,
+    new PromptManager(),
+    new ContextBuilder()
+  );
+
+  const explanation = await aiEngine.explainReasoning(finding.issue);
+  await context.reply(explanation);
+}
+
+/**
+ * Suppresses the finding of the ReviewThor comment the command replies to
+ * @param context - Command context
+ */
+async function runIgnore(context: CommandContext): Promise<void> {
+  const finding = await findThreadFinding(context);
+  if (!finding) {
+    await context.reply('Reply to a ReviewThor comment with `/reviewthor ignore` to stop reporting that finding.');
+    return;
+  }
+
+  const { event, githubClient, pullNumber, comment } = context;
+  const { owner, name } = event.repository;
+
+  const stateStore = new ReviewStateStore(githubClient);
+  await stateStore.suppress(owner, name, pullNumber, finding.fingerprint);
+
+  const rootId: number = comment.in_reply_to_id ?? comment.id;
+  const threads = await githubClient.listReviewThreads(owner, name, pullNumber);
+  const thread = threads.find(candidate => candidate.rootCommentId === rootId);
+
+  await context.reply(`🙈 This finding will no longer be reported on this pull request (ignored by @${comment.user.login}).`);
+
+  if (thread && !thread.isResolved) {
+    await githubClient.resolveReviewThread(thread.id);
+  }
+
+  logger.info('Finding suppressed', {
+    correlationId: context.correlationId,
+    pr: pullNumber,
+    fingerprint: finding.fingerprint,
+  });
+}
+
+/**
+ * Finds the ReviewThor finding at the root of the review thread the command was posted in
+ * @param context - Command context
+ * @returns Finding or null if the command was not posted in a ReviewThor thread
+ */
+async function findThreadFinding(context: CommandContext): Promise<Finding | null> {
+  const { event, githubClient, comment } = context;
+  if (event.type !== 'pull_request_review_comment.created' || !comment.in_reply_to_id) {
+    return null;
+  }
+
+  const root = await githubClient.getReviewComment(
+    event.repository.owner,
+    event.repository.name,
+    comment.in_reply_to_id
+  );
+
+  if (!root || root.user?.login !== await githubClient.getAppLogin()) {
+    return null;
+  }
+
+  return decodeFinding(root.body || '');
+}
+
+function isCommandName(name: string): name is CommandName {
+  return Object.hasOwn(REQUIRED_ROLE, name);
+}
@@ -1,38 +1,76 @@
 import { handlePullRequest } from './pull-request';
 import { GitHubEvent } from '../webhook';
-import { GitHubClient } from '../../github/client';
-import { AIReviewEngine } from '../../ai/engine';
-import { AnthropicClient } from '../../ai/anthropic-client';
-import { PromptManager } from '../../ai/prompt-manager';
+import { File, GitHubClient, PullRequestFiles } from '../../github/client';
+import { ReviewStateStore } from '../../github/review-state';
+import { CommentReconciler } from '../../github/comment-reconciler';
+import { placeComments } from '../../github/comment-placement';
+import { AIReviewEngine, Comment } from '../../ai/engine';
 import { ContextBuilder } from '../../ai/context-builder';
-import { InstructionProcessor } from '../../ai/instruction-processor';
+import { CustomInstructions, InstructionProcessor, PathOverride } from '../../ai/instruction-processor';
+import { TemplateLoader } from '../../ai/template-loader';
 import { logger } from '../../utils/logger';
 import { getConfig } from '../../config/loader';
+import { defaultConfig } from '../../config/default';
+import { RepositoryConfig } from '../../config/repository-config';
 
 // Mock all dependencies
 jest.mock('../../github/client');
+jest.mock('../../github/review-state');
+jest.mock('../../github/comment-reconciler');
+jest.mock('../../github/comment-placement');
 jest.mock('../../ai/engine');
 jest.mock('../../ai/anthropic-client');
 jest.mock('../../ai/prompt-manager');
 jest.mock('../../ai/context-builder');
+jest.mock('../../ai/import-resolver');
+jest.mock('../../ai/impact-analyzer');
+jest.mock('../../ai/tokenizer');
+jest.mock('../../ai/framework-detector');
 jest.mock('../../ai/instruction-processor');
+jest.mock('../../ai/template-loader');
 jest.mock('../../utils/logger');
 jest.mock('../../config/loader');
 
+const fileListing = (files: File[]): PullRequestFiles => ({
+  files,
+  paths: files.map(file => file.filename),
+  totalCount: files.length,
+  capReached: false,
+});
+
 describe('handlePullRequest - Uncovered Lines', () => {
   let mockGitHubClient: jest.Mocked<GitHubClient>;
   let mockAIEngine: jest.Mocked<AIReviewEngine>;
   let mockInstructionProcessor: jest.Mocked<InstructionProcessor>;
+  let mockTemplateLoader: jest.Mocked<TemplateLoader>;
+  let mockContextBuilder: jest.Mocked<ContextBuilder>;
+  let mockStateStore: jest.Mocked<ReviewStateStore>;
+  let mockReconciler: jest.Mocked<CommentReconciler>;
   const correlationId = 'test-correlation-id';
 
   beforeEach(() => {
     // Setup mocks
     mockGitHubClient = {
       authenticate: jest.fn().mockResolvedValue(undefined),
-      getFiles: jest.fn().mockResolvedValue([]),
+      getFiles: jest.fn().mockResolvedValue({ files: [], paths: [], totalCount: 0, capReached: false }),
       getFile: jest.fn().mockResolvedValue(null),
-      createReview: jest.fn().mockResolvedValue(undefined),
-    } as any;
+      createReview: jest.fn().mockResolvedValue([]),
+      createCheckRun: jest.fn().mockResolvedValue(555),
+      completeCheckRun: jest.fn().mockResolvedValue(undefined),
+      compareCommits: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<GitHubClient>;
+
+    mockStateStore = {
+      load: jest.fn().mockResolvedValue(null),
+      save: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<ReviewStateStore>;
+
+    mockReconciler = {
+      reconcile: jest.fn().mockImplementation((_o: string, _r: string, _n: number, _sha: string, comments: Comment[]) =>
+        Promise.resolve({ comments, fingerprints: [], duplicates: 0, suppressed: 0, resolved: 0 })
+      ),
+      listOpenFindings: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<CommentReconciler>;
 
     mockAIEngine = {
       analyzeCode: jest.fn().mockResolvedValue({
@@ -41,16 +79,48 @@ describe('handlePullRequest - Uncovered Lines', () => {
         stats: { total: 0, byCategory: {}, bySeverity: {} },
       }),
       generateComments: jest.fn().mockResolvedValue([]),
-    } as any;
+      generateAnnotations: jest.fn().mockReturnValue([]),
+      determineConclusion: jest.fn().mockReturnValue('success'),
+      setMinimumSeverity: jest.fn(),
+    } as unknown as jest.Mocked<AIReviewEngine>;
 
     mockInstructionProcessor = {
       fetchCustomInstructions: jest.fn().mockResolvedValue(null),
-    } as any;
+      validateInstructions: jest.fn().mockImplementation((instructions: CustomInstructions) => ({ isValid: true, errors: [], instructions })),
+      fetchRepositoryConfig: jest.fn().mockResolvedValue(null),
+      fetchDirectoryOverrides: jest.fn().mockResolvedValue({ overrides: [], errors: [] }),
+      mergeWithDefaults: jest.fn().mockImplementation((
+        custom: CustomInstructions | null,
+        repositoryConfig?: RepositoryConfig,
+        directoryOverrides?: PathOverride[]
+      ) => ({
+        ...defaultConfig,
+        ...repositoryConfig,
+        ignorePatterns: custom?.ignorePatterns ?? [],
+        overrides: directoryOverrides,
+        locked: repositoryConfig?.locked ?? [],
+      })),
+    } as unknown as jest.Mocked<InstructionProcessor>;
+
+    mockTemplateLoader = {
+      loadTemplates: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<TemplateLoader>;
+
+    mockContextBuilder = {
+      includeRelatedFiles: jest.fn().mockResolvedValue({ imports: [], exports: [], tests: [] }),
+      resolveImportPaths: jest.fn().mockReturnValue([]),
+      analyzeExportChanges: jest.fn().mockReturnValue([]),
+    } as unknown as jest.Mocked<ContextBuilder>;
 
     // Mock constructors
     (GitHubClient as jest.MockedClass<typeof GitHubClient>).mockImplementation(() => mockGitHubClient);
     (AIReviewEngine as jest.MockedClass<typeof AIReviewEngine>).mockImplementation(() => mockAIEngine);
     (InstructionProcessor as jest.MockedClass<typeof InstructionProcessor>).mockImplementation(() => mockInstructionProcessor);
+    (TemplateLoader as jest.MockedClass<typeof TemplateLoader>).mockImplementation(() => mockTemplateLoader);
+    (ContextBuilder as jest.MockedClass<typeof ContextBuilder>).mockImplementation(() => mockContextBuilder);
+    (ReviewStateStore as jest.MockedClass<typeof ReviewStateStore>).mockImplementation(() => mockStateStore);
+    (CommentReconciler as jest.MockedClass<typeof CommentReconciler>).mockImplementation(() => mockReconciler);
+    (placeComments as jest.Mock).mockImplementation((comments: Comment[]) => ({ placed: comments, unplaceable: [] }));
 
     // Mock config
     (getConfig as jest.Mock).mockResolvedValue({
@@ -74,13 +144,13 @@ describe('handlePullRequest - Uncovered Lines', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
       };
 
-      mockGitHubClient.getFiles.mockResolvedValue([
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
         {
           filename: 'src/index.js',
           status: 'modified',
@@ -89,7 +159,7 @@ describe('handlePullRequest - Uncovered Lines', () => {
           deletions: 25,
           // patch is undefined
         },
-      ]);
+      ]));
 
       mockAIEngine.generateComments.mockResolvedValue([]);
 
@@ -97,7 +167,7 @@ describe('handlePullRequest - Uncovered Lines', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(mockAIEngine.analyzeCode).toHaveBeenCalledWith(
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([
         expect.objectContaining({
           files: [
             expect.objectContaining({
@@ -107,7 +177,7 @@ describe('handlePullRequest - Uncovered Lines', () => {
             }),
           ],
         })
-      );
+      ]);
     });
   });
 
@@ -118,7 +188,7 @@ describe('handlePullRequest - Uncovered Lines', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
@@ -131,14 +201,14 @@ describe('handlePullRequest - Uncovered Lines', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(logger.error).toHaveBeenCalledWith(
+      expect(jest.mocked(logger).error.mock.calls).toContainEqual([
         'Error processing pull request',
         expect.objectContaining({
           correlationId,
           error: 'Unknown error',
           stack: undefined,
         })
-      );
+      ]);
     });
 
     it('should handle object errors', async () => {
@@ -147,7 +217,7 @@ describe('handlePullRequest - Uncovered Lines', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
@@ -160,14 +230,14 @@ describe('handlePullRequest - Uncovered Lines', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(logger.error).toHaveBeenCalledWith(
+      expect(jest.mocked(logger).error.mock.calls).toContainEqual([
         'Error processing pull request',
         expect.objectContaining({
           correlationId,
           error: 'Unknown error',
           stack: undefined,
         })
-      );
+      ]);
     });
 
     it('should handle null errors', async () => {
@@ -176,7 +246,7 @@ describe('handlePullRequest - Uncovered Lines', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
@@ -189,14 +259,14 @@ describe('handlePullRequest - Uncovered Lines', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(logger.error).toHaveBeenCalledWith(
+      expect(jest.mocked(logger).error.mock.calls).toContainEqual([
         'Error processing pull request',
         expect.objectContaining({
           correlationId,
           error: 'Unknown error',
           stack: undefined,
         })
-      );
+      ]);
     });
 
     it('should handle Error instances normally', async () => {
@@ -205,7 +275,7 @@ describe('handlePullRequest - Uncovered Lines', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
@@ -218,14 +288,14 @@ describe('handlePullRequest - Uncovered Lines', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(logger.error).toHaveBeenCalledWith(
+      expect(jest.mocked(logger).error.mock.calls).toContainEqual([
         'Error processing pull request',
         expect.objectContaining({
           correlationId,
           error: 'Test error message',
           stack: testError.stack,
         })
-      );
+      ]);
     });
   });
 });
\ No newline at end of file
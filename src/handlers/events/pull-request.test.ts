@@ -1,38 +1,81 @@
 import { handlePullRequest } from './pull-request';
 import { GitHubEvent } from '../webhook';
-import { GitHubClient } from '../../github/client';
-import { AIReviewEngine } from '../../ai/engine';
+import { File, GitHubClient, PullRequestFiles } from '../../github/client';
+import { ReviewStateStore } from '../../github/review-state';
+import { CommentReconciler } from '../../github/comment-reconciler';
+import { placeComments } from '../../github/comment-placement';
+import { AIReviewEngine, Comment, Issue } from '../../ai/engine';
 import { AnthropicClient } from '../../ai/anthropic-client';
 import { PromptManager } from '../../ai/prompt-manager';
 import { ContextBuilder } from '../../ai/context-builder';
-import { InstructionProcessor } from '../../ai/instruction-processor';
+import { ImpactAnalyzer } from '../../ai/impact-analyzer';
+import { CustomInstructions, diffConfigs, InstructionProcessor, PathOverride } from '../../ai/instruction-processor';
+import { TemplateLoader } from '../../ai/template-loader';
+import { AnthropicTokenizer, getPromptTokenBudget } from '../../ai/tokenizer';
+import { parseDependencies } from '../../ai/framework-detector';
 import { logger } from '../../utils/logger';
 import { getConfig } from '../../config/loader';
+import { defaultConfig } from '../../config/default';
+import { RepositoryConfig } from '../../config/repository-config';
 
 // Mock all dependencies
 jest.mock('../../github/client');
+jest.mock('../../github/review-state');
+jest.mock('../../github/comment-reconciler');
+jest.mock('../../github/comment-placement');
 jest.mock('../../ai/engine');
 jest.mock('../../ai/anthropic-client');
 jest.mock('../../ai/prompt-manager');
 jest.mock('../../ai/context-builder');
+jest.mock('../../ai/import-resolver');
+jest.mock('../../ai/impact-analyzer');
+jest.mock('../../ai/tokenizer');
+jest.mock('../../ai/framework-detector');
 jest.mock('../../ai/instruction-processor');
+jest.mock('../../ai/template-loader');
 jest.mock('../../utils/logger');
 jest.mock('../../config/loader');
 
+const fileListing = (files: File[]): PullRequestFiles => ({
+  files,
+  paths: files.map(file => file.filename),
+  totalCount: files.length,
+  capReached: false,
+});
+
 describe('handlePullRequest', () => {
   let mockGitHubClient: jest.Mocked<GitHubClient>;
   let mockAIEngine: jest.Mocked<AIReviewEngine>;
   let mockInstructionProcessor: jest.Mocked<InstructionProcessor>;
+  let mockTemplateLoader: jest.Mocked<TemplateLoader>;
+  let mockContextBuilder: jest.Mocked<ContextBuilder>;
+  let mockStateStore: jest.Mocked<ReviewStateStore>;
+  let mockReconciler: jest.Mocked<CommentReconciler>;
   const correlationId = 'test-correlation-id';
 
   beforeEach(() => {
     // Setup mocks
     mockGitHubClient = {
       authenticate: jest.fn().mockResolvedValue(undefined),
-      getFiles: jest.fn().mockResolvedValue([]),
+      getFiles: jest.fn().mockResolvedValue({ files: [], paths: [], totalCount: 0, capReached: false }),
       getFile: jest.fn().mockResolvedValue(null),
-      createReview: jest.fn().mockResolvedValue(undefined),
-    } as any;
+      createReview: jest.fn().mockResolvedValue([]),
+      createCheckRun: jest.fn().mockResolvedValue(555),
+      completeCheckRun: jest.fn().mockResolvedValue(undefined),
+      compareCommits: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<GitHubClient>;
+
+    mockStateStore = {
+      load: jest.fn().mockResolvedValue(null),
+      save: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<ReviewStateStore>;
+
+    mockReconciler = {
+      reconcile: jest.fn().mockImplementation((_o: string, _r: string, _n: number, _sha: string, comments: Comment[]) =>
+        Promise.resolve({ comments, fingerprints: [], duplicates: 0, suppressed: 0, resolved: 0 })
+      ),
+      listOpenFindings: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<CommentReconciler>;
 
     mockAIEngine = {
       analyzeCode: jest.fn().mockResolvedValue({
@@ -41,16 +84,48 @@ describe('handlePullRequest', () => {
         stats: { total: 0, byCategory: {}, bySeverity: {} },
       }),
       generateComments: jest.fn().mockResolvedValue([]),
-    } as any;
+      generateAnnotations: jest.fn().mockReturnValue([]),
+      determineConclusion: jest.fn().mockReturnValue('success'),
+      setMinimumSeverity: jest.fn(),
+    } as unknown as jest.Mocked<AIReviewEngine>;
 
     mockInstructionProcessor = {
       fetchCustomInstructions: jest.fn().mockResolvedValue(null),
-    } as any;
+      validateInstructions: jest.fn().mockImplementation((instructions: CustomInstructions) => ({ isValid: true, errors: [], instructions })),
+      fetchRepositoryConfig: jest.fn().mockResolvedValue(null),
+      fetchDirectoryOverrides: jest.fn().mockResolvedValue({ overrides: [], errors: [] }),
+      mergeWithDefaults: jest.fn().mockImplementation((
+        custom: CustomInstructions | null,
+        repositoryConfig?: RepositoryConfig,
+        directoryOverrides?: PathOverride[]
+      ) => ({
+        ...defaultConfig,
+        ...repositoryConfig,
+        ignorePatterns: custom?.ignorePatterns ?? [],
+        overrides: directoryOverrides,
+        locked: repositoryConfig?.locked ?? [],
+      })),
+    } as unknown as jest.Mocked<InstructionProcessor>;
+
+    mockTemplateLoader = {
+      loadTemplates: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<TemplateLoader>;
+
+    mockContextBuilder = {
+      includeRelatedFiles: jest.fn().mockResolvedValue({ imports: [], exports: [], tests: [] }),
+      resolveImportPaths: jest.fn().mockReturnValue([]),
+      analyzeExportChanges: jest.fn().mockReturnValue([]),
+    } as unknown as jest.Mocked<ContextBuilder>;
 
     // Mock constructors
     (GitHubClient as jest.MockedClass<typeof GitHubClient>).mockImplementation(() => mockGitHubClient);
     (AIReviewEngine as jest.MockedClass<typeof AIReviewEngine>).mockImplementation(() => mockAIEngine);
     (InstructionProcessor as jest.MockedClass<typeof InstructionProcessor>).mockImplementation(() => mockInstructionProcessor);
+    (TemplateLoader as jest.MockedClass<typeof TemplateLoader>).mockImplementation(() => mockTemplateLoader);
+    (ContextBuilder as jest.MockedClass<typeof ContextBuilder>).mockImplementation(() => mockContextBuilder);
+    (ReviewStateStore as jest.MockedClass<typeof ReviewStateStore>).mockImplementation(() => mockStateStore);
+    (CommentReconciler as jest.MockedClass<typeof CommentReconciler>).mockImplementation(() => mockReconciler);
+    (placeComments as jest.Mock).mockImplementation((comments: Comment[]) => ({ placed: comments, unplaceable: [] }));
 
     // Mock config
     (getConfig as jest.Mock).mockResolvedValue({
@@ -77,6 +152,7 @@ describe('handlePullRequest', () => {
           pull_request: {
             number: 1,
             draft: false,
+            base: { sha: 'base123' }, head: { sha: 'abc123' },
             body: 'Test PR description',
           },
         },
@@ -103,7 +179,7 @@ describe('handlePullRequest', () => {
         },
       ];
 
-      mockGitHubClient.getFiles.mockResolvedValue(mockFiles);
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing(mockFiles));
       mockAIEngine.analyzeCode.mockResolvedValue({
         issues: [
           {
@@ -133,16 +209,17 @@ describe('handlePullRequest', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(mockGitHubClient.authenticate).toHaveBeenCalledWith(789);
-      expect(mockGitHubClient.getFiles).toHaveBeenCalledWith('test-owner', 'test-repo', 1);
-      expect(mockAIEngine.analyzeCode).toHaveBeenCalled();
-      expect(mockAIEngine.generateComments).toHaveBeenCalled();
-      expect(mockGitHubClient.createReview).toHaveBeenCalledWith(
+      expect(mockGitHubClient.authenticate.mock.calls).toContainEqual([789]);
+      expect(mockGitHubClient.getFiles.mock.calls).toContainEqual(['test-owner', 'test-repo', 1]);
+      expect(mockAIEngine.analyzeCode.mock.calls).not.toHaveLength(0);
+      expect(mockAIEngine.generateComments.mock.calls).not.toHaveLength(0);
+      expect(mockGitHubClient.createReview.mock.calls).toContainEqual([
         'test-owner',
         'test-repo',
         1,
-        [{ path: 'src/index.js', line: 10, body: '⚠️ Consider using const' }]
-      );
+        [{ path: 'src/index.js', line: 10, body: '⚠️ Consider using const' }],
+        undefined
+      ]);
     });
 
     it('should skip draft PRs', async () => {
@@ -165,8 +242,204 @@ describe('handlePullRequest', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(logger.info).toHaveBeenCalledWith('Skipping draft PR', expect.any(Object));
-      expect(mockGitHubClient.authenticate).not.toHaveBeenCalled();
+      expect(jest.mocked(logger).info.mock.calls).toContainEqual(['Skipping draft PR', expect.any(Object)]);
+      expect(mockGitHubClient.authenticate.mock.calls).toHaveLength(0);
+    });
+
+    it('should review full file contents together with imported modules and tests', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/app.ts', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: '+run();' },
+        { filename: 'src/old.ts', status: 'removed', changes: 3, additions: 0, deletions: 3, patch: '-gone();' },
+      ]));
+      mockContextBuilder.includeRelatedFiles.mockResolvedValueOnce({
+        imports: ['./run', 'lodash'],
+        exports: [],
+        tests: ['src/app.test.ts', 'src/app.spec.ts'],
+      });
+      mockContextBuilder.resolveImportPaths.mockImplementation((_from, specifier) =>
+        specifier === './run' ? ['src/run.ts', 'src/run.js'] : []
+      );
+      const repoFiles: Record<string, string> = {
+        'src/app.ts': 'import { run } from "./run";\nrun();',
+        'src/run.js': 'export const run = () => {};',
+        'src/app.test.ts': 'test("app", () => {});',
+      };
+      mockGitHubClient.getFile.mockImplementation((_owner, _repo, path) => Promise.resolve(repoFiles[path] ?? null));
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockGitHubClient.getFile.mock.calls).not.toContainEqual(['test-owner', 'test-repo', 'src/old.ts', 'abc123']);
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([expect.objectContaining({
+        files: [
+          { path: 'src/app.ts', content: repoFiles['src/app.ts'], diff: '+run();' },
+          { path: 'src/old.ts', content: '', diff: '-gone();' },
+        ],
+        relatedFiles: [
+          { path: 'src/run.js', content: repoFiles['src/run.js'] },
+          { path: 'src/app.test.ts', content: repoFiles['src/app.test.ts'] },
+        ],
+      })]);
+    });
+
+    it('should limit file contents by maxFileSize and diffs by maxDiffSize, both in UTF-8 bytes', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/small.ts', status: 'modified', changes: 500, additions: 500, deletions: 0, patch: '+a' },
+        { filename: 'src/wide.ts', status: 'modified', changes: 1, additions: 1, deletions: 0, patch: '+é' },
+        { filename: 'src/long.ts', status: 'modified', changes: 1, additions: 1, deletions: 0, patch: '+ééééé' },
+      ]));
+      mockInstructionProcessor.fetchRepositoryConfig.mockResolvedValue({ config: { maxFileSize: 10, maxDiffSize: 10 }, errors: [] });
+      mockContextBuilder.includeRelatedFiles.mockResolvedValueOnce({ imports: ['./util'], exports: [], tests: [] });
+      mockContextBuilder.resolveImportPaths.mockReturnValue(['src/util.ts']);
+      const repoFiles: Record<string, string> = {
+        'src/small.ts': 'const a;',
+        'src/wide.ts': 'const é;',
+        'src/util.ts': 'é'.repeat(6),
+      };
+      mockGitHubClient.getFile.mockImplementation((_owner, _repo, path) => Promise.resolve(repoFiles[path] ?? null));
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockAIEngine.analyzeCode.mock.calls[0][0].files).toEqual([
+        { path: 'src/small.ts', content: 'const a;', diff: '+a' },
+        { path: 'src/wide.ts', content: 'const é;', diff: '+é' },
+      ]);
+      expect(mockAIEngine.analyzeCode.mock.calls[0][0].relatedFiles).toEqual([]);
+      expect(mockStateStore.save.mock.calls[0][4]).toContain('| `src/long.ts` | Diff too large |');
+    });
+
+    it('should include callers of changed exports outside the pull request', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/math.ts', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: '+sum' },
+      ]));
+      const exportChanges = [{
+        path: 'src/math.ts',
+        name: 'sum',
+        kind: 'function' as const,
+        change: 'signature' as const,
+        before: 'function sum(a: number): number',
+        after: 'function sum(a: string): number',
+        usedBy: [],
+      }];
+      const callSites = [{ path: 'src/cart.ts', exportPath: 'src/math.ts', symbol: 'sum', line: 3, snippet: '3: sum(1)' }];
+      mockContextBuilder.analyzeExportChanges.mockReturnValue(exportChanges);
+      const findCallSites = jest.fn().mockResolvedValue(callSites);
+      (ImpactAnalyzer as jest.MockedClass<typeof ImpactAnalyzer>).mockImplementation(() => ({ findCallSites } as unknown as ImpactAnalyzer));
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(findCallSites).toHaveBeenCalledWith('test-owner', 'test-repo', 'abc123', exportChanges, ['src/math.ts']);
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([expect.objectContaining({ exportChanges, callSites })]);
+    });
+
+    it('should budget tokens for the configured model and count them with the API when enabled', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+
+      (getConfig as jest.Mock).mockResolvedValue({
+        githubAppId: 123456,
+        githubPrivateKey: 'test-key',
+        anthropicApiKey: 'test-api-key',
+        anthropicModel: 'claude-2.0',
+        maxTokens: 2048,
+        exactTokenCounting: true,
+      });
+      (getPromptTokenBudget as jest.Mock).mockReturnValue(87952);
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/app.ts', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: '+run();' },
+      ]));
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(getPromptTokenBudget).toHaveBeenCalledWith('claude-2.0', 2048);
+      expect(AnthropicTokenizer).toHaveBeenCalledWith(expect.any(AnthropicClient));
+      expect((ContextBuilder as jest.MockedClass<typeof ContextBuilder>).mock.calls[0].slice(1)).toEqual([
+        (AnthropicTokenizer as jest.Mock).mock.instances[0],
+        87952,
+      ]);
+      expect(AIReviewEngine).toHaveBeenCalledWith(
+        expect.any(AnthropicClient),
+        expect.any(PromptManager),
+        mockContextBuilder,
+        2048
+      );
+    });
+
+    it('should pass the repository dependencies for framework detection', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+
+      const packageJson = JSON.stringify({ dependencies: { react: '^18.0.0' } });
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/App.tsx', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: '+<App />' },
+      ]));
+      mockGitHubClient.getFile.mockImplementation((_owner, _repo, path) =>
+        Promise.resolve(path === 'package.json' ? packageJson : null)
+      );
+      (parseDependencies as jest.Mock).mockReturnValue(['react']);
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(parseDependencies).toHaveBeenCalledWith(packageJson);
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([expect.objectContaining({ dependencies: ['react'] })]);
     });
 
     it('should skip large files', async () => {
@@ -175,7 +448,7 @@ describe('handlePullRequest', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
@@ -185,10 +458,10 @@ describe('handlePullRequest', () => {
         {
           filename: 'src/huge.js',
           status: 'modified',
-          changes: 2000000, // 2MB - too large
-          additions: 1000000,
-          deletions: 1000000,
-          patch: 'huge diff',
+          changes: 200000,
+          additions: 200000,
+          deletions: 0,
+          patch: '+x;\n'.repeat(200000), // 800KB - too large
         },
         {
           filename: 'src/small.js',
@@ -200,26 +473,26 @@ describe('handlePullRequest', () => {
         },
       ];
 
-      mockGitHubClient.getFiles.mockResolvedValue(mockFiles);
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing(mockFiles));
 
       // Act
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(mockAIEngine.analyzeCode).toHaveBeenCalledWith(
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([
         expect.objectContaining({
           files: expect.arrayContaining([
             expect.objectContaining({ path: 'src/small.js' })
           ]),
         })
-      );
-      expect(mockAIEngine.analyzeCode).toHaveBeenCalledWith(
+      ]);
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([
         expect.objectContaining({
           files: expect.not.arrayContaining([
             expect.objectContaining({ path: 'src/huge.js' })
           ]),
         })
-      );
+      ]);
     });
 
     it('should respect ignore patterns', async () => {
@@ -228,7 +501,7 @@ describe('handlePullRequest', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
@@ -261,7 +534,7 @@ describe('handlePullRequest', () => {
         },
       ];
 
-      mockGitHubClient.getFiles.mockResolvedValue(mockFiles);
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing(mockFiles));
 
       // Mock no AI issues
       mockAIEngine.analyzeCode.mockResolvedValue({
@@ -274,13 +547,13 @@ describe('handlePullRequest', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert - check that only src/app.js was analyzed
-      expect(mockAIEngine.analyzeCode).toHaveBeenCalledWith(
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([
         expect.objectContaining({
           files: expect.arrayContaining([
             expect.objectContaining({ path: 'src/app.js' })
           ]),
         })
-      );
+      ]);
       // Ensure ignored files are not included
       const callArgs = mockAIEngine.analyzeCode.mock.calls[0][0];
       expect(callArgs.files).toHaveLength(1);
@@ -293,13 +566,13 @@ describe('handlePullRequest', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
       };
 
-      mockGitHubClient.getFiles.mockResolvedValue([
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
         { 
           filename: 'src/index.js', 
           status: 'modified',
@@ -316,7 +589,7 @@ describe('handlePullRequest', () => {
           deletions: 25,
           patch: 'diff' 
         },
-      ]);
+      ]));
 
       mockInstructionProcessor.fetchCustomInstructions.mockResolvedValue({
         focusAreas: ['Performance'],
@@ -334,18 +607,106 @@ describe('handlePullRequest', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(mockGitHubClient.createReview).toHaveBeenCalledWith(
+      expect(mockGitHubClient.createReview.mock.calls).toContainEqual([
         'test-owner',
         'test-repo',
         1,
-        [{ path: 'src/index.js', line: 1, body: 'Comment 1' }] // test file should be filtered out
-      );
+        [{ path: 'src/index.js', line: 1, body: 'Comment 1' }], // test file should be filtered out
+        undefined
+      ]);
       
       // Verify custom instructions were fetched
-      expect(mockInstructionProcessor.fetchCustomInstructions).toHaveBeenCalledWith(
+      expect(mockInstructionProcessor.fetchCustomInstructions.mock.calls).toContainEqual([
         'test-owner',
-        'test-repo'
-      );
+        'test-repo',
+        'base123'
+      ]);
+    });
+
+    it('should apply settings from the repository configuration file', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/index.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+        { filename: 'legacy/old.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ]));
+      mockInstructionProcessor.fetchRepositoryConfig.mockResolvedValue({
+        config: { maxCommentsPerPR: 1, minimumSeverity: 'warning', ignoredPaths: ['legacy/**'] },
+        errors: [{ path: '.reviewthor.yml', line: 4, message: 'maxFileSize must be at least 1.' }],
+      });
+      mockAIEngine.generateComments.mockResolvedValue([
+        { path: 'src/index.js', line: 1, body: 'Comment 1' },
+        { path: 'src/index.js', line: 2, body: 'Comment 2' },
+      ]);
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockInstructionProcessor.mergeWithDefaults.mock.calls).toContainEqual([null, expect.objectContaining({
+        maxCommentsPerPR: 1,
+      }), []]);
+      // Each batch is filtered by its files' effective configuration, so path overrides can loosen the minimum
+      expect(mockAIEngine.setMinimumSeverity.mock.calls).toHaveLength(0);
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([expect.objectContaining({
+        files: [expect.objectContaining({ path: 'src/index.js' })],
+        settings: expect.objectContaining({ maxCommentsPerPR: 1 }),
+      })]);
+      expect(mockGitHubClient.createReview.mock.calls[0][3]).toEqual([
+        { path: 'src/index.js', line: 1, body: 'Comment 1' },
+      ]);
+      const summary = mockStateStore.save.mock.calls[0][4] as string;
+      expect(summary).toContain('### Findings not posted inline (1)');
+      expect(summary).toContain('`.reviewthor.yml:4` maxFileSize must be at least 1.');
+    });
+
+    it('should apply the configuration files of the changed directories', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'packages/legacy/old.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ]));
+      const override = { files: ['packages/legacy/**'], minimumSeverity: 'error' as const };
+      mockInstructionProcessor.fetchDirectoryOverrides.mockResolvedValue({
+        overrides: [override],
+        errors: [{ path: 'packages/legacy/.reviewthor.yml', line: 2, message: 'Unknown setting "maxFileSize".' }],
+      });
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockInstructionProcessor.fetchDirectoryOverrides.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        ['packages/legacy/old.js'],
+        undefined,
+        'base123'
+      ]);
+      expect(mockInstructionProcessor.mergeWithDefaults.mock.calls).toContainEqual([null, undefined, [override]]);
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([expect.objectContaining({
+        settings: expect.objectContaining({ overrides: [override] }),
+      })]);
+      const summary = mockStateStore.save.mock.calls[0][4] as string;
+      expect(summary).toContain('`packages/legacy/.reviewthor.yml:2` Unknown setting "maxFileSize".');
     });
 
     it('should handle no files to review', async () => {
@@ -354,20 +715,20 @@ describe('handlePullRequest', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
       };
 
-      mockGitHubClient.getFiles.mockResolvedValue([]);
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([]));
 
       // Act
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(logger.info).toHaveBeenCalledWith('No files to review', { correlationId });
-      expect(mockAIEngine.analyzeCode).not.toHaveBeenCalled();
+      expect(jest.mocked(logger).info.mock.calls).toContainEqual(['No files to review', { correlationId }]);
+      expect(mockAIEngine.analyzeCode.mock.calls).toHaveLength(0);
     });
 
     it('should handle errors gracefully', async () => {
@@ -376,7 +737,7 @@ describe('handlePullRequest', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
@@ -388,13 +749,38 @@ describe('handlePullRequest', () => {
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(logger.error).toHaveBeenCalledWith(
+      expect(jest.mocked(logger).error.mock.calls).toContainEqual([
         'Error processing pull request',
         expect.objectContaining({
           correlationId,
           error: 'Auth failed',
         })
-      );
+      ]);
+    });
+
+    it('should keep the completed check when the summary cannot be posted', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+      mockStateStore.save.mockRejectedValue(new Error('Body is too long'));
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockGitHubClient.completeCheckRun.mock.calls).toHaveLength(1);
+      expect(mockGitHubClient.completeCheckRun.mock.calls[0][4].title).not.toBe('Review could not be completed');
+      expect(jest.mocked(logger).warn.mock.calls).toContainEqual([
+        'Failed to post review summary',
+        { correlationId, error: 'Body is too long' },
+      ]);
     });
 
     it('should limit number of files reviewed', async () => {
@@ -403,14 +789,14 @@ describe('handlePullRequest', () => {
         type: 'pull_request.opened',
         payload: {
           action: 'opened',
-          pull_request: { number: 1, draft: false },
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
         },
         repository: { name: 'test-repo', owner: 'test-owner' },
         installationId: 789,
       };
 
-      // Create 60 files (more than the limit of 50)
-      const mockFiles = Array.from({ length: 60 }, (_, i) => ({
+      // Create 250 files (more than the limit of 200)
+      const mockFiles = Array.from({ length: 250 }, (_, i) => ({
         filename: `src/file${i}.js`,
         status: 'modified' as const,
         changes: 50,
@@ -419,28 +805,847 @@ describe('handlePullRequest', () => {
         patch: `diff ${i}`,
       }));
 
-      mockGitHubClient.getFiles.mockResolvedValue(mockFiles);
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing(mockFiles));
 
       // Act
       await handlePullRequest(event, correlationId);
 
       // Assert
-      expect(logger.warn).toHaveBeenCalledWith(
+      expect(jest.mocked(logger).warn.mock.calls).toContainEqual([
         'File limit exceeded, reviewing subset',
         expect.objectContaining({
-          totalFiles: 60,
-          reviewingFiles: 50,
+          totalFiles: 250,
+          reviewingFiles: 200,
         })
-      );
-      expect(mockAIEngine.analyzeCode).toHaveBeenCalledWith(
+      ]);
+      expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([
         expect.objectContaining({
           files: expect.arrayContaining([
             expect.any(Object),
           ]),
         })
+      ]);
+      const analyzedFiles = mockAIEngine.analyzeCode.mock.calls[0][0].files;
+      expect(analyzedFiles).toHaveLength(200);
+    });
+
+    it('should report files beyond the GitHub listing cap as not reviewed', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' }, changed_files: 3200 },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+
+      const mockFiles = Array.from({ length: 10 }, (_, i) => ({
+        filename: `src/file${i}.js`,
+        status: 'modified' as const,
+        changes: 50,
+        additions: 25,
+        deletions: 25,
+        patch: `diff ${i}`,
+      }));
+
+      mockGitHubClient.getFiles.mockResolvedValue({
+        files: mockFiles,
+        paths: mockFiles.map(file => file.filename),
+        totalCount: 3000,
+        capReached: true,
+      });
+      mockAIEngine.generateComments.mockResolvedValue([
+        { path: 'src/file0.js', line: 1, body: 'Comment' },
+      ]);
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(jest.mocked(logger).warn.mock.calls).toContainEqual([
+        'Pull request exceeds GitHub file listing cap',
+        expect.objectContaining({ filesBeyondCap: 200 })
+      ]);
+      expect(mockGitHubClient.createReview.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        [{ path: 'src/file0.js', line: 1, body: 'Comment' }],
+        expect.stringContaining('200 changed files were not reviewed')
+      ]);
+    });
+
+    it('should report skipped files and their reasons on the check run when no review is posted', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+
+      const mockFiles = [
+        { filename: 'src/index.js', status: 'modified' as const, changes: 10, additions: 5, deletions: 5, patch: 'diff' },
+        { filename: 'dist/bundle.js', status: 'modified' as const, changes: 10, additions: 5, deletions: 5, patch: 'diff' },
+      ];
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing(mockFiles));
+      mockInstructionProcessor.fetchRepositoryConfig.mockResolvedValue({ config: { ignoredPaths: ['dist/**'] }, errors: [] });
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockGitHubClient.createReview.mock.calls).toHaveLength(0);
+      expect(mockGitHubClient.completeCheckRun.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        expect.anything(),
+        'success',
+        expect.objectContaining({
+          summary: expect.stringContaining('1 changed file was not reviewed: 1 matching an ignored path.'),
+        })
+      ]);
+    });
+  });
+
+  describe('check run', () => {
+    const event: GitHubEvent = {
+      type: 'pull_request.opened',
+      payload: {
+        action: 'opened',
+        pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+      },
+      repository: { name: 'test-repo', owner: 'test-owner' },
+      installationId: 789,
+    };
+
+    const mockFile = {
+      filename: 'src/index.js',
+      status: 'modified',
+      changes: 10,
+      additions: 5,
+      deletions: 5,
+      patch: 'diff',
+    };
+
+    it('should create a check run on the head commit and complete it with the analysis', async () => {
+      // Arrange
+      const annotations = [
+        {
+          path: 'src/index.js',
+          start_line: 2,
+          end_line: 2,
+          annotation_level: 'failure' as const,
+          message: 'Null dereference',
+        },
+      ];
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([mockFile]));
+      mockAIEngine.analyzeCode.mockResolvedValue({
+        issues: [
+          { file: 'src/index.js', line: 2, severity: 'error', message: 'Null dereference', category: 'bug' },
+        ],
+        summary: 'One bug found',
+        stats: { total: 1, byCategory: { bug: 1 }, bySeverity: { error: 1 } },
+      });
+      mockAIEngine.generateAnnotations.mockReturnValue(annotations);
+      mockAIEngine.determineConclusion.mockReturnValue('failure');
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockGitHubClient.createCheckRun.mock.calls).toContainEqual(['test-owner', 'test-repo', 'abc123']);
+      expect(mockGitHubClient.completeCheckRun.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        555,
+        'failure',
+        {
+          title: '1 issue found',
+          summary: 'One bug found\n\n**Findings by severity:** error: 1',
+          annotations,
+        }
+      ]);
+    });
+
+    it('should complete the check run as success when there are no files to review', async () => {
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockGitHubClient.completeCheckRun.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        555,
+        'success',
+        expect.objectContaining({ title: 'No files to review' })
+      ]);
+    });
+
+    it('should fail the check run when the review errors', async () => {
+      // Arrange
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([mockFile]));
+      mockAIEngine.analyzeCode.mockRejectedValue(new Error('AI unavailable'));
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockGitHubClient.completeCheckRun.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        555,
+        'failure',
+        expect.objectContaining({ title: 'Review could not be completed' })
+      ]);
+    });
+
+    it('should log when the failed check run cannot be completed', async () => {
+      // Arrange
+      mockGitHubClient.getFiles.mockRejectedValue(new Error('GitHub down'));
+      mockGitHubClient.completeCheckRun.mockRejectedValue(new Error('Still down'));
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(jest.mocked(logger).warn.mock.calls).toContainEqual([
+        'Failed to complete check run',
+        expect.objectContaining({ checkRunId: 555, error: 'Still down' })
+      ]);
+    });
+  });
+
+  describe('incremental review', () => {
+    const prFiles = [
+      { filename: 'src/a.js', status: 'modified', changes: 40, additions: 20, deletions: 20, patch: 'full a' },
+      { filename: 'src/b.js', status: 'modified', changes: 10, additions: 5, deletions: 5, patch: 'full b' },
+    ];
+
+    const syncEvent = (before?: string): GitHubEvent => ({
+      type: 'pull_request.synchronize',
+      payload: {
+        action: 'synchronize',
+        before,
+        after: 'new-sha',
+        pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'new-sha' } },
+      },
+      repository: { name: 'test-repo', owner: 'test-owner' },
+      installationId: 789,
+    });
+
+    beforeEach(() => {
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing(prFiles));
+    });
+
+    it('should review only files changed since the last reviewed commit', async () => {
+      // Arrange
+      mockStateStore.load.mockResolvedValue({ lastReviewedSha: 'reviewed-sha' });
+      mockGitHubClient.compareCommits.mockResolvedValue({
+        status: 'ahead',
+        files: [
+          { filename: 'src/b.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'new b' },
+          { filename: 'README.md', status: 'modified', changes: 1, additions: 1, deletions: 0, patch: 'docs' },
+        ],
+      });
+
+      // Act
+      await handlePullRequest(syncEvent('before-sha'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.compareCommits.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        'reviewed-sha',
+        'new-sha'
+      ]);
+      const analyzedFiles = mockAIEngine.analyzeCode.mock.calls[0][0].files;
+      expect(analyzedFiles).toEqual([expect.objectContaining({ path: 'src/b.js', diff: 'new b' })]);
+      expect(mockStateStore.save.mock.calls).toContainEqual(['test-owner', 'test-repo', 1, {
+        lastReviewedSha: 'new-sha',
+      }, expect.any(String)]);
+    });
+
+    it('should run a full review when no reviewed commit is stored', async () => {
+      // Act
+      await handlePullRequest(syncEvent('before-sha'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.compareCommits.mock.calls).toHaveLength(0);
+      expect(mockAIEngine.analyzeCode.mock.calls[0][0].files).toHaveLength(2);
+      expect(mockReconciler.listOpenFindings.mock.calls).toHaveLength(0);
+    });
+
+    it('should keep failing the check when the new commits leave an earlier error open', async () => {
+      // Arrange
+      mockStateStore.load.mockResolvedValue({ lastReviewedSha: 'reviewed-sha', suppressedFingerprints: ['fp-2'] });
+      mockGitHubClient.compareCommits.mockResolvedValue({ status: 'ahead', files: [] });
+      const openError = { file: 'src/a.js', line: 3, severity: 'error' as const, message: 'Null dereference', category: 'bug' };
+      mockReconciler.listOpenFindings.mockResolvedValue([{ fingerprint: 'fp-1', issue: openError }]);
+
+      // Act
+      await handlePullRequest(syncEvent('before-sha'), correlationId);
+
+      // Assert
+      expect(mockReconciler.listOpenFindings.mock.calls).toEqual([['test-owner', 'test-repo', 1, ['fp-2']]]);
+      expect(mockAIEngine.analyzeCode.mock.calls).toHaveLength(0);
+      const [, , , conclusion, output] = mockGitHubClient.completeCheckRun.mock.calls[0];
+      expect(conclusion).toBe('failure');
+      expect(output.title).toBe('1 issue found');
+      expect(output.summary).toContain('new commits');
+      expect(output.annotations).toEqual([expect.objectContaining({ path: 'src/a.js', start_line: 3, annotation_level: 'failure' })]);
+      const summaryBody = mockStateStore.save.mock.calls[0][4];
+      expect(summaryBody).toContain('### Findings (1)');
+      expect(summaryBody).toContain('Includes 1 finding from earlier reviews that is still open.');
+    });
+
+    it('should count open findings from earlier reviews unless reported again', async () => {
+      // Arrange
+      mockStateStore.load.mockResolvedValue({ lastReviewedSha: 'reviewed-sha' });
+      mockGitHubClient.compareCommits.mockResolvedValue({
+        status: 'ahead',
+        files: [{ filename: 'src/b.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'new b' }],
+      });
+      const openIssue = (file: string): Issue => ({ file, line: 3, severity: 'error', message: 'Null dereference', category: 'bug' });
+      mockReconciler.listOpenFindings.mockResolvedValue([
+        { fingerprint: 'fp-a', issue: openIssue('src/a.js') },
+        { fingerprint: 'fp-b', issue: openIssue('src/b.js') },
+      ]);
+      mockReconciler.reconcile.mockResolvedValue({ comments: [], fingerprints: ['fp-b'], duplicates: 1, suppressed: 0, resolved: 0 });
+
+      // Act
+      await handlePullRequest(syncEvent('before-sha'), correlationId);
+
+      // Assert
+      const reviewedAnalysis = mockAIEngine.determineConclusion.mock.calls[0][0];
+      expect(reviewedAnalysis.issues).toEqual([openIssue('src/a.js')]);
+      expect(reviewedAnalysis.stats.total).toBe(1);
+    });
+
+    it('should not count open findings in ignored paths', async () => {
+      // Arrange
+      mockStateStore.load.mockResolvedValue({ lastReviewedSha: 'reviewed-sha' });
+      mockGitHubClient.compareCommits.mockResolvedValue({ status: 'ahead', files: [] });
+      mockInstructionProcessor.fetchCustomInstructions.mockResolvedValue({
+        focusAreas: [],
+        customRules: [],
+        ignorePatterns: ['src/generated/**'],
+        rawContent: '',
+      });
+      mockReconciler.listOpenFindings.mockResolvedValue([{
+        fingerprint: 'fp-1',
+        issue: { file: 'src/generated/a.js', line: 3, severity: 'error', message: 'Null dereference', category: 'bug' },
+      }]);
+
+      // Act
+      await handlePullRequest(syncEvent('before-sha'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.completeCheckRun.mock.calls[0][3]).toBe('success');
+    });
+
+    it('should skip the comparison when the head was already reviewed', async () => {
+      // Arrange
+      mockStateStore.load.mockResolvedValue({ lastReviewedSha: 'new-sha' });
+
+      // Act
+      await handlePullRequest(syncEvent('before-sha'), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.compareCommits.mock.calls).toHaveLength(0);
+      expect(mockAIEngine.analyzeCode.mock.calls).toHaveLength(0);
+    });
+
+    it('should fall back to a full review after a force push', async () => {
+      // Arrange
+      mockGitHubClient.compareCommits.mockResolvedValue({ status: 'diverged', files: [] });
+
+      // Act
+      await handlePullRequest(syncEvent('before-sha'), correlationId);
+
+      // Assert
+      expect(jest.mocked(logger).info.mock.calls).toContainEqual([
+        'Incremental review unavailable, falling back to full review',
+        expect.any(Object)
+      ]);
+      expect(mockAIEngine.analyzeCode.mock.calls[0][0].files).toHaveLength(2);
+    });
+
+    it('should fall back to a full review when there is nothing to compare against', async () => {
+      // Act
+      await handlePullRequest(syncEvent(undefined), correlationId);
+
+      // Assert
+      expect(mockGitHubClient.compareCommits.mock.calls).toHaveLength(0);
+      expect(mockAIEngine.analyzeCode.mock.calls[0][0].files).toHaveLength(2);
+    });
+
+    it('should run a full review for reopened pull requests', async () => {
+      // Arrange
+      mockStateStore.load.mockResolvedValue({ lastReviewedSha: 'reviewed-sha' });
+      const event: GitHubEvent = {
+        ...syncEvent('before-sha'),
+        type: 'pull_request.reopened',
+      };
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockGitHubClient.compareCommits.mock.calls).toHaveLength(0);
+      expect(mockAIEngine.analyzeCode.mock.calls[0][0].files).toHaveLength(2);
+    });
+  });
+
+  describe('earlier review comments', () => {
+    it('should post only comments that survive reconciliation', async () => {
+      // Arrange
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+      const files = [
+        { filename: 'src/index.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ];
+      const comments = [
+        { path: 'src/index.js', line: 1, body: 'Old finding' },
+        { path: 'src/index.js', line: 2, body: 'New finding' },
+      ];
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing(files));
+      mockAIEngine.generateComments.mockResolvedValue(comments);
+      mockReconciler.reconcile.mockResolvedValue({
+        comments: [comments[1]],
+        fingerprints: ['fp-old', 'fp-new'],
+        duplicates: 1,
+        suppressed: 0,
+        resolved: 2,
+      });
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockReconciler.reconcile.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        'abc123',
+        comments,
+        files,
+        undefined
+      ]);
+      expect(jest.mocked(logger).info.mock.calls).toContainEqual(['Reconciled with earlier review comments', {
+        correlationId,
+        duplicatesSkipped: 1,
+        suppressedSkipped: 0,
+        threadsResolved: 2,
+      }]);
+      expect(mockGitHubClient.createReview.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        [comments[1]],
+        undefined
+      ]);
+    });
+
+    it('should pass suppressed findings from the stored review state', async () => {
+      // Arrange
+      mockStateStore.load.mockResolvedValue({ suppressedFingerprints: ['fp-1'] });
+      const event: GitHubEvent = {
+        type: 'pull_request.opened',
+        payload: {
+          action: 'opened',
+          pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc123' } },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 789,
+      };
+      const files = [
+        { filename: 'src/index.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ];
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing(files));
+      mockAIEngine.generateComments.mockResolvedValue([
+        { path: 'src/index.js', line: 1, body: 'Finding' },
+      ]);
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockReconciler.reconcile.mock.calls[0][6]).toEqual(['fp-1']);
+      expect(mockStateStore.save.mock.calls).toContainEqual(['test-owner', 'test-repo', 1, {
+        suppressedFingerprints: ['fp-1'],
+        lastReviewedSha: 'abc123',
+      }, expect.any(String)]);
+    });
+  });
+
+  describe('summary comment', () => {
+    const event: GitHubEvent = {
+      type: 'pull_request.opened',
+      payload: {
+        action: 'opened',
+        pull_request: { number: 1, draft: false, base: { sha: 'base123' }, head: { sha: 'abc1234567' } },
+      },
+      repository: { name: 'test-repo', owner: 'test-owner' },
+      installationId: 789,
+    };
+
+    it('should list skipped files and findings beyond the inline comment limit', async () => {
+      // Arrange
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/a.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+        { filename: 'src/huge.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: '+'.repeat(600 * 1024) },
+        { filename: 'dist/bundle.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ]));
+      mockInstructionProcessor.fetchRepositoryConfig.mockResolvedValue({ config: { maxCommentsPerFile: 30 }, errors: [] });
+      const issues = Array.from({ length: 21 }, (_, i) => ({
+        file: 'src/a.js',
+        line: i + 1,
+        severity: 'warning' as const,
+        message: `Finding ${i + 1}`,
+        category: 'bug',
+      }));
+      mockAIEngine.analyzeCode.mockResolvedValue({
+        issues,
+        summary: 'Several problems',
+        stats: { total: 0, byCategory: {}, bySeverity: {} },
+      });
+      mockAIEngine.generateComments.mockResolvedValue(
+        issues.map(issue => ({ path: issue.file, line: issue.line, body: issue.message, issue }))
       );
-      const analyzedFiles = (mockAIEngine.analyzeCode.mock.calls[0][0] as any).files;
-      expect(analyzedFiles).toHaveLength(50);
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      const summary = mockStateStore.save.mock.calls[0][4] as string;
+      expect(summary).toContain('Several problems');
+      expect(summary).toContain('| ⚠️ warning | 21 |');
+      expect(summary).toContain('| bug | 21 |');
+      expect(summary).toContain('| `src/huge.js` | Diff too large |');
+      expect(summary).toContain('| `dist/bundle.js` | Matches an ignored path |');
+      expect(summary).toContain('### Findings not posted inline (1)');
+      expect(summary).toContain('`src/a.js:21` Finding 21');
+    });
+
+    it('should post at most the configured number of comments on one file', async () => {
+      // Arrange
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/a.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+        { filename: 'src/b.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ]));
+      mockInstructionProcessor.fetchRepositoryConfig.mockResolvedValue({ config: { maxCommentsPerFile: 1 }, errors: [] });
+      const comments = [
+        { path: 'src/a.js', line: 1, body: 'First in a' },
+        { path: 'src/a.js', line: 2, body: 'Second in a' },
+        { path: 'src/b.js', line: 1, body: 'First in b' },
+      ];
+      mockAIEngine.generateComments.mockResolvedValue(comments);
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockGitHubClient.createReview.mock.calls).toContainEqual([
+        'test-owner',
+        'test-repo',
+        1,
+        [comments[0], comments[2]],
+        undefined
+      ]);
+      const summary = mockStateStore.save.mock.calls[0][4] as string;
+      expect(summary).toContain('### Findings not posted inline (1)');
+      expect(summary).toContain('and at most 1 per file');
+      expect(summary).toContain('`src/a.js:2` Second in a');
+    });
+
+    it('should list findings that could not be posted inline', async () => {
+      // Arrange
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/a.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ]));
+      const comments = [
+        { path: 'src/a.js', line: 1, body: 'Placed' },
+        { path: 'src/a.js', line: 2, body: 'Rejected' },
+        { path: 'src/a.js', line: 90, body: 'Outside' },
+      ];
+      mockAIEngine.generateComments.mockResolvedValue(comments);
+      (placeComments as jest.Mock).mockReturnValue({ placed: comments.slice(0, 2), unplaceable: [comments[2]] });
+      mockGitHubClient.createReview.mockResolvedValue([comments[1]]);
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockReconciler.reconcile.mock.calls[0][4]).toEqual(comments.slice(0, 2));
+      expect(jest.mocked(logger).warn.mock.calls).toContainEqual(['GitHub rejected review comments', {
+        correlationId,
+        rejected: ['src/a.js:2'],
+      }]);
+      const summary = mockStateStore.save.mock.calls[0][4] as string;
+      expect(summary).toContain('### Findings outside the diff (2)');
+      expect(summary).toContain('`src/a.js:90` Outside');
+      expect(summary).toContain('`src/a.js:2` Rejected');
+    });
+
+    it('should list problems in the repository templates', async () => {
+      // Arrange
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/a.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ]));
+      mockTemplateLoader.loadTemplates.mockResolvedValue([
+        { path: '.reviewthor/templates/payments.md', line: 3, message: 'Unknown field "owner"; expected id, version, language, files.' },
+      ]);
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockTemplateLoader.loadTemplates.mock.calls).toContainEqual(['test-owner', 'test-repo', 'base123']);
+      const summary = mockStateStore.save.mock.calls[0][4] as string;
+      expect(summary).toContain('### ⚠️ Configuration problems (1)');
+      expect(summary).toContain('`.reviewthor/templates/payments.md:3` Unknown field "owner"');
+    });
+
+    it('should leave out invalid custom instructions and list them in the summary', async () => {
+      // Arrange
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'src/a.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ]));
+      const instructions = { focusAreas: [], customRules: [], ignorePatterns: ['src/**', 'bad pattern'], rawContent: '' };
+      const validInstructions = { ...instructions, ignorePatterns: ['src/**'] };
+      mockInstructionProcessor.fetchCustomInstructions.mockResolvedValue(instructions);
+      mockInstructionProcessor.validateInstructions.mockReturnValue({
+        isValid: false,
+        errors: [{ path: '.reviewthor.md', line: 7, message: 'Invalid ignore pattern: bad pattern' }],
+        instructions: validInstructions,
+      });
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      expect(mockInstructionProcessor.validateInstructions.mock.calls).toContainEqual([instructions]);
+      expect(mockInstructionProcessor.mergeWithDefaults.mock.calls).toContainEqual([validInstructions, undefined, []]);
+      const summary = mockStateStore.save.mock.calls[0][4] as string;
+      expect(summary).toContain('### ⚠️ Configuration problems (1)');
+      expect(summary).toContain('`.reviewthor.md:7` Invalid ignore pattern: bad pattern');
+      expect(mockGitHubClient.completeCheckRun.mock.calls).not.toContainEqual([
+        expect.anything(), expect.anything(), expect.anything(), 'failure', expect.anything()
+      ]);
+    });
+
+    describe('configuration changes', () => {
+      const headConfig = {
+        config: { maxCommentsPerPR: 1 },
+        errors: [{ path: '.reviewthor.yml', line: 2, message: 'Unknown setting "maxComments".' }],
+      };
+
+      beforeEach(() => {
+        mockGitHubClient.getFiles.mockResolvedValue({
+          ...fileListing([
+            { filename: 'src/a.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+          ]),
+          paths: ['src/a.js', '.reviewthor.yml'],
+        });
+        mockInstructionProcessor.fetchRepositoryConfig.mockImplementation((_owner, _repo, ref) =>
+          Promise.resolve(ref === 'abc1234567' ? headConfig : null)
+        );
+        (diffConfigs as jest.Mock).mockReturnValue([{ setting: 'maxCommentsPerPR', before: 20, after: 1 }]);
+      });
+
+      it('should review with the base configuration and summarize the changes', async () => {
+        // Act
+        await handlePullRequest(event, correlationId);
+
+        // Assert
+        expect(mockInstructionProcessor.fetchRepositoryConfig.mock.calls).toContainEqual(['test-owner', 'test-repo', 'base123']);
+        expect(mockInstructionProcessor.fetchRepositoryConfig.mock.calls).toContainEqual(['test-owner', 'test-repo', 'abc1234567']);
+        expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([expect.objectContaining({
+          settings: expect.objectContaining({ maxCommentsPerPR: defaultConfig.maxCommentsPerPR }),
+        })]);
+        expect(mockTemplateLoader.loadTemplates.mock.calls).toContainEqual(['test-owner', 'test-repo', 'base123']);
+        const summary = mockStateStore.save.mock.calls[0][4] as string;
+        expect(summary).toContain('### Configuration changes (1)');
+        expect(summary).toContain('apply once the pull request is merged');
+        expect(summary).toContain('Changed files: `.reviewthor.yml`');
+        expect(summary).toContain('- `maxCommentsPerPR`: `20` → `1`');
+        expect(summary).toContain('`.reviewthor.yml:2` Unknown setting "maxComments".');
+        expect(summary).not.toContain('Configuration problems');
+      });
+
+      it('should fail the check with annotations on the changed configuration files', async () => {
+        // Arrange
+        mockAIEngine.generateAnnotations.mockReturnValue([
+          { path: 'src/a.js', start_line: 1, end_line: 1, annotation_level: 'warning', message: 'Finding' },
+        ]);
+
+        // Act
+        await handlePullRequest(event, correlationId);
+
+        // Assert
+        expect(mockGitHubClient.completeCheckRun.mock.calls).toContainEqual([
+          'test-owner',
+          'test-repo',
+          expect.anything(),
+          'failure',
+          expect.objectContaining({
+            annotations: [
+              {
+                path: '.reviewthor.yml',
+                start_line: 2,
+                end_line: 2,
+                annotation_level: 'failure',
+                title: 'Invalid ReviewThor configuration',
+                message: 'Unknown setting "maxComments".',
+              },
+              expect.objectContaining({ path: 'src/a.js' }),
+            ],
+          })
+        ]);
+      });
+
+      it('should fail the check when the pull request only changes an invalid configuration', async () => {
+        // Arrange
+        mockGitHubClient.getFiles.mockResolvedValue({ ...fileListing([]), paths: ['.reviewthor.yml'] });
+
+        // Act
+        await handlePullRequest(event, correlationId);
+
+        // Assert
+        expect(mockGitHubClient.completeCheckRun.mock.calls).toContainEqual([
+          'test-owner',
+          'test-repo',
+          expect.anything(),
+          'failure',
+          expect.objectContaining({
+            title: 'Invalid ReviewThor configuration',
+            annotations: [expect.objectContaining({ path: '.reviewthor.yml', start_line: 2 })],
+          })
+        ]);
+      });
+
+      it('should validate changed templates at the head commit without using them', async () => {
+        // Arrange
+        const templatePath = '.reviewthor/templates/payments.md';
+        mockGitHubClient.getFiles.mockResolvedValue({
+          ...fileListing([
+            { filename: 'src/a.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+          ]),
+          paths: ['src/a.js', templatePath],
+        });
+        mockTemplateLoader.loadTemplates.mockImplementation((_owner, _repo, ref) =>
+          Promise.resolve(ref === 'abc1234567' ? [{ path: templatePath, line: 3, message: 'Unknown field "owner".' }] : [])
+        );
+
+        // Act
+        await handlePullRequest(event, correlationId);
+
+        // Assert
+        expect(mockTemplateLoader.loadTemplates.mock.calls).toContainEqual(['test-owner', 'test-repo', 'abc1234567']);
+        expect(mockTemplateLoader.loadTemplates.mock.calls).toContainEqual(['test-owner', 'test-repo', 'base123']);
+        const [headLoader, baseLoader] = (TemplateLoader as jest.MockedClass<typeof TemplateLoader>).mock.calls;
+        expect(headLoader[1]).not.toBe(baseLoader[1]);
+        const summary = mockStateStore.save.mock.calls[0][4] as string;
+        expect(summary).toContain('Changed files: `.reviewthor/templates/payments.md`');
+        expect(summary).toContain('`.reviewthor/templates/payments.md:3` Unknown field "owner".');
+        expect(summary).not.toContain('Configuration problems');
+        expect(mockGitHubClient.completeCheckRun.mock.calls).toContainEqual([
+          'test-owner',
+          'test-repo',
+          expect.anything(),
+          'failure',
+          expect.objectContaining({
+            annotations: [expect.objectContaining({ path: templatePath, start_line: 3, annotation_level: 'failure' })],
+          })
+        ]);
+      });
+
+      it('should report problems in previewed templates when the pull request only changes templates', async () => {
+        // Arrange
+        const templatePath = '.reviewthor/templates/payments.md';
+        mockGitHubClient.getFiles.mockResolvedValue({ ...fileListing([]), paths: [templatePath] });
+        mockInstructionProcessor.fetchRepositoryConfig.mockResolvedValue(null);
+        mockTemplateLoader.loadTemplates.mockResolvedValue([
+          { path: templatePath, line: 3, message: 'Unknown field "owner".' },
+        ]);
+
+        // Act
+        await handlePullRequest(event, correlationId, { previewConfig: true });
+
+        // Assert
+        expect(mockTemplateLoader.loadTemplates.mock.calls).toHaveLength(1);
+        expect(mockTemplateLoader.loadTemplates.mock.calls).toContainEqual(['test-owner', 'test-repo', 'abc1234567']);
+        expect(mockGitHubClient.completeCheckRun.mock.calls).toContainEqual([
+          'test-owner',
+          'test-repo',
+          expect.anything(),
+          'failure',
+          expect.objectContaining({
+            title: 'Invalid ReviewThor configuration',
+            annotations: [expect.objectContaining({ path: templatePath, start_line: 3, annotation_level: 'failure' })],
+          })
+        ]);
+        const summary = mockStateStore.save.mock.calls[0][4] as string;
+        expect(summary).toContain('### ⚠️ Configuration problems (1)');
+        expect(summary).toContain('`.reviewthor/templates/payments.md:3` Unknown field "owner".');
+      });
+
+      it('should review with the configuration from the pull request when a preview is requested', async () => {
+        // Act
+        await handlePullRequest(event, correlationId, { previewConfig: true });
+
+        // Assert
+        expect(mockAIEngine.analyzeCode.mock.calls).toContainEqual([expect.objectContaining({
+          settings: expect.objectContaining({ maxCommentsPerPR: 1 }),
+        })]);
+        expect(mockTemplateLoader.loadTemplates.mock.calls).toContainEqual(['test-owner', 'test-repo', 'abc1234567']);
+        const summary = mockStateStore.save.mock.calls[0][4] as string;
+        expect(summary).toContain('This review used the configuration from this pull request');
+        expect(summary).toContain('### ⚠️ Configuration problems (1)');
+      });
+
+      it('should not read the configuration twice when the pull request leaves it unchanged', async () => {
+        // Arrange
+        mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+          { filename: 'src/a.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+        ]));
+
+        // Act
+        await handlePullRequest(event, correlationId);
+
+        // Assert
+        expect(mockInstructionProcessor.fetchRepositoryConfig.mock.calls).toHaveLength(1);
+        const summary = mockStateStore.save.mock.calls[0][4] as string;
+        expect(summary).not.toContain('### Configuration changes');
+      });
+    });
+
+    it('should post a summary when there is nothing to review', async () => {
+      // Arrange
+      mockGitHubClient.getFiles.mockResolvedValue(fileListing([
+        { filename: 'dist/bundle.js', status: 'modified', changes: 2, additions: 1, deletions: 1, patch: 'diff' },
+      ]));
+
+      // Act
+      await handlePullRequest(event, correlationId);
+
+      // Assert
+      const summary = mockStateStore.save.mock.calls[0][4] as string;
+      expect(summary).toContain('✅ 0 reviewed, ⏭️ 1 skipped');
+      expect(mockAIEngine.analyzeCode.mock.calls).toHaveLength(0);
     });
   });
-});
\ No newline at end of file
+});
@@ -1,22 +1,65 @@
 import { GitHubEvent } from '../webhook';
-import { GitHubClient } from '../../github/client';
-import { AIReviewEngine } from '../../ai/engine';
+import { GitHubClient, CheckRunAnnotation, CheckRunOutput, File, PullRequest } from '../../github/client';
+import { AIReviewEngine, ReviewAnalysis } from '../../ai/engine';
 import { AnthropicClient } from '../../ai/anthropic-client';
 import { PromptManager } from '../../ai/prompt-manager';
 import { ContextBuilder } from '../../ai/context-builder';
-import { InstructionProcessor } from '../../ai/instruction-processor';
+import { ImportResolver } from '../../ai/import-resolver';
+import { ImpactAnalyzer } from '../../ai/impact-analyzer';
+import { parseDependencies } from '../../ai/framework-detector';
+import { AnthropicTokenizer, ApproximateTokenizer, getPromptTokenBudget } from '../../ai/tokenizer';
+import { diffConfigs, InstructionProcessor, ReviewConfig } from '../../ai/instruction-processor';
+import { TemplateLoader, TEMPLATES_DIRECTORY } from '../../ai/template-loader';
+import { ReviewStateStore } from '../../github/review-state';
+import { CommentReconciler } from '../../github/comment-reconciler';
+import {
+  annotateIssues,
+  computeStats,
+  concludeReview,
+  ConfigurationChanges,
+  ConfigurationError,
+  renderReviewSummary,
+  SkippedFile,
+} from '../../github/review-summary';
+import { placeComments } from '../../github/comment-placement';
+import { matchesGlob } from '../../utils/glob';
 import { logger } from '../../utils/logger';
 import { getConfig } from '../../config/loader';
-import { defaultConfig } from '../../config/default';
+import { ReviewSettings } from '../../config/default';
+import { REPOSITORY_CONFIG_FILES } from '../../config/repository-config';
+
+// GitHub rejects check run summaries longer than 65535 characters
+const MAX_CHECK_SUMMARY_LENGTH = 65535;
+
+// Most candidate paths for imports and tests do not exist, so lookups are capped separately from hits
+const MAX_RELATED_FILE_LOOKUPS = 60;
+
+// Fields of the pull request webhook payload the handler relies on
+interface PullRequestPayload {
+  action?: string;
+  before?: string;
+  pull_request: Pick<PullRequest, 'number' | 'body' | 'draft' | 'changed_files' | 'head' | 'base'>;
+}
+
+export interface PullRequestReviewOptions {
+  /** Review with the configuration from the pull request instead of its base commit */
+  previewConfig?: boolean;
+}
 
 /**
  * Handles pull request events
  * @param event - GitHub webhook event
  * @param correlationId - Request correlation ID for tracking
+ * @param options - Options of a review requested by command
  */
-export async function handlePullRequest(event: GitHubEvent, correlationId: string): Promise<void> {
+export async function handlePullRequest(
+  event: GitHubEvent,
+  correlationId: string,
+  options: PullRequestReviewOptions = {}
+): Promise<void> {
   const startTime = Date.now();
-  const { repository, installationId, payload } = event;
+  const { repository, installationId } = event;
+  const payload = event.payload as PullRequestPayload;
   const pullRequest = payload.pull_request;
 
   logger.info('Processing pull request', {
@@ -27,6 +70,9 @@ export async function handlePullRequest(event: GitHubEvent, correlationId: strin
     action: payload.action,
   });
 
+  let githubClient: GitHubClient | undefined;
+  let checkRunId: number | undefined;
+
   try {
     // Skip draft PRs unless configured otherwise
     if (pullRequest.draft) {
@@ -36,7 +82,7 @@ export async function handlePullRequest(event: GitHubEvent, correlationId: strin
 
     // Initialize services
     const config = await getConfig();
-    const githubClient = new GitHubClient({
+    githubClient = new GitHubClient({
       appId: config.githubAppId,
       privateKey: config.githubPrivateKey,
     });
@@ -44,24 +90,166 @@ export async function handlePullRequest(event: GitHubEvent, correlationId: strin
     // Authenticate with GitHub
     await githubClient.authenticate(installationId);
 
+    // Mark the head commit as under review so branch protection can gate on the result
+    checkRunId = await githubClient.createCheckRun(
+      repository.owner,
+      repository.name,
+      pullRequest.head.sha
+    );
+
     // Get PR files
-    const files = await githubClient.getFiles(repository.owner, repository.name, pullRequest.number);
-    
+    const { files, paths, totalCount, capReached } = await githubClient.getFiles(
+      repository.owner,
+      repository.name,
+      pullRequest.number
+    );
+
+    // GitHub stops listing files at its cap, so anything past it is never seen
+    const filesBeyondCap = capReached
+      ? Math.max((pullRequest.changed_files ?? totalCount) - totalCount, 0)
+      : 0;
+    if (capReached) {
+      logger.warn('Pull request exceeds GitHub file listing cap', {
+        correlationId,
+        listedFiles: totalCount,
+        changedFiles: pullRequest.changed_files,
+        filesBeyondCap,
+      });
+    }
+
+    // On new pushes, only review what changed since the last reviewed commit
+    const stateStore = new ReviewStateStore(githubClient);
+    const reviewState = await stateStore.load(repository.owner, repository.name, pullRequest.number);
+    let candidateFiles = files;
+    let incremental = false;
+    if (event.type === 'pull_request.synchronize') {
+      // Without a stored commit, e.g. after a failed first review, earlier commits may never have been reviewed
+      const baseSha = reviewState?.lastReviewedSha;
+      const newChanges = baseSha
+        ? await getIncrementalFiles(githubClient, repository, files, baseSha, pullRequest.head.sha)
+        : null;
+
+      if (newChanges) {
+        candidateFiles = newChanges;
+        incremental = true;
+        logger.info('Reviewing changes since last reviewed commit', {
+          correlationId,
+          baseSha,
+          headSha: pullRequest.head.sha,
+          filesChanged: newChanges.length,
+        });
+      } else {
+        logger.info('Incremental review unavailable, falling back to full review', {
+          correlationId,
+          baseSha,
+        });
+      }
+    }
+
+    // Runs after the check run is completed, so a failure here must not turn the check into a failure
+    const markReviewed = async (summary: string): Promise<void> => {
+      try {
+        await stateStore.save(repository.owner, repository.name, pullRequest.number, {
+          ...reviewState,
+          lastReviewedSha: pullRequest.head.sha,
+        }, summary);
+      } catch (error) {
+        logger.warn('Failed to post review summary', {
+          correlationId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    };
+
+    // Repository settings decide which files are reviewed, so they are loaded first
+    // They are read at the base commit, so a pull request cannot weaken its own review
+    const instructionProcessor = new InstructionProcessor(githubClient);
+    const reviewedPaths = candidateFiles.map(file => file.filename);
+    const baseConfig = await loadReviewConfig(
+      instructionProcessor,
+      repository,
+      pullRequest.base.sha,
+      reviewedPaths,
+      correlationId
+    );
+    let reviewConfig = baseConfig.config;
+    let configRef: string = pullRequest.base.sha;
+    let configurationErrors = baseConfig.errors;
+
+    // Changed ReviewThor files are validated and summarized, and only used when a preview is requested
+    let configurationChanges: ConfigurationChanges | undefined;
+    const changedConfigFiles = paths.filter(isConfigurationFile);
+    if (changedConfigFiles.length > 0) {
+      const headConfig = await loadReviewConfig(
+        instructionProcessor,
+        repository,
+        pullRequest.head.sha,
+        reviewedPaths,
+        correlationId
+      );
+      const previewed = options.previewConfig === true;
+      // A preview loads the changed templates for the review; otherwise they are only validated, in a throwaway prompt manager
+      const headTemplateErrors = !previewed && changedConfigFiles.some(path => path.startsWith(`${TEMPLATES_DIRECTORY}/`))
+        ? await loadTemplates(githubClient, repository, pullRequest.head.sha, new PromptManager(), correlationId)
+        : [];
+      configurationChanges = {
+        files: changedConfigFiles,
+        settings: diffConfigs(baseConfig.config, headConfig.config),
+        errors: [...headConfig.errors, ...headTemplateErrors],
+        previewed,
+      };
+      logger.info('Pull request changes the repository configuration', {
+        correlationId,
+        files: changedConfigFiles.length,
+        changedSettings: configurationChanges.settings.length,
+        previewed: configurationChanges.previewed,
+      });
+
+      if (configurationChanges.previewed) {
+        reviewConfig = headConfig.config;
+        configRef = pullRequest.head.sha;
+        configurationErrors = headConfig.errors;
+        configurationChanges.errors = [];
+      }
+    }
+
+    // Templates are loaded before any early return, so their problems are reported even when no file is reviewed
+    const promptManager = new PromptManager();
+    configurationErrors.push(...await loadTemplates(githubClient, repository, configRef, promptManager, correlationId));
+
+    // Skip findings in paths the repository configuration ignores
+    const isIgnoredPath = (path: string): boolean =>
+      reviewConfig.ignorePatterns.some(pattern => matchesGlob(path, pattern));
+
+    // An incremental review only sees the new changes, so findings still open on earlier code keep counting
+    const reconciler = new CommentReconciler(githubClient);
+    const openFindings = incremental
+      ? (await reconciler.listOpenFindings(
+        repository.owner,
+        repository.name,
+        pullRequest.number,
+        reviewState?.suppressedFingerprints
+      )).filter(finding => !isIgnoredPath(finding.issue.file))
+      : [];
+
     // Filter files based on configuration
-    const filesToReview = files.filter(file => {
-      // Check file size
-      if (file.changes > defaultConfig.maxFileSize) {
+    const skippedFiles: SkippedFile[] = [];
+    const filesToReview = candidateFiles.filter(file => {
+      // Check diff size
+      const diffSize = byteLength(file.patch || '');
+      if (diffSize > reviewConfig.maxDiffSize) {
         logger.info('Skipping large file', { 
           correlationId, 
           file: file.filename,
-          size: file.changes,
+          size: diffSize,
         });
+        skippedFiles.push({ path: file.filename, reason: 'large' });
         return false;
       }
 
       // Check if file should be ignored
-      const shouldIgnore = defaultConfig.ignoredPaths.some(pattern => 
-        matchesPattern(file.filename, pattern)
+      const shouldIgnore = reviewConfig.ignoredPaths.some(pattern => 
+        matchesGlob(file.filename, pattern)
       );
       
       if (shouldIgnore) {
@@ -69,6 +257,7 @@ export async function handlePullRequest(event: GitHubEvent, correlationId: strin
           correlationId, 
           file: file.filename,
         });
+        skippedFiles.push({ path: file.filename, reason: 'ignored' });
         return false;
       }
 
@@ -77,19 +266,64 @@ export async function handlePullRequest(event: GitHubEvent, correlationId: strin
 
     if (filesToReview.length === 0) {
       logger.info('No files to review', { correlationId });
+      const noFilesSummary = incremental
+        ? 'The new commits do not change any JavaScript, TypeScript or Vue files that ReviewThor reviews.'
+        : 'This pull request does not change any JavaScript, TypeScript or Vue files that ReviewThor reviews.';
+      const openIssues = openFindings.map(finding => finding.issue);
+      const noFilesAnalysis: ReviewAnalysis = { issues: openIssues, summary: noFilesSummary, stats: computeStats(openIssues) };
+      const configurationAnnotations = buildConfigurationAnnotations(configurationErrors, configurationChanges);
+      const output = buildCheckRunOutput(
+        noFilesAnalysis,
+        [...configurationAnnotations, ...annotateIssues(openIssues)],
+        buildSkippedFilesNote(skippedFiles, filesBeyondCap, reviewConfig.maxFilesPerReview)
+      );
+      await githubClient.completeCheckRun(
+        repository.owner,
+        repository.name,
+        checkRunId,
+        configurationAnnotations.length > 0 ? 'failure' : concludeReview(openIssues),
+        {
+          ...output,
+          title: configurationAnnotations.length > 0
+            ? 'Invalid ReviewThor configuration'
+            : openIssues.length > 0 ? output.title : 'No files to review',
+        }
+      );
+      await markReviewed(renderReviewSummary({
+        analysis: noFilesAnalysis,
+        openFindings: openIssues.length,
+        headSha: pullRequest.head.sha,
+        incremental,
+        reviewedFiles: [],
+        skippedFiles,
+        filesBeyondCap,
+        droppedComments: [],
+        unplacedComments: [],
+        maxComments: reviewConfig.maxCommentsPerPR,
+        configurationErrors,
+        configurationChanges,
+      }));
       return;
     }
 
     // Limit number of files
-    const limitedFiles = filesToReview.slice(0, defaultConfig.maxFilesPerReview);
+    const limitedFiles = filesToReview.slice(0, reviewConfig.maxFilesPerReview);
     if (limitedFiles.length < filesToReview.length) {
       logger.warn('File limit exceeded, reviewing subset', {
         correlationId,
         totalFiles: filesToReview.length,
         reviewingFiles: limitedFiles.length,
       });
+      skippedFiles.push(...filesToReview.slice(limitedFiles.length).map(file => ({
+        path: file.filename,
+        reason: 'limit' as const,
+      })));
     }
 
+    const filesNotReviewed = filesBeyondCap + skippedFiles.length;
+    // Also added to the check run, which is published even when there are no comments to post
+    const skippedFilesNote = buildSkippedFilesNote(skippedFiles, filesBeyondCap, reviewConfig.maxFilesPerReview);
+
     // Initialize AI components
     const anthropicClient = new AnthropicClient({
       apiKey: config.anthropicApiKey,
@@ -98,45 +332,75 @@ export async function handlePullRequest(event: GitHubEvent, correlationId: strin
       timeout: config.aiTimeoutMs,
     });
 
-    const promptManager = new PromptManager();
-    const contextBuilder = new ContextBuilder();
-    const instructionProcessor = new InstructionProcessor(githubClient);
+    const importResolver = await loadImportResolver(githubClient, repository, pullRequest.head.sha, correlationId);
+    const tokenizer = config.exactTokenCounting
+      ? new AnthropicTokenizer(anthropicClient)
+      : new ApproximateTokenizer();
+    const contextBuilder = new ContextBuilder(
+      importResolver,
+      tokenizer,
+      getPromptTokenBudget(config.anthropicModel, config.maxTokens)
+    );
 
+    // The prompt budget above leaves exactly this many tokens for the response
     const aiEngine = new AIReviewEngine(
       anthropicClient,
       promptManager,
-      contextBuilder
+      contextBuilder,
+      config.maxTokens
     );
 
-    // Fetch custom instructions if available
-    const customInstructions = await instructionProcessor.fetchCustomInstructions(
-      repository.owner,
-      repository.name
+    // Prepare context for AI review, with whole files so declarations outside the hunks are visible
+    const contents = await fetchFileContents(githubClient, repository, pullRequest.head.sha, limitedFiles, reviewConfig);
+    const reviewFiles = limitedFiles.map((file, index) => ({
+      path: file.filename,
+      content: contents[index],
+      diff: file.patch || '',
+    }));
+    const relatedFiles = await fetchRelatedFiles(
+      githubClient,
+      contextBuilder,
+      repository,
+      pullRequest.head.sha,
+      reviewFiles,
+      reviewConfig
     );
 
-    if (customInstructions) {
-      logger.info('Found custom instructions', { 
-        correlationId,
-        focusAreas: customInstructions.focusAreas.length,
-        customRules: customInstructions.customRules.length,
-      });
-    }
+    // Exported APIs the PR changes are checked against their callers elsewhere in the repository
+    const exportChanges = contextBuilder.analyzeExportChanges(reviewFiles, relatedFiles);
+    const callSites = exportChanges.length > 0
+      ? await new ImpactAnalyzer(githubClient, contextBuilder).findCallSites(
+        repository.owner,
+        repository.name,
+        pullRequest.head.sha,
+        exportChanges,
+        [...reviewFiles, ...relatedFiles].map(file => file.path)
+      )
+      : [];
+
+    // Frameworks are detected per file, with the root package.json pointing at the ones the repository uses
+    const dependencies = parseDependencies(
+      await githubClient.getFile(repository.owner, repository.name, 'package.json', pullRequest.head.sha)
+    );
 
-    // Prepare context for AI review
     const reviewContext = {
-      files: limitedFiles.map(file => ({
-        path: file.filename,
-        content: '', // We'll use diff only for now
-        diff: file.patch || '',
-      })),
+      files: reviewFiles,
       prDescription: pullRequest.body || '',
       repository: `${repository.owner}/${repository.name}`,
+      relatedFiles,
+      exportChanges,
+      callSites,
+      dependencies,
+      settings: reviewConfig,
     };
 
     // Perform AI analysis
     logger.info('Starting AI analysis', { 
       correlationId,
       filesCount: limitedFiles.length,
+      relatedFilesCount: relatedFiles.length,
+      changedExports: exportChanges.length,
+      externalCallSites: callSites.length,
     });
 
     const analysis = await aiEngine.analyzeCode(reviewContext);
@@ -148,22 +412,50 @@ export async function handlePullRequest(event: GitHubEvent, correlationId: strin
     });
 
     // Generate comments
-    const comments = await aiEngine.generateComments(analysis);
-
-    // Apply custom instruction filters if available
-    let filteredComments = comments;
-    if (customInstructions?.ignorePatterns) {
-      filteredComments = comments.filter(comment => {
-        const shouldIgnore = customInstructions.ignorePatterns.some(pattern =>
-          matchesPattern(comment.path, pattern)
-        );
-        return !shouldIgnore;
+    const comments = await aiEngine.generateComments(analysis, reviewContext.files);
+
+    const filteredComments = comments.filter(comment => !isIgnoredPath(comment.path));
+
+    // Anchor comments to lines inside the diff; the rest are listed in the summary comment
+    const { placed, unplaceable } = placeComments(filteredComments, limitedFiles);
+    if (unplaceable.length > 0) {
+      logger.warn('Findings outside the diff cannot be posted inline', {
+        correlationId,
+        count: unplaceable.length,
       });
     }
 
-    // Limit number of comments
-    const finalComments = filteredComments.slice(0, defaultConfig.maxCommentsPerPR);
+    // Skip findings posted on earlier reviews and resolve the ones that were fixed since
+    const reconciled = await reconciler.reconcile(
+      repository.owner,
+      repository.name,
+      pullRequest.number,
+      pullRequest.head.sha,
+      placed,
+      limitedFiles,
+      reviewState?.suppressedFingerprints
+    );
+
+    if (reconciled.duplicates > 0 || reconciled.suppressed > 0 || reconciled.resolved > 0) {
+      logger.info('Reconciled with earlier review comments', {
+        correlationId,
+        duplicatesSkipped: reconciled.duplicates,
+        suppressedSkipped: reconciled.suppressed,
+        threadsResolved: reconciled.resolved,
+      });
+    }
 
+    // Limit number of comments per file and per review; the rest are listed in the summary comment
+    const commentsPerFile = new Map<string, number>();
+    const withinFileLimit = reconciled.comments.filter(comment => {
+      const count = commentsPerFile.get(comment.path) ?? 0;
+      commentsPerFile.set(comment.path, count + 1);
+      return count < reviewConfig.maxCommentsPerFile;
+    });
+    const finalComments = withinFileLimit.slice(0, reviewConfig.maxCommentsPerPR);
+    const droppedComments = reconciled.comments.filter(comment => !finalComments.includes(comment));
+
+    const unplacedComments = [...unplaceable];
     if (finalComments.length > 0) {
       logger.info('Posting review comments', {
         correlationId,
@@ -171,21 +463,70 @@ export async function handlePullRequest(event: GitHubEvent, correlationId: strin
       });
 
       // Post review comments
-      await githubClient.createReview(
+      const rejected = await githubClient.createReview(
         repository.owner,
         repository.name,
         pullRequest.number,
-        finalComments
+        finalComments,
+        skippedFilesNote
       );
+
+      if (rejected.length > 0) {
+        logger.warn('GitHub rejected review comments', {
+          correlationId,
+          rejected: rejected.map(comment => `${comment.path}:${comment.line}`),
+        });
+        unplacedComments.push(...rejected);
+      }
     } else {
       logger.info('No comments to post', { correlationId });
     }
 
+    // Publish the outcome as a check run so it can be required before merge
+    // Open findings this review reported again are already among its issues
+    const reportedFingerprints = new Set(reconciled.fingerprints);
+    const openIssues = openFindings
+      .filter(finding => !reportedFingerprints.has(finding.fingerprint))
+      .map(finding => finding.issue);
+    const reviewedIssues = [...analysis.issues.filter(issue => !isIgnoredPath(issue.file)), ...openIssues];
+    const reviewedAnalysis: ReviewAnalysis = {
+      ...analysis,
+      issues: reviewedIssues,
+      stats: computeStats(reviewedIssues),
+    };
+    // Problems in ReviewThor files the pull request changes fail the check, so they are fixed before merge
+    const configurationAnnotations = buildConfigurationAnnotations(configurationErrors, configurationChanges);
+    const annotations = [...configurationAnnotations, ...aiEngine.generateAnnotations(reviewedAnalysis)];
+    await githubClient.completeCheckRun(
+      repository.owner,
+      repository.name,
+      checkRunId,
+      configurationAnnotations.length > 0 ? 'failure' : aiEngine.determineConclusion(reviewedAnalysis),
+      buildCheckRunOutput(reviewedAnalysis, annotations, skippedFilesNote)
+    );
+
+    await markReviewed(renderReviewSummary({
+      analysis: reviewedAnalysis,
+      openFindings: openIssues.length,
+      headSha: pullRequest.head.sha,
+      incremental,
+      reviewedFiles: limitedFiles.map(file => file.filename),
+      skippedFiles,
+      filesBeyondCap,
+      droppedComments,
+      unplacedComments,
+      maxComments: reviewConfig.maxCommentsPerPR,
+      maxCommentsPerFile: reviewConfig.maxCommentsPerFile,
+      configurationErrors,
+      configurationChanges,
+    }));
+
     const duration = Date.now() - startTime;
     logger.info('Pull request processing complete', {
       correlationId,
       duration,
       commentsPosted: finalComments.length,
+      filesNotReviewed,
     });
 
   } catch (error) {
@@ -194,31 +535,407 @@ export async function handlePullRequest(event: GitHubEvent, correlationId: strin
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined,
     });
+
+    if (githubClient && checkRunId !== undefined) {
+      await failCheckRun(githubClient, repository, checkRunId, correlationId);
+    }
     
     // Don't throw - we've logged the error and don't want to retry
   }
 }
 
 /**
- * Simple glob pattern matching
- * @param path - File path to test
- * @param pattern - Glob pattern
- * @returns true if path matches pattern
+ * Narrows the pull request files to the changes made since a previously reviewed commit
+ * @param githubClient - Authenticated GitHub client
+ * @param repository - Repository the pull request belongs to
+ * @param prFiles - Files changed by the whole pull request
+ * @param baseSha - Last reviewed commit
+ * @param headSha - New head commit
+ * @returns Pull request files carrying only the new changes, or null when a full review is needed
  */
-function matchesPattern(path: string, pattern: string): boolean {
-  // Handle ** at the end specially
-  if (pattern.endsWith('/**')) {
-    const base = pattern.slice(0, -3); // Remove /**
-    return path.startsWith(base + '/') || path === base;
+async function getIncrementalFiles(
+  githubClient: GitHubClient,
+  repository: GitHubEvent['repository'],
+  prFiles: File[],
+  baseSha: string,
+  headSha: string
+): Promise<File[] | null> {
+  if (baseSha === headSha) {
+    return [];
   }
-  
-  // Convert glob pattern to regex
-  let regex = pattern
-    .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape special regex chars
-    .replace(/\*\*/g, '___DOUBLE_STAR___') // Temporarily replace **
-    .replace(/\*/g, '[^/]*') // * matches any characters except /
-    .replace(/___DOUBLE_STAR___/g, '.*') // ** matches any number of directories
-    .replace(/\?/g, '.'); // ? matches single character
-  
-  return new RegExp(`^${regex}$`).test(path);
-}
\ No newline at end of file
+
+  const comparison = await githubClient.compareCommits(
+    repository.owner,
+    repository.name,
+    baseSha,
+    headSha
+  );
+
+  // A force push or rebase leaves no linear history to diff against
+  if (!comparison || (comparison.status !== 'ahead' && comparison.status !== 'identical')) {
+    return null;
+  }
+
+  const newPatches = new Map(comparison.files.map(file => [file.filename, file]));
+
+  // Only keep files that are still part of the PR, e.g. not reverted by the new commits
+  return prFiles
+    .filter(file => newPatches.get(file.filename)?.patch)
+    .map(file => {
+      const newFile = newPatches.get(file.filename) as File;
+      return {
+        ...file,
+        additions: newFile.additions,
+        deletions: newFile.deletions,
+        changes: newFile.changes,
+        patch: newFile.patch,
+      };
+    });
+}
+
+/**
+ * Loads import resolution settings at the head commit, falling back to relative imports only
+ * @param githubClient - Authenticated GitHub client
+ * @param repository - Repository the pull request belongs to
+ * @param ref - Head commit of the pull request
+ * @param correlationId - Request correlation ID for tracking
+ * @returns Import resolver for the head commit
+ */
+async function loadImportResolver(
+  githubClient: GitHubClient,
+  repository: GitHubEvent['repository'],
+  ref: string,
+  correlationId: string
+): Promise<ImportResolver> {
+  try {
+    return await ImportResolver.load(githubClient, repository.owner, repository.name, ref);
+  } catch (error) {
+    logger.warn('Could not load import resolution settings', {
+      correlationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return new ImportResolver();
+  }
+}
+
+/**
+ * Loads the review configuration of the repository at a commit
+ * @param instructionProcessor - Instruction processor reading the repository's ReviewThor files
+ * @param repository - Repository the pull request belongs to
+ * @param ref - Commit to read the files at
+ * @param paths - Paths of the files under review, whose directories may have their own settings
+ * @param correlationId - Request correlation ID for tracking
+ * @returns Merged configuration, and the problems found in the files
+ */
+async function loadReviewConfig(
+  instructionProcessor: InstructionProcessor,
+  repository: GitHubEvent['repository'],
+  ref: string,
+  paths: string[],
+  correlationId: string
+): Promise<{ config: ReviewConfig; errors: ConfigurationError[] }> {
+  const customInstructions = await instructionProcessor.fetchCustomInstructions(repository.owner, repository.name, ref);
+  // Invalid entries are left out rather than failing the whole file
+  const validation = customInstructions && instructionProcessor.validateInstructions(customInstructions);
+  const repositoryConfig = await instructionProcessor.fetchRepositoryConfig(repository.owner, repository.name, ref);
+  const directoryOverrides = await instructionProcessor.fetchDirectoryOverrides(
+    repository.owner,
+    repository.name,
+    paths,
+    repositoryConfig?.config.locked,
+    ref
+  );
+  const config = instructionProcessor.mergeWithDefaults(
+    validation ? validation.instructions : null,
+    repositoryConfig?.config,
+    directoryOverrides.overrides
+  );
+  const errors: ConfigurationError[] = [
+    ...(validation?.errors || []),
+    ...(repositoryConfig?.errors || []),
+    ...directoryOverrides.errors,
+  ];
+
+  if (customInstructions) {
+    logger.info('Found custom instructions', {
+      correlationId,
+      ref,
+      focusAreas: customInstructions.focusAreas.length,
+      customRules: customInstructions.customRules.length,
+    });
+  }
+
+  if (repositoryConfig || directoryOverrides.overrides.length > 0) {
+    logger.info('Found repository configuration', {
+      correlationId,
+      ref,
+      settings: Object.keys(repositoryConfig?.config || {}).length,
+      pathOverrides: config.overrides.length,
+      lockedSettings: config.locked.length,
+      errors: errors.length,
+    });
+  }
+
+  return { config, errors };
+}
+
+/**
+ * Checks whether a changed file is one of the repository's ReviewThor files
+ * @param path - Path of a changed file
+ * @returns True for instructions, settings and prompt templates
+ */
+function isConfigurationFile(path: string): boolean {
+  return path === '.reviewthor.md'
+    || REPOSITORY_CONFIG_FILES.includes(path)
+    || path.split('/').pop() === '.reviewthor.yml'
+    || path.startsWith(`${TEMPLATES_DIRECTORY}/`);
+}
+
+/**
+ * Loads the repository's prompt templates into the prompt manager
+ * @param githubClient - Authenticated GitHub client
+ * @param repository - Repository the pull request belongs to
+ * @param ref - Commit to read the templates at
+ * @param promptManager - Prompt manager the templates are added to
+ * @param correlationId - Request correlation ID for tracking
+ * @returns Problems found in the template files, reported in the review summary
+ */
+async function loadTemplates(
+  githubClient: GitHubClient,
+  repository: GitHubEvent['repository'],
+  ref: string,
+  promptManager: PromptManager,
+  correlationId: string
+): Promise<ConfigurationError[]> {
+  try {
+    const errors = await new TemplateLoader(githubClient, promptManager)
+      .loadTemplates(repository.owner, repository.name, ref);
+    if (errors.length > 0) {
+      logger.warn('Repository templates have problems', { correlationId, errors: errors.length });
+    }
+    return errors;
+  } catch (error) {
+    logger.warn('Could not load repository templates', {
+      correlationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return [];
+  }
+}
+
+/**
+ * Fetches the head revision of each reviewed file
+ * @param githubClient - Authenticated GitHub client
+ * @param repository - Repository the pull request belongs to
+ * @param ref - Head commit of the pull request
+ * @param files - Files under review
+ * @param settings - Review settings with the file size limit
+ * @returns File contents in the order of files, empty for removed or oversized files
+ */
+async function fetchFileContents(
+  githubClient: GitHubClient,
+  repository: GitHubEvent['repository'],
+  ref: string,
+  files: File[],
+  settings: ReviewSettings
+): Promise<string[]> {
+  const contents: string[] = [];
+
+  // Sequential to stay clear of GitHub's secondary rate limits on large pull requests
+  for (const file of files) {
+    const content = file.status === 'removed'
+      ? null
+      : await githubClient.getFile(repository.owner, repository.name, file.filename, ref);
+    contents.push(content && byteLength(content) <= settings.maxFileSize ? content : '');
+  }
+
+  return contents;
+}
+
+/**
+ * Fetches unchanged files the reviewed files import, and their tests, as context for the review
+ * @param githubClient - Authenticated GitHub client
+ * @param contextBuilder - Context builder used to find imports and test files
+ * @param repository - Repository the pull request belongs to
+ * @param ref - Head commit of the pull request
+ * @param files - Files under review with their contents
+ * @param settings - Review settings with the related file and file size limits
+ * @returns Related files that exist at the head commit, at most maxRelatedFiles
+ */
+async function fetchRelatedFiles(
+  githubClient: GitHubClient,
+  contextBuilder: ContextBuilder,
+  repository: GitHubEvent['repository'],
+  ref: string,
+  files: Array<{ path: string; content: string }>,
+  settings: ReviewSettings
+): Promise<Array<{ path: string; content: string }>> {
+  const reviewedPaths = new Set(files.map(file => file.path));
+  const checkedPaths = new Set<string>();
+  const relatedFiles: Array<{ path: string; content: string }> = [];
+  let lookups = 0;
+
+  for (const file of files) {
+    const { imports, tests } = await contextBuilder.includeRelatedFiles(file);
+
+    // Each entry lists the paths one related file may live at; the first that exists is used
+    const candidates = [
+      ...imports.map(specifier => contextBuilder.resolveImportPaths(file.path, specifier)),
+      ...tests.map(testPath => [testPath]),
+    ];
+
+    for (const paths of candidates) {
+      if (paths.length === 0 || paths.some(path => reviewedPaths.has(path) || checkedPaths.has(path))) {
+        continue;
+      }
+
+      for (const path of paths) {
+        if (relatedFiles.length >= settings.maxRelatedFiles || lookups >= MAX_RELATED_FILE_LOOKUPS) {
+          return relatedFiles;
+        }
+
+        checkedPaths.add(path);
+        lookups++;
+        const content = await githubClient.getFile(repository.owner, repository.name, path, ref);
+        if (content !== null) {
+          if (byteLength(content) <= settings.maxFileSize) {
+            relatedFiles.push({ path, content });
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  return relatedFiles;
+}
+
+/**
+ * Measures text in UTF-8 bytes, the unit of the maxFileSize and maxDiffSize settings
+ * @param text - File content or patch
+ * @returns Size in bytes
+ */
+function byteLength(text: string): number {
+  return Buffer.byteLength(text, 'utf8');
+}
+
+/**
+ * Builds failing annotations for the problems in ReviewThor files the pull request changes
+ * @param configurationErrors - Problems in the configuration the review used
+ * @param changes - Changes the pull request makes to the configuration, if any
+ * @returns Annotations on the changed files
+ */
+function buildConfigurationAnnotations(
+  configurationErrors: ConfigurationError[],
+  changes: ConfigurationChanges | undefined
+): CheckRunAnnotation[] {
+  if (!changes) {
+    return [];
+  }
+
+  // Without a preview the review used the base configuration, so the new files' problems are listed separately
+  const errors = changes.previewed ? configurationErrors : changes.errors;
+  return errors
+    .filter(error => changes.files.includes(error.path))
+    .map(error => ({
+      path: error.path,
+      start_line: error.line ?? 1,
+      end_line: error.line ?? 1,
+      annotation_level: 'failure' as const,
+      title: 'Invalid ReviewThor configuration',
+      message: error.message,
+    }));
+}
+
+/**
+ * Builds the check run output from the review analysis
+ * @param analysis - Review analysis limited to reviewed paths
+ * @param annotations - Annotations for the configuration problems and the analysis issues
+ * @param skippedFilesNote - Note on the files that were not reviewed, if any
+ * @returns Check run title, summary and annotations
+ */
+function buildCheckRunOutput(
+  analysis: ReviewAnalysis,
+  annotations: CheckRunAnnotation[],
+  skippedFilesNote?: string
+): CheckRunOutput {
+  const total = analysis.issues.length;
+  const title = total === 0 ? 'No issues found' : `${total} issue${total === 1 ? '' : 's'} found`;
+
+  const severities = (['error', 'warning', 'info'] as const)
+    .map(severity => ({
+      severity,
+      count: analysis.issues.filter(issue => issue.severity === severity).length,
+    }))
+    .filter(({ count }) => count > 0)
+    .map(({ severity, count }) => `${severity}: ${count}`);
+
+  const summary = [
+    analysis.summary,
+    severities.length > 0 ? `**Findings by severity:** ${severities.join(', ')}` : '',
+    skippedFilesNote || '',
+  ].filter(part => part.length > 0).join('\n\n');
+
+  return {
+    title,
+    summary: summary.slice(0, MAX_CHECK_SUMMARY_LENGTH),
+    annotations,
+  };
+}
+
+/**
+ * Completes the check run as failed after the review itself errored
+ * @param githubClient - Authenticated GitHub client
+ * @param repository - Repository the check run belongs to
+ * @param checkRunId - ID of the in-progress check run
+ * @param correlationId - Request correlation ID for tracking
+ */
+async function failCheckRun(
+  githubClient: GitHubClient,
+  repository: GitHubEvent['repository'],
+  checkRunId: number,
+  correlationId: string
+): Promise<void> {
+  try {
+    await githubClient.completeCheckRun(repository.owner, repository.name, checkRunId, 'failure', {
+      title: 'Review could not be completed',
+      summary: 'ReviewThor encountered an error while reviewing this pull request.',
+    });
+  } catch (error) {
+    logger.warn('Failed to complete check run', {
+      correlationId,
+      checkRunId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Builds the note describing files that were left out of the review, with the reason for each
+ * @param skippedFiles - Listed files that were not reviewed
+ * @param filesBeyondCap - Changed files GitHub did not list
+ * @param maxFilesPerReview - Most files reviewed per pull request
+ * @returns Note text, or undefined when every file was reviewed
+ */
+function buildSkippedFilesNote(
+  skippedFiles: SkippedFile[],
+  filesBeyondCap: number,
+  maxFilesPerReview: number
+): string | undefined {
+  const count = (reason: SkippedFile['reason']): number => skippedFiles.filter(file => file.reason === reason).length;
+  const reasons = [
+    { count: count('limit'), text: `over the limit of ${maxFilesPerReview} files per review` },
+    { count: count('ignored'), text: 'matching an ignored path' },
+    { count: count('large'), text: 'with a diff over the size limit' },
+    { count: filesBeyondCap, text: `not listed by GitHub, which lists at most ${GitHubClient.MAX_LISTED_FILES} changed files` },
+  ].filter(reason => reason.count > 0);
+
+  const total = skippedFiles.length + filesBeyondCap;
+  if (total === 0) {
+    return undefined;
+  }
+
+  const noun = total === 1 ? 'file was' : 'files were';
+  const details = reasons.map(reason => `${reason.count} ${reason.text}`).join('; ');
+  return `⚠️ ${total} changed ${noun} not reviewed: ${details}.`;
+}
@@ -0,0 +1,253 @@
+import { handleThreadReply } from './thread-reply';
+import { GitHubEvent } from '../webhook';
+import { GitHubClient, ReviewComment } from '../../github/client';
+import { encodeFinding } from '../../github/comment-reconciler';
+import { AIReviewEngine, Issue } from '../../ai/engine';
+import { InstructionProcessor, PathOverride } from '../../ai/instruction-processor';
+import { logger } from '../../utils/logger';
+import { getConfig } from '../../config/loader';
+import { defaultConfig } from '../../config/default';
+import { RepositoryConfig } from '../../config/repository-config';
+
+// Mock all dependencies
+jest.mock('../../github/client');
+jest.mock('../../ai/engine');
+jest.mock('../../ai/anthropic-client');
+jest.mock('../../ai/prompt-manager');
+jest.mock('../../ai/context-builder');
+jest.mock('../../ai/instruction-processor', () => ({
+  ...jest.requireActual<object>('../../ai/instruction-processor'),
+  InstructionProcessor: jest.fn(),
+}));
+jest.mock('../../utils/logger');
+jest.mock('../../config/loader');
+
+describe('handleThreadReply', () => {
+  let mockGitHubClient: jest.Mocked<GitHubClient>;
+  let mockAIEngine: jest.Mocked<AIReviewEngine>;
+  let mockInstructionProcessor: jest.Mocked<InstructionProcessor>;
+  const correlationId = 'test-correlation-id';
+
+  const issue: Issue = {
+    file: 'src/index.js',
+    line: 2,
+    severity: 'warning',
+    message: 'Use const instead of var',
+    category: 'code-quality',
+  };
+
+  const reply = {
+    id: 20,
+    in_reply_to_id: 10,
+    body: 'This is intentional, the variable is reassigned below',
+    user: { login: 'octocat', type: 'User' },
+  };
+
+  const replyEvent = (overrides: Record<string, unknown> = {}): GitHubEvent => ({
+    type: 'pull_request_review_comment.created',
+    payload: {
+      action: 'created',
+      comment: { ...reply, ...overrides },
+      pull_request: { number: 1, base: { sha: 'base123' } },
+    },
+    repository: { name: 'test-repo', owner: 'test-owner' },
+    installationId: 789,
+  });
+
+  const botReply = (id: number): Partial<ReviewComment> => ({
+    id,
+    in_reply_to_id: 10,
+    body: 'Clarification',
+    user: { login: 'reviewthor[bot]', type: 'Bot' },
+  });
+
+  beforeEach(() => {
+    mockGitHubClient = {
+      authenticate: jest.fn().mockResolvedValue(undefined),
+      getReviewComment: jest.fn().mockResolvedValue({
+        id: 10,
+        body: `⚠️ Use const\n\n${encodeFinding({ fingerprint: 'fp-1', issue })}`,
+        user: { login: 'reviewthor[bot]', type: 'Bot' },
+        path: 'src/index.js',
+        diff_hunk: '@@ -1 +1,2 @@\n+var b = 2;',
+      }),
+      getAppLogin: jest.fn().mockResolvedValue('reviewthor[bot]'),
+      getCollaboratorPermission: jest.fn().mockResolvedValue('write'),
+      listReviewComments: jest.fn().mockResolvedValue([reply]),
+      replyToReviewComment: jest.fn().mockResolvedValue(undefined),
+      listReviewThreads: jest.fn().mockResolvedValue([
+        { id: 'thread-1', isResolved: false, rootCommentId: 10 },
+      ]),
+      resolveReviewThread: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<GitHubClient>;
+
+    mockAIEngine = {
+      respondToThread: jest.fn().mockResolvedValue({ resolution: 'clarify', message: 'Here is an example' }),
+    } as unknown as jest.Mocked<AIReviewEngine>;
+
+    (GitHubClient as jest.MockedClass<typeof GitHubClient>).mockImplementation(() => mockGitHubClient);
+    (AIReviewEngine as jest.MockedClass<typeof AIReviewEngine>).mockImplementation(() => mockAIEngine);
+
+    mockInstructionProcessor = {
+      fetchRepositoryConfig: jest.fn().mockResolvedValue(null),
+      fetchDirectoryOverrides: jest.fn().mockResolvedValue({ overrides: [], errors: [] }),
+      mergeWithDefaults: jest.fn().mockImplementation((_custom: null, repositoryConfig?: RepositoryConfig, overrides?: PathOverride[]) => ({
+        ...defaultConfig,
+        ...repositoryConfig,
+        overrides,
+      })),
+    } as unknown as jest.Mocked<InstructionProcessor>;
+    (InstructionProcessor as jest.MockedClass<typeof InstructionProcessor>).mockImplementation(() => mockInstructionProcessor);
+
+    (getConfig as jest.Mock).mockResolvedValue({
+      githubAppId: 123456,
+      githubPrivateKey: 'test-key',
+      anthropicApiKey: 'test-api-key',
+      anthropicModel: 'claude-3-opus',
+      maxRetries: 3,
+      aiTimeoutMs: 30000,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should clarify the finding with the original issue and diff hunk', async () => {
+    // Act
+    await handleThreadReply(replyEvent(), correlationId);
+
+    // Assert
+    expect(mockAIEngine.respondToThread.mock.calls).toContainEqual([
+      issue,
+      '@@ -1 +1,2 @@\n+var b = 2;',
+      [{ author: 'octocat', fromBot: false, body: reply.body }]
+    ]);
+    expect(mockGitHubClient.replyToReviewComment.mock.calls).toContainEqual([
+      'test-owner',
+      'test-repo',
+      1,
+      10,
+      'Here is an example'
+    ]);
+    expect(mockGitHubClient.resolveReviewThread.mock.calls).toHaveLength(0);
+  });
+
+  it('should resolve the thread when conceding', async () => {
+    // Arrange
+    mockAIEngine.respondToThread.mockResolvedValue({ resolution: 'concede', message: 'Fair point' });
+
+    // Act
+    await handleThreadReply(replyEvent(), correlationId);
+
+    // Assert
+    expect(mockGitHubClient.replyToReviewComment.mock.calls).toContainEqual(['test-owner', 'test-repo', 1, 10, 'Fair point']);
+    expect(mockGitHubClient.getCollaboratorPermission.mock.calls).toContainEqual(['test-owner', 'test-repo', 'octocat']);
+    expect(mockGitHubClient.resolveReviewThread.mock.calls).toContainEqual(['thread-1']);
+  });
+
+  it('should not resolve the thread when conceding to a user without write access', async () => {
+    // Arrange
+    mockAIEngine.respondToThread.mockResolvedValue({ resolution: 'concede', message: 'Fair point' });
+    mockGitHubClient.getCollaboratorPermission.mockResolvedValue('read');
+
+    // Act
+    await handleThreadReply(replyEvent(), correlationId);
+
+    // Assert
+    expect(mockGitHubClient.replyToReviewComment.mock.calls).toContainEqual([
+      'test-owner',
+      'test-repo',
+      1,
+      10,
+      expect.stringContaining('A collaborator with write access can resolve this thread')
+    ]);
+    expect(mockGitHubClient.listReviewThreads.mock.calls).toHaveLength(0);
+    expect(mockGitHubClient.resolveReviewThread.mock.calls).toHaveLength(0);
+  });
+
+  it('should never respond to bot comments', async () => {
+    // Act
+    await handleThreadReply(replyEvent({ user: { login: 'reviewthor[bot]', type: 'Bot' } }), correlationId);
+
+    // Assert
+    expect(mockGitHubClient.authenticate.mock.calls).toHaveLength(0);
+  });
+
+  it('should leave slash commands to the command handler', async () => {
+    // Act
+    await handleThreadReply(replyEvent({ body: '/reviewthor explain' }), correlationId);
+
+    // Assert
+    expect(mockGitHubClient.authenticate.mock.calls).toHaveLength(0);
+  });
+
+  it('should ignore threads not started by ReviewThor', async () => {
+    // Arrange
+    mockGitHubClient.getReviewComment.mockResolvedValue({
+      id: 10,
+      body: 'Human comment',
+      user: { login: 'someone', type: 'User' },
+    } as ReviewComment);
+
+    // Act
+    await handleThreadReply(replyEvent(), correlationId);
+
+    // Assert
+    expect(mockAIEngine.respondToThread.mock.calls).toHaveLength(0);
+    expect(mockGitHubClient.replyToReviewComment.mock.calls).toHaveLength(0);
+  });
+
+  it('should stop replying once the thread reached the reply limit', async () => {
+    // Arrange
+    mockGitHubClient.listReviewComments.mockResolvedValue([
+      botReply(11),
+      botReply(12),
+      botReply(13),
+      reply,
+    ] as ReviewComment[]);
+
+    // Act
+    await handleThreadReply(replyEvent(), correlationId);
+
+    // Assert
+    expect(mockAIEngine.respondToThread.mock.calls).toHaveLength(0);
+    expect(jest.mocked(logger).info.mock.calls).toContainEqual(['Thread reply limit reached', expect.objectContaining({
+      botReplies: 3,
+    })]);
+  });
+
+  it('should apply the reply limit from the repository configuration at the base commit', async () => {
+    // Arrange
+    mockInstructionProcessor.fetchRepositoryConfig.mockResolvedValue({
+      config: { maxRepliesPerThread: 1 },
+      errors: [],
+    });
+    mockGitHubClient.listReviewComments.mockResolvedValue([botReply(11), reply] as ReviewComment[]);
+
+    // Act
+    await handleThreadReply(replyEvent(), correlationId);
+
+    // Assert
+    expect(mockInstructionProcessor.fetchRepositoryConfig.mock.calls).toContainEqual(['test-owner', 'test-repo', 'base123']);
+    expect(mockAIEngine.respondToThread.mock.calls).toHaveLength(0);
+    expect(jest.mocked(logger).info.mock.calls).toContainEqual(['Thread reply limit reached', expect.objectContaining({
+      botReplies: 1,
+    })]);
+  });
+
+  it('should log and swallow errors', async () => {
+    // Arrange
+    mockAIEngine.respondToThread.mockRejectedValue(new Error('Invalid AI response format'));
+
+    // Act
+    await handleThreadReply(replyEvent(), correlationId);
+
+    // Assert
+    expect(mockGitHubClient.replyToReviewComment.mock.calls).toHaveLength(0);
+    expect(jest.mocked(logger).error.mock.calls).toContainEqual(['Error replying in review thread', expect.objectContaining({
+      correlationId,
+      error: 'Invalid AI response format',
+    })]);
+  });
+});
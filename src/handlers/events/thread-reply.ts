@@ -0,0 +1,187 @@
+import { GitHubEvent } from '../webhook';
+import { GitHubClient, ReviewComment } from '../../github/client';
+import { decodeFinding } from '../../github/comment-reconciler';
+import { AIReviewEngine, ThreadMessage } from '../../ai/engine';
+import { AnthropicClient } from '../../ai/anthropic-client';
+import { PromptManager } from '../../ai/prompt-manager';
+import { ContextBuilder } from '../../ai/context-builder';
+import { getConfigForPath, InstructionProcessor, ReviewConfig } from '../../ai/instruction-processor';
+import { hasRole, parseCommand } from './command';
+import { logger } from '../../utils/logger';
+import { getConfig } from '../../config/loader';
+
+const HIDDEN_MARKER_PATTERN = /<!--[\s\S]*?-->/g;
+
+// Resolving a thread keeps its finding from being reported again, so it needs the same role as /reviewthor ignore
+const RESOLVE_ROLE = 'write';
+
+// Fields of the review comment webhook payload the handler relies on
+interface ThreadReplyPayload {
+  comment?: ReviewComment;
+  pull_request: { number: number; base: { sha: string } };
+}
+
+/**
+ * Follows up when a developer replies in a review thread ReviewThor started
+ * @param event - GitHub webhook event
+ * @param correlationId - Request correlation ID for tracking
+ */
+export async function handleThreadReply(event: GitHubEvent, correlationId: string): Promise<void> {
+  const { repository, installationId } = event;
+  const payload = event.payload as ThreadReplyPayload;
+  const comment = payload.comment;
+
+  // Only human replies in a thread; bot comments would make ReviewThor answer itself
+  if (
+    event.type !== 'pull_request_review_comment.created' ||
+    !comment?.in_reply_to_id ||
+    comment.user?.type === 'Bot'
+  ) {
+    return;
+  }
+
+  // Commands are answered by the command handler
+  if (parseCommand(comment.body || '')) {
+    return;
+  }
+
+  const pullNumber = payload.pull_request.number;
+  const rootId = comment.in_reply_to_id;
+
+  try {
+    const config = await getConfig();
+    const githubClient = new GitHubClient({
+      appId: config.githubAppId,
+      privateKey: config.githubPrivateKey,
+    });
+
+    await githubClient.authenticate(installationId);
+
+    const appLogin = await githubClient.getAppLogin();
+    const root = await githubClient.getReviewComment(repository.owner, repository.name, rootId);
+    const finding = root?.user?.login === appLogin ? decodeFinding(root.body || '') : null;
+    if (!root || !finding) {
+      return;
+    }
+
+    // Settings come from the base commit, like the review itself, so the pull request cannot raise its own limits
+    const settings = await loadThreadSettings(githubClient, repository, payload.pull_request.base.sha, root.path);
+
+    const reviewComments = await githubClient.listReviewComments(repository.owner, repository.name, pullNumber);
+    const replies = reviewComments
+      .filter(candidate => candidate.in_reply_to_id === rootId)
+      .sort((a, b) => a.id - b.id);
+
+    if (!replies.some(reply => reply.id === comment.id)) {
+      replies.push(comment);
+    }
+
+    const botReplies = replies.filter(reply => reply.user?.login === appLogin).length;
+    if (botReplies >= settings.maxRepliesPerThread) {
+      logger.info('Thread reply limit reached', {
+        correlationId,
+        pr: pullNumber,
+        thread: rootId,
+        botReplies,
+      });
+      return;
+    }
+
+    const conversation: ThreadMessage[] = replies.map(reply => ({
+      author: reply.user?.login || 'unknown',
+      fromBot: reply.user?.login === appLogin,
+      body: (reply.body || '').replace(HIDDEN_MARKER_PATTERN, '').trim(),
+    }));
+
+    const anthropicClient = new AnthropicClient({
+      apiKey: config.anthropicApiKey,
+      model: config.anthropicModel,
+      maxRetries: config.maxRetries,
+      timeout: config.aiTimeoutMs,
+    });
+
+    const aiEngine = new AIReviewEngine(
+      anthropicClient,
+      new PromptManager(),
+      new ContextBuilder()
+    );
+
+    const reply = await aiEngine.respondToThread(finding.issue, root.diff_hunk || '', conversation);
+
+    // The model can be talked into conceding, so only repository writers get the thread resolved
+    const canResolve = reply.resolution === 'concede' && hasRole(
+      await githubClient.getCollaboratorPermission(repository.owner, repository.name, comment.user.login),
+      RESOLVE_ROLE
+    );
+    const message = reply.resolution === 'concede' && !canResolve
+      ? `${reply.message}\n\nA collaborator with ${RESOLVE_ROLE} access can resolve this thread to stop reporting the finding.`
+      : reply.message;
+
+    await githubClient.replyToReviewComment(
+      repository.owner,
+      repository.name,
+      pullNumber,
+      rootId,
+      message
+    );
+
+    // A resolved thread also keeps the finding from being reported again
+    if (canResolve) {
+      const threads = await githubClient.listReviewThreads(repository.owner, repository.name, pullNumber);
+      const thread = threads.find(candidate => candidate.rootCommentId === rootId);
+      if (thread && !thread.isResolved) {
+        await githubClient.resolveReviewThread(thread.id);
+      }
+    }
+
+    logger.info('Replied in review thread', {
+      correlationId,
+      pr: pullNumber,
+      thread: rootId,
+      resolution: reply.resolution,
+      resolved: canResolve,
+    });
+  } catch (error) {
+    logger.error('Error replying in review thread', {
+      correlationId,
+      pr: pullNumber,
+      thread: rootId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    // Don't throw - we've logged the error and don't want to retry
+  }
+}
+
+/**
+ * Loads the review settings that apply to the file a thread is on
+ * @param githubClient - Authenticated GitHub client
+ * @param repository - Repository the pull request belongs to
+ * @param ref - Commit to read the configuration at
+ * @param path - File the thread is on
+ * @returns Review configuration for the file
+ */
+async function loadThreadSettings(
+  githubClient: GitHubClient,
+  repository: GitHubEvent['repository'],
+  ref: string,
+  path: string
+): Promise<ReviewConfig> {
+  const instructionProcessor = new InstructionProcessor(githubClient);
+  const repositoryConfig = await instructionProcessor.fetchRepositoryConfig(repository.owner, repository.name, ref);
+  const directoryOverrides = await instructionProcessor.fetchDirectoryOverrides(
+    repository.owner,
+    repository.name,
+    [path],
+    repositoryConfig?.config.locked,
+    ref
+  );
+  const config = instructionProcessor.mergeWithDefaults(
+    null,
+    repositoryConfig?.config,
+    directoryOverrides.overrides
+  );
+
+  return getConfigForPath(config, path);
+}
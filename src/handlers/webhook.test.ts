@@ -124,6 +124,24 @@ describe('WebhookHandler', () => {
       expect(event.type).toBe('pull_request.synchronize');
     });
 
+    it('should distinguish review comments from pull request comments', () => {
+      // Arrange
+      const base = {
+        action: 'created',
+        comment: { id: 1, body: '/reviewthor review' },
+        repository: { name: 'test-repo', owner: { login: 'test-owner' } },
+        installation: { id: 456 },
+      };
+
+      // Act
+      const issueComment = webhookHandler.parseEvent({ ...base, issue: { number: 1 } });
+      const reviewComment = webhookHandler.parseEvent({ ...base, pull_request: { number: 1 } });
+
+      // Assert
+      expect(issueComment.type).toBe('issue_comment.created');
+      expect(reviewComment.type).toBe('pull_request_review_comment.created');
+    });
+
     it('should throw error for missing installation', () => {
       // Arrange
       const payload = {
@@ -142,6 +160,19 @@ describe('WebhookHandler', () => {
     });
   });
 
+  describe('isSupportedEvent', () => {
+    it('should accept the actions ReviewThor acts on', () => {
+      expect(webhookHandler.isSupportedEvent({ action: 'opened', pull_request: {} })).toBe(true);
+      expect(webhookHandler.isSupportedEvent({ action: 'created', comment: {} })).toBe(true);
+    });
+
+    it('should reject other actions without throwing', () => {
+      expect(webhookHandler.isSupportedEvent({ action: 'edited', comment: {} })).toBe(false);
+      expect(webhookHandler.isSupportedEvent({ action: 'deleted', comment: {}, pull_request: {} })).toBe(false);
+      expect(webhookHandler.isSupportedEvent({ action: 'closed', pull_request: {} })).toBe(false);
+    });
+  });
+
   describe('routeEvent', () => {
     it('should handle pull_request.opened event', async () => {
       // Arrange
@@ -187,6 +218,32 @@ describe('WebhookHandler', () => {
       expect(mockHandler).toHaveBeenCalledWith(event);
     });
 
+    it('should route comment events to the comment handler', async () => {
+      // Arrange
+      const pullRequestHandler = jest.fn();
+      const commentHandler = jest.fn().mockResolvedValue(undefined);
+      webhookHandler.setPullRequestHandler(pullRequestHandler);
+      webhookHandler.setCommentHandler(commentHandler);
+
+      const event = {
+        type: 'pull_request_review_comment.created' as const,
+        payload: {
+          action: 'created',
+          comment: { id: 1, body: '/reviewthor explain' },
+          pull_request: { number: 1 },
+        },
+        repository: { name: 'test-repo', owner: 'test-owner' },
+        installationId: 456,
+      };
+
+      // Act
+      await webhookHandler.routeEvent(event);
+
+      // Assert
+      expect(commentHandler).toHaveBeenCalledWith(event);
+      expect(pullRequestHandler).not.toHaveBeenCalled();
+    });
+
     it('should ignore unsupported events', async () => {
       // Arrange
       const mockHandler = jest.fn();
@@ -1,7 +1,13 @@
 import crypto from 'crypto';
 
 export interface GitHubEvent {
-  type: 'pull_request.opened' | 'pull_request.synchronize' | 'pull_request.reopened' | 'pull_request_review.submitted';
+  type:
+    | 'pull_request.opened'
+    | 'pull_request.synchronize'
+    | 'pull_request.reopened'
+    | 'pull_request_review.submitted'
+    | 'issue_comment.created'
+    | 'pull_request_review_comment.created';
   payload: any;
   repository: {
     name: string;
@@ -12,8 +18,17 @@ export interface GitHubEvent {
 
 type EventHandler = (event: GitHubEvent) => Promise<void>;
 
+// Fields of the webhook payload that decide the event type
+export interface EventPayload {
+  action?: string;
+  pull_request?: unknown;
+  review?: unknown;
+  comment?: unknown;
+}
+
 export class WebhookHandler {
   private pullRequestHandler?: EventHandler;
+  private commentHandler?: EventHandler;
 
   constructor(private readonly webhookSecret: string) {}
 
@@ -60,8 +75,12 @@ export class WebhookHandler {
       throw new Error('Missing repository information');
     }
 
-    const eventType = this.determineEventType(payload);
-    
+    const eventPayload = payload as EventPayload;
+    const eventType = this.determineEventType(eventPayload);
+    if (!eventType) {
+      throw new Error(`Unsupported event type: ${eventPayload.action || 'unknown'}`);
+    }
+
     return {
       type: eventType,
       payload,
@@ -86,6 +105,12 @@ export class WebhookHandler {
           await this.pullRequestHandler(event);
         }
         break;
+      case 'issue_comment.created':
+      case 'pull_request_review_comment.created':
+        if (this.commentHandler) {
+          await this.commentHandler(event);
+        }
+        break;
       // Other event types can be added here
       default:
         // Ignore unsupported events
@@ -101,9 +126,26 @@ export class WebhookHandler {
     this.pullRequestHandler = handler;
   }
 
-  private determineEventType(payload: any): GitHubEvent['type'] {
+  /**
+   * Sets the handler for comment events on pull requests
+   * @param handler - Function to handle issue and review comment events
+   */
+  setCommentHandler(handler: EventHandler): void {
+    this.commentHandler = handler;
+  }
+
+  /**
+   * Checks whether a webhook delivery is one ReviewThor acts on
+   * @param payload - Parsed JSON payload from GitHub
+   * @returns false for other actions, such as edited or deleted comments and closed pull requests
+   */
+  isSupportedEvent(payload: EventPayload): boolean {
+    return this.determineEventType(payload) !== null;
+  }
+
+  private determineEventType(payload: EventPayload): GitHubEvent['type'] | null {
     if (payload.pull_request && payload.action) {
-      const action = payload.action as string;
+      const action = payload.action;
       if (['opened', 'synchronize', 'reopened'].includes(action)) {
         return `pull_request.${action}` as GitHubEvent['type'];
       }
@@ -113,6 +155,11 @@ export class WebhookHandler {
       return 'pull_request_review.submitted';
     }
 
-    throw new Error(`Unsupported event type: ${payload.action || 'unknown'}`);
+    if (payload.comment && payload.action === 'created') {
+      // Review comments carry the pull request, issue comments carry the issue (a PR is an issue)
+      return payload.pull_request ? 'pull_request_review_comment.created' : 'issue_comment.created';
+    }
+
+    return null;
   }
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { reviewthor } from './index';
 import { Request, Response } from '@google-cloud/functions-framework';
-import { WebhookHandler } from './handlers/webhook';
+import { EventPayload, WebhookHandler } from './handlers/webhook';
 import { GitHubClient } from './github/client';
 import { AIReviewEngine } from './ai/engine';
 import { handlePullRequest } from './handlers/events/pull-request';
@@ -10,6 +10,8 @@ jest.mock('./handlers/webhook');
 jest.mock('./github/client');
 jest.mock('./ai/engine');
 jest.mock('./handlers/events/pull-request');
+jest.mock('./handlers/events/command');
+jest.mock('./handlers/events/thread-reply');
 jest.mock('./utils/logger');
 jest.mock('./config/loader', () => ({
   getConfig: jest.fn().mockResolvedValue({
@@ -21,6 +23,8 @@ jest.mock('./config/loader', () => ({
   }),
 }));
 
+const { WebhookHandler: ActualWebhookHandler } = jest.requireActual<{ WebhookHandler: typeof WebhookHandler }>('./handlers/webhook');
+
 describe('reviewthor cloud function', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
@@ -61,6 +65,7 @@ describe('reviewthor cloud function', () => {
     // Setup webhook handler mock
     mockWebhookHandler = {
       validateSignature: jest.fn().mockReturnValue(true),
+      isSupportedEvent: jest.fn((payload: EventPayload) => new ActualWebhookHandler('test-secret').isSupportedEvent(payload)),
       parseEvent: jest.fn().mockReturnValue({
         type: 'pull_request.opened',
         payload: mockRequest.body,
@@ -69,6 +74,7 @@ describe('reviewthor cloud function', () => {
       }),
       routeEvent: jest.fn().mockResolvedValue(undefined),
       setPullRequestHandler: jest.fn(),
+      setCommentHandler: jest.fn(),
     } as any;
 
     // Mock the WebhookHandler constructor
@@ -144,6 +150,27 @@ describe('reviewthor cloud function', () => {
     expect(mockWebhookHandler.routeEvent).not.toHaveBeenCalled();
   });
 
+  it('should ignore comment actions it does not act on', async () => {
+    // Arrange
+    mockRequest.headers!['x-github-event'] = 'issue_comment';
+    mockRequest.body = {
+      action: 'edited',
+      comment: { id: 1, body: 'Updated summary' },
+      issue: { number: 1 },
+      repository: { name: 'test-repo', owner: { login: 'test-owner' } },
+      installation: { id: 123 },
+    };
+
+    // Act
+    await reviewthor(mockRequest as Request, mockResponse as Response);
+
+    // Assert
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.send).toHaveBeenCalledWith('Event ignored');
+    expect(mockWebhookHandler.parseEvent.mock.calls).toHaveLength(0);
+    expect(mockWebhookHandler.routeEvent.mock.calls).toHaveLength(0);
+  });
+
   it('should handle errors gracefully', async () => {
     // Arrange
     mockWebhookHandler.parseEvent.mockImplementation(() => {
@@ -180,4 +207,12 @@ describe('reviewthor cloud function', () => {
       expect.any(Function)
     );
   });
+
+  it('should setup comment handler correctly', async () => {
+    // Act
+    await reviewthor(mockRequest as Request, mockResponse as Response);
+
+    // Assert
+    expect(mockWebhookHandler.setCommentHandler.mock.calls).toEqual([[expect.any(Function)]]);
+  });
 });
\ No newline at end of file
@@ -1,10 +1,19 @@
 import { HttpFunction } from '@google-cloud/functions-framework';
 import { Request, Response } from '@google-cloud/functions-framework';
-import { WebhookHandler } from './handlers/webhook';
+import { EventPayload, WebhookHandler } from './handlers/webhook';
 import { handlePullRequest } from './handlers/events/pull-request';
+import { handleCommand } from './handlers/events/command';
+import { handleThreadReply } from './handlers/events/thread-reply';
 import { logger } from './utils/logger';
 import { getConfig } from './config/loader';
 
+const SUPPORTED_EVENTS = [
+  'pull_request',
+  'pull_request_review',
+  'issue_comment',
+  'pull_request_review_comment',
+];
+
 /**
  * Main Cloud Function entry point for ReviewThor
  * Handles GitHub webhook events
@@ -42,8 +51,8 @@ export const reviewthor: HttpFunction = async (req: Request, res: Response) => {
       return;
     }
 
-    // Only process pull request events
-    if (eventType !== 'pull_request' && eventType !== 'pull_request_review') {
+    // Only process pull request events and comments that may carry commands
+    if (!SUPPORTED_EVENTS.includes(eventType)) {
       logger.info('Ignoring non-pull request event', { correlationId, eventType });
       res.status(200).send('Event ignored');
       return;
@@ -61,6 +70,14 @@ export const reviewthor: HttpFunction = async (req: Request, res: Response) => {
       return;
     }
 
+    // Deliveries for actions ReviewThor does not act on, such as edited comments, are acknowledged and skipped
+    const payload = req.body as EventPayload;
+    if (!webhookHandler.isSupportedEvent(payload)) {
+      logger.info('Ignoring unsupported event action', { correlationId, eventType, action: payload.action });
+      res.status(200).send('Event ignored');
+      return;
+    }
+
     // Parse and route event
     const event = webhookHandler.parseEvent(req.body);
     
@@ -69,6 +86,12 @@ export const reviewthor: HttpFunction = async (req: Request, res: Response) => {
       await handlePullRequest(evt, correlationId);
     });
 
+    // Set up the comment handler for slash commands and replies to review threads
+    webhookHandler.setCommentHandler(async (evt) => {
+      await handleCommand(evt, correlationId);
+      await handleThreadReply(evt, correlationId);
+    });
+
     // Route the event
     await webhookHandler.routeEvent(event);
 
@@ -0,0 +1,24 @@
+import { matchesGlob } from './glob';
+
+describe('matchesGlob', () => {
+  it('should match a single star within one path segment', () => {
+    // Act & Assert
+    expect(matchesGlob('src/app.ts', 'src/*.ts')).toBe(true);
+    expect(matchesGlob('src/lib/app.ts', 'src/*.ts')).toBe(false);
+  });
+
+  it('should match a double star across any number of segments', () => {
+    // Act & Assert
+    expect(matchesGlob('app.min.js', '**/*.min.js')).toBe(true);
+    expect(matchesGlob('public/js/app.min.js', '**/*.min.js')).toBe(true);
+    expect(matchesGlob('src/payments/api/charge.ts', 'src/payments/**')).toBe(true);
+    expect(matchesGlob('src/payments.ts', 'src/payments/**')).toBe(false);
+  });
+
+  it('should treat regular expression characters literally', () => {
+    // Act & Assert
+    expect(matchesGlob('src/a+b.ts', 'src/a+b.ts')).toBe(true);
+    expect(matchesGlob('src/axts', 'src/a.ts')).toBe(false);
+    expect(matchesGlob('src/a1.ts', './src/a?.ts')).toBe(true);
+  });
+});
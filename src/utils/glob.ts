@@ -0,0 +1,31 @@
+/**
+ * Checks whether a repository path matches a glob pattern
+ * "*" matches within one path segment, "**" matches any number of segments and "?" one character
+ * @param path - Path relative to the repository root
+ * @param pattern - Glob pattern, such as src/payments/**
+ * @returns true if the whole path matches
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(path);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/^\.?\//, '')
+    .split('/')
+    .map((segment, index, segments) => {
+      if (segment === '**') {
+        // Zero or more whole segments, including the slash that follows them
+        return index === segments.length - 1 ? '.*' : '(?:[^/]+/)*';
+      }
+
+      const escaped = segment
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]');
+      return index === segments.length - 1 ? escaped : `${escaped}/`;
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`);
+}